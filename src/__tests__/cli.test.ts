@@ -117,7 +117,7 @@ describe('CLI', () => {
       tags: [],
       confidence: 0.9,
       source: 'rule' as const,
-      variables: { name: '' },
+      variables: { name: {} },
     };
 
     mockedInquirer.prompt.mockResolvedValue({ name: 'testdir' });
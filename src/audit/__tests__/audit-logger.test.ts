@@ -0,0 +1,31 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../audit-logger';
+
+describe('AuditLogger', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should append one JSON line per decision', async () => {
+    const logPath = path.join(dir, 'nested', 'audit.log');
+    const logger = new AuditLogger(logPath);
+
+    await logger.record({ source: 'ai', command: 'rm -rf ./build', step: 0, riskLevel: 'high', decision: 'confirmed', ruleIds: ['rm-recursive'] });
+    await logger.record({ source: 'vault', command: 'rm -rf /', step: null, riskLevel: 'high', decision: 'blocked', ruleIds: ['rm-critical-path'] });
+
+    const lines = (await fs.readFile(logPath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([
+      expect.objectContaining({ command: 'rm -rf ./build', decision: 'confirmed', cwd: process.cwd() }),
+      expect.objectContaining({ command: 'rm -rf /', decision: 'blocked', step: null }),
+    ]);
+    expect(Date.parse(lines[0].timestamp)).not.toBeNaN();
+  });
+});
@@ -0,0 +1,96 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { HistoryEntry, HistoryLog, historyStatus } from '../history-log';
+
+type NewEntry = Omit<HistoryEntry, 'id' | 'timestamp' | 'cwd'>;
+
+const entry = (overrides: Partial<NewEntry>): NewEntry => ({
+  input: 'list files',
+  source: 'ai',
+  explanation: '',
+  commands: ['ls -la'],
+  findings: [],
+  steps: [{ command: 'ls -la', decision: 'confirmed', exitCode: 0, durationMs: 5 }],
+  ...overrides,
+});
+
+describe('HistoryLog', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-history-'));
+    logPath = path.join(dir, 'history.log');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should return entries newest first', async () => {
+    const log = new HistoryLog(logPath);
+    await log.record(entry({ input: 'first' }));
+    await log.record(entry({ input: 'second' }));
+
+    const entries = await log.query();
+    expect(entries.map(e => e.input)).toEqual(['second', 'first']);
+    expect(entries[0]).toMatchObject({ cwd: process.cwd(), id: expect.any(String) });
+  });
+
+  it('should filter by source, status and text', async () => {
+    const log = new HistoryLog(logPath);
+    await log.record(entry({ input: 'list files' }));
+    await log.record(entry({ input: 'deploy', source: 'vault', commands: ['make deploy'], steps: [{ command: 'make deploy', decision: 'confirmed', exitCode: 2, durationMs: 9 }] }));
+    await log.record(entry({ input: 'wipe', commands: ['rm -rf /'], steps: [{ command: 'rm -rf /', decision: 'blocked' }] }));
+
+    expect((await log.query({ source: 'vault' })).map(e => e.input)).toEqual(['deploy']);
+    expect((await log.query({ status: 'failed' })).map(e => e.input)).toEqual(['deploy']);
+    expect((await log.query({ status: 'blocked' })).map(e => e.input)).toEqual(['wipe']);
+    expect((await log.query({ text: 'MAKE' })).map(e => e.input)).toEqual(['deploy']);
+    expect(await log.query({ since: new Date(Date.now() + 60000) })).toEqual([]);
+    expect(await log.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should rotate and keep reading rotated files', async () => {
+    const log = new HistoryLog(logPath, 1, 2);
+    for (let i = 0; i < 6; i++) {
+      await log.record(entry({ input: `run ${i}` }));
+    }
+
+    expect(await fs.pathExists(`${logPath}.1`)).toBe(true);
+    expect(await fs.pathExists(`${logPath}.3`)).toBe(false);
+
+    expect((await log.query()).map(e => e.input)).toEqual(['run 5', 'run 4', 'run 3']);
+  });
+
+  it('should find an entry by id prefix', async () => {
+    const log = new HistoryLog(logPath);
+    await log.record(entry({ input: 'only' }));
+    const [recorded] = await log.query();
+
+    expect(await log.find(recorded.id.slice(0, 8))).toEqual(recorded);
+    expect(await log.find('not-an-id')).toBeNull();
+  });
+
+  it('should skip unreadable lines', async () => {
+    await fs.outputFile(logPath, '{"id":\n');
+    const log = new HistoryLog(logPath);
+    await log.record(entry({}));
+
+    expect(await log.query()).toHaveLength(1);
+  });
+});
+
+describe('historyStatus', () => {
+  it('should describe what happened to an entry', () => {
+    const status = (steps: NewEntry['steps']) =>
+      historyStatus({ ...entry({ steps }), id: 'x', timestamp: '', cwd: '' });
+
+    expect(status([{ command: 'a', decision: 'confirmed', exitCode: 0 }])).toBe('ok');
+    expect(status([{ command: 'a', decision: 'confirmed', exitCode: 0 }, { command: 'b', decision: 'auto-run', exitCode: null }])).toBe('failed');
+    expect(status([{ command: 'a', decision: 'declined' }])).toBe('declined');
+    expect(status([{ command: 'a', decision: 'dry-run' }])).toBe('dry-run');
+    expect(status([{ command: 'a', decision: 'blocked' }])).toBe('blocked');
+  });
+});
@@ -0,0 +1,52 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { ResolvedCommand, SafetyResult } from "../types";
+
+export type AuditDecision =
+  | "auto-run" // Low risk, run without asking (autoRunLowRisk)
+  | "confirmed"
+  | "declined"
+  | "blocked"
+  | "override"; // Block overridden with --i-know-what-im-doing
+
+export interface AuditEntry {
+  timestamp: string;
+  cwd: string;
+  source: ResolvedCommand["source"];
+  command: string;
+  step: number | null; // null when the whole command was blocked
+  riskLevel: SafetyResult["riskLevel"];
+  decision: AuditDecision;
+  ruleIds: string[];
+}
+
+/**
+ * Append-only JSON Lines record of every confirmation decision, in
+ * ~/.ai-cli/audit.log. Logging failures never stop a command.
+ */
+export class AuditLogger {
+  private logPath: string;
+
+  constructor(logPath: string = path.join(os.homedir(), ".ai-cli", "audit.log")) {
+    this.logPath = logPath;
+  }
+
+  async record(entry: Omit<AuditEntry, "timestamp" | "cwd">): Promise<void> {
+    const line: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      cwd: process.cwd(),
+      ...entry,
+    };
+
+    try {
+      await fs.ensureDir(path.dirname(this.logPath));
+      await fs.appendFile(this.logPath, JSON.stringify(line) + "\n");
+    } catch (error) {
+      console.warn(
+        "Could not write audit log:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { ResolvedCommand, SafetyFinding } from "../types";
+import { AuditDecision } from "./audit-logger";
+import { HistoryBackend, resolveStorageEngine } from "../storage/storage-backend";
+import { StepStatus } from "../execution/execution-engine";
+import { openSqliteStore } from "../storage/sqlite-store";
+
+export interface HistoryStep {
+  command: string; // After variable substitution
+  decision: AuditDecision | "dry-run";
+  exitCode?: number | null; // Only set for steps that ran
+  durationMs?: number;
+  status?: StepStatus; // Only set for steps that ran
+}
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  cwd: string;
+  input: string; // What the user typed (request text, vault name, ...)
+  source: ResolvedCommand["source"];
+  explanation: string;
+  commands: string[];
+  findings: SafetyFinding[];
+  steps: HistoryStep[]; // Steps that were reached, in order
+}
+
+export type HistoryStatus = "ok" | "failed" | "blocked" | "declined" | "dry-run";
+
+export interface HistoryFilter {
+  since?: Date;
+  until?: Date;
+  source?: ResolvedCommand["source"];
+  status?: HistoryStatus;
+  text?: string; // Matched against the input and the commands
+  limit?: number;
+}
+
+const MAX_BYTES = 1024 * 1024;
+const MAX_FILES = 5;
+
+/**
+ * Append-only JSON Lines record of every resolution and execution, in
+ * ~/.ai-cli/history.log. The file rotates to history.log.1 ... .N once it
+ * grows past maxBytes; the oldest file is dropped. With the sqlite storage
+ * engine the entries go to the database next to the log instead. Logging
+ * failures never stop a command.
+ */
+export class HistoryLog {
+  private logPath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private database: Promise<HistoryBackend | null> | null = null;
+
+  constructor(
+    logPath: string = path.join(os.homedir(), ".ai-cli", "history.log"),
+    maxBytes: number = MAX_BYTES,
+    maxFiles: number = MAX_FILES
+  ) {
+    this.logPath = logPath;
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  async record(entry: Omit<HistoryEntry, "id" | "timestamp" | "cwd">): Promise<void> {
+    const full: HistoryEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      cwd: process.cwd(),
+      ...entry,
+    };
+    const line = JSON.stringify(full) + "\n";
+
+    try {
+      const database = await this.sqlite();
+      if (database) return await database.append(full);
+
+      await fs.ensureDir(path.dirname(this.logPath));
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await fs.appendFile(this.logPath, line);
+    } catch (error) {
+      console.warn(
+        "Could not write history log:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Entries matching the filter, newest first.
+   */
+  async query(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+    const text = filter.text?.toLowerCase();
+
+    const matches = (await this.readAll())
+      .filter(entry => {
+        const time = Date.parse(entry.timestamp);
+        if (filter.since && time < filter.since.getTime()) return false;
+        if (filter.until && time > filter.until.getTime()) return false;
+        if (filter.source && entry.source !== filter.source) return false;
+        if (filter.status && historyStatus(entry) !== filter.status) return false;
+        if (
+          text &&
+          !entry.input.toLowerCase().includes(text) &&
+          !entry.commands.some(c => c.toLowerCase().includes(text))
+        ) {
+          return false;
+        }
+        return true;
+      })
+      .reverse();
+
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * The entry whose id starts with `prefix`, or null when none or several do.
+   */
+  async find(prefix: string): Promise<HistoryEntry | null> {
+    const matches = (await this.readAll()).filter(entry => entry.id.startsWith(prefix));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /* -------------------- FILES -------------------- */
+
+  /**
+   * The history table when the sqlite engine is configured, else null.
+   */
+  private sqlite(): Promise<HistoryBackend | null> {
+    this.database ??= resolveStorageEngine().then(async engine =>
+      engine === "sqlite" ? (await openSqliteStore(path.dirname(this.logPath))).history : null
+    );
+    return this.database;
+  }
+
+  private rotatedPath(n: number): string {
+    return `${this.logPath}.${n}`;
+  }
+
+  private async rotateIfNeeded(incoming: number): Promise<void> {
+    if (!(await fs.pathExists(this.logPath))) return;
+
+    const { size } = await fs.stat(this.logPath);
+    if (size === 0 || size + incoming <= this.maxBytes) return;
+
+    await fs.remove(this.rotatedPath(this.maxFiles));
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      if (await fs.pathExists(this.rotatedPath(n))) {
+        await fs.move(this.rotatedPath(n), this.rotatedPath(n + 1));
+      }
+    }
+    await fs.move(this.logPath, this.rotatedPath(1));
+  }
+
+  /**
+   * Every entry, oldest first. Unreadable lines are skipped.
+   */
+  private async readAll(): Promise<HistoryEntry[]> {
+    const database = await this.sqlite();
+    if (database) return database.list();
+
+    const files = [];
+    for (let n = this.maxFiles; n >= 1; n--) files.push(this.rotatedPath(n));
+    files.push(this.logPath);
+
+    const entries: HistoryEntry[] = [];
+    for (const file of files) {
+      if (!(await fs.pathExists(file))) continue;
+
+      for (const line of (await fs.readFile(file, "utf8")).split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // A partial line from an interrupted write
+        }
+      }
+    }
+
+    return entries;
+  }
+}
+
+/**
+ * Overall outcome of an entry: failed if any step exited non-zero,
+ * ok if any step ran, otherwise what stopped it.
+ */
+export function historyStatus(entry: HistoryEntry): HistoryStatus {
+  const ran = entry.steps.filter(step => step.exitCode !== undefined);
+  if (ran.some(step => step.exitCode !== 0)) return "failed";
+  if (ran.length) return "ok";
+  if (entry.steps.some(step => step.decision === "dry-run")) return "dry-run";
+  if (entry.steps.some(step => step.decision === "blocked")) return "blocked";
+  return "declined";
+}
@@ -9,8 +9,11 @@ jest.mock('fs-extra', () => ({
   ensureDir: jest.fn(),
   remove: jest.fn(),
   move: jest.fn(),
+  mkdir: jest.fn(),
+  rename: jest.fn(),
 }));
 jest.mock('os');
+jest.mock('../../storage/storage-backend', () => ({ resolveStorageEngine: async () => 'json' }));
 
 import { pathExists, readJson, writeJson, ensureDir, remove, move } from 'fs-extra';
 
@@ -0,0 +1,32 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonCache } from '../json-cache';
+
+describe('JsonCache', () => {
+  let dir: string;
+  let cachePath: string;
+
+  const entry = { response: 'ls -la', timestamp: 1, expiresAt: Date.now() + 60_000 };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-cache-'));
+    cachePath = path.join(dir, 'cache.json');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should set aside a corrupted cache file and keep caching', async () => {
+    await fs.writeFile(cachePath, '{"key": {"respo');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const cache = new JsonCache(cachePath);
+
+    expect(await cache.get('key')).toBeUndefined();
+    await cache.set('key', entry, 10);
+
+    expect(await cache.get('key')).toEqual(entry);
+    expect((await fs.readdir(dir)).some(name => name.startsWith('cache.json.corrupt-'))).toBe(true);
+  });
+});
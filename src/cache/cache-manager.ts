@@ -2,17 +2,15 @@ import * as fs from "fs-extra";
 import * as path from "path";
 import * as crypto from "crypto";
 import { OS } from "../types";
-
-interface CacheEntry {
-  response: string;
-  timestamp: number;
-  expiresAt: number;
-}
+import { CacheBackend, resolveStorageEngine } from "../storage/storage-backend";
+import { openSqliteStore } from "../storage/sqlite-store";
+import { JsonCache } from "./json-cache";
 
 export class CacheManager {
   private readonly cachePath: string;
   private readonly cacheDuration: number;
   private readonly maxEntries = 500;
+  private backend: Promise<CacheBackend> | null = null;
 
   constructor(cacheDurationMs: number = 60 * 60 * 1000) {
     this.cachePath = path.join(
@@ -27,12 +25,21 @@ export class CacheManager {
     await fs.ensureDir(path.dirname(this.cachePath));
   }
 
+  private store(): Promise<CacheBackend> {
+    this.backend ??= resolveStorageEngine().then(async engine =>
+      engine === "sqlite"
+        ? (await openSqliteStore(path.dirname(this.cachePath))).cache
+        : new JsonCache(this.cachePath)
+    );
+    return this.backend;
+  }
+
   private getCacheKey(
     input: string,
     os: OS,
     learningMode: boolean,
-    model: string = "gemini-2.5-flash",
-    promptVersion: string = "v1"
+    model: string,
+    promptVersion: string
   ): string {
     const data = [
       input,
@@ -50,20 +57,19 @@ export class CacheManager {
   async get(
     input: string,
     os: OS,
-    learningMode: boolean
+    learningMode: boolean,
+    model: string = "default",
+    promptVersion: string = "v1"
   ): Promise<string | null> {
     try {
-      if (!(await fs.pathExists(this.cachePath))) return null;
-
-      const cache = await fs.readJson(this.cachePath);
-      const key = this.getCacheKey(input, os, learningMode);
-      const entry: CacheEntry | undefined = cache[key];
+      const store = await this.store();
+      const key = this.getCacheKey(input, os, learningMode, model, promptVersion);
+      const entry = await store.get(key);
 
       if (!entry) return null;
 
       if (Date.now() > entry.expiresAt) {
-        delete cache[key];
-        await this.writeCache(cache);
+        await store.delete(key);
         return null;
       }
 
@@ -77,25 +83,24 @@ export class CacheManager {
     input: string,
     os: OS,
     learningMode: boolean,
-    response: string
+    response: string,
+    model: string = "default",
+    promptVersion: string = "v1"
   ): Promise<void> {
     try {
       await this.ensureCacheDir();
 
-      const cache = (await fs.pathExists(this.cachePath))
-        ? await fs.readJson(this.cachePath)
-        : {};
-
-      const key = this.getCacheKey(input, os, learningMode);
-
-      cache[key] = {
-        response,
-        timestamp: Date.now(),
-        expiresAt: Date.now() + this.cacheDuration,
-      };
-
-      this.evictOldEntries(cache);
-      await this.writeCache(cache);
+      const key = this.getCacheKey(input, os, learningMode, model, promptVersion);
+
+      await (await this.store()).set(
+        key,
+        {
+          response,
+          timestamp: Date.now(),
+          expiresAt: Date.now() + this.cacheDuration,
+        },
+        this.maxEntries
+      );
     } catch {
       // Silent fail — cache must never break CLI
     }
@@ -103,27 +108,9 @@ export class CacheManager {
 
   async clear(): Promise<void> {
     try {
-      if (await fs.pathExists(this.cachePath)) {
-        await fs.remove(this.cachePath);
-      }
+      await (await this.store()).clear();
     } catch {
       // Ignore
     }
   }
-
-  private evictOldEntries(cache: Record<string, CacheEntry>): void {
-    const keys = Object.keys(cache);
-    if (keys.length <= this.maxEntries) return;
-
-    keys
-      .sort((a, b) => cache[a].timestamp - cache[b].timestamp)
-      .slice(0, keys.length - this.maxEntries)
-      .forEach(k => delete cache[k]);
-  }
-
-  private async writeCache(cache: Record<string, CacheEntry>): Promise<void> {
-    const tmpPath = this.cachePath + ".tmp";
-    await fs.writeJson(tmpPath, cache);
-    await fs.move(tmpPath, this.cachePath, { overwrite: true });
-  }
 }
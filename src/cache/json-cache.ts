@@ -0,0 +1,70 @@
+import * as fs from "fs-extra";
+import { CacheBackend, CacheEntry } from "../storage/storage-backend";
+import { readJsonWithRecovery, withFileLock, writeJsonAtomic } from "../storage/atomic-file";
+
+/**
+ * The cache as a single JSON object keyed by cache key (cache.json).
+ */
+export class JsonCache implements CacheBackend {
+  private readonly cachePath: string;
+
+  constructor(cachePath: string) {
+    this.cachePath = cachePath;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const cache = await this.read();
+    return cache[key];
+  }
+
+  async set(key: string, entry: CacheEntry, maxEntries: number): Promise<void> {
+    await this.update(cache => {
+      cache[key] = entry;
+      evictOldEntries(cache, maxEntries);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.update(cache => {
+      delete cache[key];
+    });
+  }
+
+  async clear(): Promise<void> {
+    if (await fs.pathExists(this.cachePath)) {
+      await fs.remove(this.cachePath);
+    }
+  }
+
+  /**
+   * Re-reads the cache under its lock before changing it, so parallel
+   * invocations don't drop each other's entries.
+   */
+  private async update(
+    change: (cache: Record<string, CacheEntry>) => void
+  ): Promise<void> {
+    await withFileLock(this.cachePath, async () => {
+      const cache = await this.read();
+      change(cache);
+      await writeJsonAtomic(this.cachePath, cache);
+    });
+  }
+
+  /**
+   * The cache, or an empty one when there is none yet. A file that no
+   * longer parses is set aside and the cache starts over.
+   */
+  private read(): Promise<Record<string, CacheEntry>> {
+    return readJsonWithRecovery<Record<string, CacheEntry>>(this.cachePath, {});
+  }
+}
+
+function evictOldEntries(cache: Record<string, CacheEntry>, maxEntries: number): void {
+  const keys = Object.keys(cache);
+  if (keys.length <= maxEntries) return;
+
+  keys
+    .sort((a, b) => cache[a].timestamp - cache[b].timestamp)
+    .slice(0, keys.length - maxEntries)
+    .forEach(k => delete cache[k]);
+}
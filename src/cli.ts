@@ -1,36 +1,109 @@
 #!/usr/bin/env node
 import dotenv from "dotenv";
 import path from "path";
+import os from "os";
+import * as fs from "fs-extra";
 import chalk from "chalk";
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import { spawn } from "child_process";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
 
 import { AIService } from "./core/ai-service";
 import { ShellIntegrator } from "./shell/shell-integrator";
+import { RateLimiter } from "./shell/rate-limiter";
 import { CommandResolver } from "./resolver/command-resolver";
 import { SafetyValidator } from "./safety/safety-validator";
-import { StorageManager } from "./storage/storage-manager";
+import { CommandChanges, StorageManager } from "./storage/storage-manager";
+import { SyncResult } from "./storage/vault-sync";
+import { SchemaVersionError } from "./storage/migrations";
+import {
+  IMPORT_FORMATS,
+  VAULT_FORMATS,
+  VaultFormat,
+  compactVariables,
+  detectVariables,
+  exportVault,
+  formatFromPath,
+  parseVariables,
+  parseVault,
+} from "./storage/vault-format";
 import { OSAdapter } from "./os/os-adapter";
 import { PluginManager } from "./plugins/plugin-manager";
-import { ResolvedCommand } from "./types";
+import { runnerShell } from "./execution/command-runner";
+import {
+  FAILURE_POLICIES,
+  FailurePolicy,
+  StepResult,
+  StepStatus,
+  runSteps,
+} from "./execution/execution-engine";
+import { stepOutputValues, stepReferences } from "./execution/step-outputs";
+import { CommandExplainer } from "./explain/command-explainer";
+import {
+  ConfirmationOptions,
+  ConfirmationTier,
+  RISK_LEVELS,
+  RiskLevel,
+  canOverrideBlock,
+  confirmationTier,
+  findingsForStep,
+} from "./execution/confirmation";
+import { EXIT_CODES, Outcome, stepsOutcome } from "./execution/exit-codes";
+import { DryRunPreviewer, formatBytes } from "./execution/dry-run-previewer";
+import {
+  VariableError,
+  describeVariable,
+  fillVariables,
+  resolveVariables,
+  substituteVariables,
+  visibleValues,
+} from "./execution/variables";
+import { AuditDecision, AuditLogger } from "./audit/audit-logger";
+import {
+  HistoryFilter,
+  HistoryLog,
+  HistoryStatus,
+  HistoryStep,
+  historyStatus,
+} from "./audit/history-log";
+import { loadConfig } from "./core/config";
+import { parseCommandLine, splitTopLevel } from "./parser/command-parser";
+import {
+  CommandEntry,
+  FailedCommand,
+  ResolvedCommand,
+  SafetyFinding,
+  SafetyResult,
+} from "./types";
 
 dotenv.config({
   path: path.resolve(process.cwd(), ".env"),
   override: true,
+  quiet: true, // Keeps stdout clean for --json and --print-only
 });
 
 const program = new Command();
 
+const DRY_RUN_MAX_ITEMS = 50;
+
 program
   .name("ai")
   .description("AI-powered command assistant for existing terminals")
   .version("1.0.0");
 
+// With --json and --print-only stdout only carries the result; whatever
+// is printed for people goes to stderr
+program.hook("preAction", (_program, command) => {
+  const { json, printOnly } = command.opts();
+  if (json || printOnly) console.log = console.error;
+});
+
 /* ---------------------------------------------------- */
 /* SHARED INITIALIZATION                                */
 /* ---------------------------------------------------- */
 
 async function createContext() {
+  const config = await loadConfig();
   const pluginManager = new PluginManager();
   await pluginManager.init();
 
@@ -39,9 +112,15 @@ async function createContext() {
   const validator = new SafetyValidator(pluginManager);
   const storage = new StorageManager();
   const osAdapter = new OSAdapter();
+  const audit = new AuditLogger();
+  const history = new HistoryLog();
 
   return {
+    config,
+    audit,
+    history,
     pluginManager,
+    aiService,
     resolver,
     validator,
     storage,
@@ -49,90 +128,512 @@ async function createContext() {
   };
 }
 
+type CliContext = Awaited<ReturnType<typeof createContext>>;
+
 /* ---------------------------------------------------- */
 /* EXECUTION PIPELINE                                   */
 /* ---------------------------------------------------- */
 
+interface ExecutionOptions {
+  input?: string; // What the user typed, for the history log
+  override?: boolean; // --i-know-what-im-doing
+  dryRun?: boolean; // Preview what would be affected, run nothing
+  vars?: { [name: string]: string }; // --var name=value
+  onFailure?: FailurePolicy; // --on-failure, overrides config.json
+  timeout?: number; // --timeout, seconds per step
+  interactive?: boolean; // false never prompts: --yes, --json, --print-only
+  maxRisk?: RiskLevel; // --yes, "Run it" in not-found: the highest risk confirmed without asking
+  printOnly?: boolean; // Print the commands for eval instead of running them
+  echo?: NodeJS.WritableStream; // Where step output is shown (stderr for --json)
+}
+
+/**
+ * What became of a request, as printed by --json. Commands are the ones
+ * shown: secrets stay {placeholders}.
+ */
+interface ExecutionReport {
+  status: Outcome;
+  input: string;
+  source?: ResolvedCommand["source"];
+  explanation?: string;
+  commands: string[];
+  safety?: SafetyResult;
+  steps: ReportedStep[];
+}
+
+interface ReportedStep extends Omit<StepResult, "status"> {
+  command: string;
+  decision?: HistoryStep["decision"];
+  status?: StepStatus | "blocked";
+}
+
 async function executeResolvedCommand(
   resolved: ResolvedCommand,
-  validator: SafetyValidator
-): Promise<void> {
-  const safety = await validator.validate(resolved);
+  ctx: CliContext,
+  options: ExecutionOptions = {}
+): Promise<ExecutionReport> {
+  let safety = await ctx.validator.validate(resolved);
+  printSafetyFindings(safety);
 
-  if (safety.blocked) {
-    console.log(chalk.red("🚫 BLOCKED:"), safety.reason);
-    return;
-  }
+  const confirmation: ConfirmationOptions = {
+    autoRunLowRisk: ctx.config.autoRunLowRisk === true,
+    override: options.override,
+    overridableRules: ctx.validator.getPolicyManager().getOverridableRules(),
+    interactive: options.interactive,
+    maxRisk: options.maxRisk,
+  };
+  const ruleIds = (step: number | null, result: SafetyResult = safety) =>
+    (result.findings ?? [])
+      .filter(f => !f.suppressedBy && f.ruleId && (step === null || f.step === null || f.step === step))
+      .map(f => f.ruleId as string);
 
-  if (safety.warning) {
-    console.log(chalk.yellow("⚠️ WARNING:"), safety.warning);
-  }
+  const steps: HistoryStep[] = [];
+  const recordHistory = (commands: string[]) =>
+    ctx.history.record({
+      input: options.input ?? resolved.commands.join(" && "),
+      source: resolved.source,
+      explanation: resolved.explanation,
+      commands,
+      findings: safety.findings ?? [],
+      steps,
+    });
+  const report = (status: Outcome, commands: string[], reported: ReportedStep[] = steps): ExecutionReport => ({
+    status,
+    input: options.input ?? resolved.commands.join(" && "),
+    source: resolved.source,
+    explanation: resolved.explanation,
+    commands,
+    safety,
+    steps: reported,
+  });
+
+  // Blocks stop here unless overridden; true when the command was refused
+  const refuseBlocked = async (commands: string[]): Promise<boolean> => {
+    if (!safety.blocked || options.dryRun) return false;
+
+    if (canOverrideBlock(safety, confirmation)) {
+      console.log(chalk.red("Overriding block (--i-know-what-im-doing)."));
+      return false;
+    }
 
-  // Handle variables
+    if (options.override) {
+      console.log(
+        chalk.red("Override refused:"),
+        canOverrideBlock(safety, { ...confirmation, interactive: true })
+          ? "blocks are only overridden in a terminal, where the phrase can be typed."
+          : 'add the blocking rule ids to "overridable" in ~/.ai-cli/policy.yaml to allow it.'
+      );
+    }
+    await ctx.audit.record({
+      source: resolved.source,
+      command: commands.join(" && "),
+      step: null,
+      riskLevel: safety.riskLevel,
+      decision: "blocked",
+      ruleIds: ruleIds(null),
+    });
+    commands.forEach(command => steps.push({ command, decision: "blocked" }));
+    await recordHistory(commands);
+    return true;
+  };
+
+  if (await refuseBlocked(resolved.commands)) return report("blocked", resolved.commands);
+
+  // Handle variables. `shown` keeps secrets as {placeholders}; it is what
+  // gets printed, audited and recorded
   let commands = [...resolved.commands];
-  if (resolved.variables) {
-    const inquirer = require("inquirer");
-    const answers = await inquirer.prompt(
-      Object.keys(resolved.variables).map(name => ({
-        type: "input",
-        name,
-        message: `Enter value for ${name}:`,
-      }))
-    );
+  let shown = commands;
+  let answers: { [name: string]: string } = {};
+  if (resolved.variables && Object.keys(resolved.variables).length) {
+    try {
+      answers = await resolveVariables(resolved.variables, {
+        preset: options.vars,
+        interactive: options.interactive,
+        canRun: async command => {
+          const check = await ctx.validator.validate({
+            commands: [command],
+            explanation: "",
+            tags: [],
+            confidence: 1,
+            source: resolved.source,
+          });
+          return !check.blocked && check.riskLevel === "low";
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof VariableError)) throw error;
+      console.log(chalk.red(error.message));
+      return report("unresolved", resolved.commands, []);
+    }
 
-    commands = commands.map(cmd => {
-      let result = cmd;
-      for (const [k, v] of Object.entries(answers)) {
-        result = result.replace(new RegExp(`\\{${k}\\}`, "g"), String(v));
-      }
-      return result;
+    const shell = runnerShell();
+    const visible = visibleValues(resolved.variables, answers);
+    commands = resolved.commands.map(cmd => substituteVariables(cmd, answers, shell));
+    shown = resolved.commands.map(cmd => substituteVariables(cmd, visible, shell));
+
+    // The values can change what the commands do, so check them again as
+    // they will run and report what was not found before
+    const before = safety;
+    safety = await ctx.validator.validateSubstituted(resolved, answers, shell);
+    printSafetyFindings({
+      ...safety,
+      findings: (safety.findings ?? []).filter(f => !(before.findings ?? []).some(b => sameFinding(b, f))),
     });
+    if (!before.blocked && (await refuseBlocked(shown))) return report("blocked", shown);
+  }
+
+  if (options.printOnly) {
+    if (commands.some(command => stepReferences(command).length)) {
+      console.log(chalk.yellow("The steps use each other's output, so ai has to run them."));
+      return report("unresolved", shown, []);
+    }
+    // For eval: the values go to the shell as they are, secrets included
+    process.stdout.write(`${commands.join(" && ")}\n`);
+    return report("ok", shown, []);
   }
 
   console.log(chalk.green("Commands:"));
-  commands.forEach((c, i) => {
+  shown.forEach((c, i) => {
     console.log(`${i + 1}. ${chalk.cyan(c)}`);
   });
 
-  const inquirer = require("inquirer");
+  if (options.dryRun) {
+    await printDryRun(commands, ctx);
+    shown.forEach(command => steps.push({ command, decision: "dry-run" }));
+    await recordHistory(shown);
+    return report("dry-run", shown);
+  }
+
+  // Nobody to ask whether to go on after a failure: stop, as by default
+  const onFailure = options.onFailure ?? ctx.config.onFailure;
+  const decisions: AuditDecision[] = [];
+  const ran: string[] = []; // Shown commands with step outputs filled in
+  let failure: FailedCommand | null = null;
+  const results = await runSteps(commands, {
+    onFailure: onFailure === "ask" && options.interactive === false ? "stop" : onFailure,
+    timeoutMs: secondsToMs(options.timeout ?? ctx.config.stepTimeoutSeconds),
+    echo: options.echo,
+    prepare: async (i, previous) => {
+      const step = await withStepOutputs(resolved, commands[i], i, previous, findingsForStep(safety, i), ctx);
+      ran[i] = step ? substituteVariables(shown[i], step.outputs, runnerShell()) : shown[i];
+      const stepSafety = step ? { ...safety, findings: [...(safety.findings ?? []), ...step.findings] } : safety;
+
+      const refuse = (decision: AuditDecision) => {
+        decisions[i] = decision;
+        steps.push({ command: ran[i], decision });
+        return ctx.audit.record({
+          source: resolved.source,
+          command: ran[i],
+          step: i,
+          riskLevel: stepSafety.riskLevel,
+          decision,
+          ruleIds: ruleIds(i, stepSafety),
+        });
+      };
+
+      if (!step) {
+        console.log(chalk.yellow(`Skipping step ${i + 1}: it uses the output of a step that did not run.`));
+        await refuse("declined");
+        return null;
+      }
+      if (step.findings.length) {
+        printSafetyFindings({ ...stepSafety, findings: step.findings });
+        if (
+          step.findings.some(f => !f.suppressedBy && f.severity === "block") &&
+          !canOverrideBlock(stepSafety, confirmation)
+        ) {
+          await refuse("blocked");
+          return null;
+        }
+      }
+      if (ran[i] !== shown[i]) console.log(`${i + 1}. ${chalk.cyan(ran[i])}`);
+
+      const tier = confirmationTier(stepSafety, i, confirmation);
+      const label = commands.length > 1 ? `step ${i + 1}` : "this command";
+      const approved = await confirmStep(tier, label, answers);
+      const overridden = findingsForStep(stepSafety, i).some(f => f.severity === "block");
+
+      if (!approved) {
+        console.log(chalk.yellow("Skipped."));
+        await refuse("declined");
+        return null;
+      }
+
+      decisions[i] = overridden ? "override" : tier.kind === "auto" ? "auto-run" : "confirmed";
+      await ctx.audit.record({
+        source: resolved.source,
+        command: ran[i],
+        step: i,
+        riskLevel: stepSafety.riskLevel,
+        decision: decisions[i],
+        ruleIds: ruleIds(i, stepSafety),
+      });
+      return step.command;
+    },
+    onResult: (i, result) => {
+      steps.push({
+        command: ran[i],
+        decision: decisions[i],
+        exitCode: result.exitCode,
+        durationMs: result.durationMs,
+        status: result.status,
+      });
+      if (result.status === "ok") return;
+
+      console.log(chalk.red(`✗ ${result.message}`));
+      if (result.status !== "failed") return;
+
+      // Only real failures are worth diagnosing
+      failure ??= {
+        command: ran[i],
+        exitCode: result.exitCode ?? null,
+        stderr: result.stderr ?? "",
+        cwd: process.cwd(),
+        timestamp: new Date().toISOString(),
+      };
+    },
+  });
+
+  const statuses = results.map((result, i) => (decisions[i] === "blocked" ? "blocked" : result.status));
+  if (commands.length > 1) printStepSummary(shown.map((c, i) => ran[i] ?? c), results, statuses);
+
+  await recordHistory(shown);
+
+  if (failure) {
+    await ctx.storage.saveLastFailure(failure);
+    if (options.interactive !== false) await offerFix(failure, ctx);
+  }
+
+  return report(
+    stepsOutcome(statuses),
+    shown,
+    results.map((result, i) => ({ command: ran[i] ?? shown[i], decision: decisions[i], ...result, status: statuses[i] }))
+  );
+}
+
+/**
+ * A step with the outputs of earlier steps it uses filled in, and the
+ * findings that only show with them; null when one of those steps did
+ * not run. Steps using no step outputs come back as they are.
+ */
+async function withStepOutputs(
+  resolved: ResolvedCommand,
+  command: string,
+  step: number,
+  previous: StepResult[],
+  known: SafetyFinding[],
+  ctx: CliContext
+): Promise<{ command: string; outputs: { [name: string]: string }; findings: SafetyFinding[] } | null> {
+  const outputs = stepOutputValues(command, previous);
+  if (!outputs) return null;
+  if (!Object.keys(outputs).length) return { command, outputs, findings: [] };
+
+  // Outputs are only known now, so the step is checked again with them
+  const shell = runnerShell();
+  const check = await ctx.validator.validateSubstituted({ ...resolved, commands: [command] }, outputs, shell);
+
+  return {
+    command: substituteVariables(command, outputs, shell),
+    outputs,
+    findings: (check.findings ?? [])
+      .map(f => ({ ...f, step: f.step === null ? null : step }))
+      .filter(f => !known.some(k => sameFinding(k, f))),
+  };
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+  return seconds && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function printStepSummary(
+  commands: string[],
+  results: StepResult[],
+  statuses: Array<StepStatus | "blocked">
+): void {
+  console.log();
+  console.table(
+    results.map((result, i) => ({
+      step: i + 1,
+      command: commands[i],
+      status: statuses[i],
+      exit: result.exitCode ?? "",
+      duration: result.durationMs !== undefined ? `${(result.durationMs / 1000).toFixed(1)}s` : "",
+    }))
+  );
+}
+
+async function printDryRun(commands: string[], ctx: CliContext): Promise<void> {
+  const previewer = new DryRunPreviewer(process.cwd(), ctx.validator.getDialect());
+
+  console.log();
+  console.log(chalk.blue("Dry run - nothing will be executed"));
 
   for (let i = 0; i < commands.length; i++) {
+    for (const preview of await previewer.preview(commands[i])) {
+      console.log(`${i + 1}. ${chalk.cyan(preview.command)}`);
+
+      if (preview.action) {
+        const counts = [
+          preview.fileCount && `${preview.fileCount} files`,
+          preview.directoryCount && `${preview.directoryCount} directories`,
+          preview.totalSize && formatBytes(preview.totalSize),
+        ].filter(Boolean);
+        console.log(
+          `   ${chalk.yellow(preview.action)}${counts.length ? ` - ${counts.join(", ")}` : ""}`
+        );
+      }
+
+      preview.items.slice(0, DRY_RUN_MAX_ITEMS).forEach(item => {
+        const size = item.kind === "object" ? "" : `  ${chalk.gray(formatBytes(item.size))}`;
+        console.log(`     ${item.path}${item.kind === "directory" ? "/" : ""}${size}`);
+      });
+      if (preview.items.length > DRY_RUN_MAX_ITEMS) {
+        console.log(chalk.gray(`     ... and ${preview.items.length - DRY_RUN_MAX_ITEMS} more`));
+      }
+
+      if (preview.nativeCommand) {
+        console.log(`   ${chalk.blue("native preview:")} ${preview.nativeCommand}`);
+        (preview.nativeOutput || "(no output)").split("\n").forEach(line => {
+          console.log(`     ${line}`);
+        });
+      }
+
+      preview.notes.forEach(note => console.log(chalk.gray(`   ${note}`)));
+    }
+
+    if (stepReferences(commands[i]).length) {
+      console.log(chalk.gray("   Uses the output of an earlier step, which a dry run does not have."));
+    }
+  }
+}
+
+async function confirmStep(
+  tier: ConfirmationTier,
+  label: string,
+  answers: { [name: string]: string }
+): Promise<boolean> {
+  if (tier.kind === "auto") {
+    console.log(chalk.gray(`Running ${label} (${tier.reason})`));
+    return true;
+  }
+  if (tier.kind === "refused") {
+    console.log(chalk.yellow(`Not running ${label}:`), tier.reason);
+    return false;
+  }
+
+  const inquirer = require("inquirer");
+
+  if (tier.kind === "yes-no") {
     const { execute } = await inquirer.prompt([
       {
         type: "confirm",
         name: "execute",
-        message:
-          commands.length > 1
-            ? `Execute step ${i + 1}?`
-            : "Execute this command?",
+        message: label === "this command" ? "Execute this command?" : `Execute ${label}?`,
         default: false,
       },
     ]);
+    return execute;
+  }
 
-    if (!execute) {
-      console.log(chalk.yellow("Skipped."));
-      continue;
-    }
+  // Typed confirmation: the target may itself be a {variable}
+  const expected = fillVariables(tier.expected, answers);
+  console.log(chalk.red(`High risk (${label}):`), tier.reason);
+  const { typed } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "typed",
+      message: `Type "${expected}" to continue:`,
+    },
+  ]);
+  return typed.trim() === expected;
+}
+
+/* ---------------------------------------------------- */
+/* FIX FLOW                                             */
+/* ---------------------------------------------------- */
+
+async function offerFix(failure: FailedCommand, ctx: CliContext): Promise<void> {
+  const inquirer = require("inquirer");
+  const { fix } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "fix",
+      message: "Ask AI to diagnose and fix this failure?",
+      default: true,
+    },
+  ]);
 
-    await runCommand(commands[i]);
+  if (fix) {
+    await fixFailure(failure, ctx);
   }
 }
 
-async function runCommand(cmd: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const isWindows = process.platform === "win32";
+async function fixFailure(failure: FailedCommand, ctx: CliContext): Promise<void> {
+  console.log(chalk.blue("Diagnosing:"), chalk.cyan(failure.command));
 
-    const child = isWindows
-      ? spawn("powershell", ["-Command", cmd], { stdio: "inherit" })
-      : spawn(cmd, { shell: true, stdio: "inherit" });
+  const resolved = await ctx.aiService.generateFix(
+    failure,
+    ctx.osAdapter.getOS()
+  );
 
-    child.on("exit", code => {
-      if (code === 0) resolve();
-      else reject(new Error(`Command failed with exit code ${code}`));
-    });
+  if (!resolved) {
+    console.log(chalk.yellow("Could not suggest a fix."));
+    return;
+  }
+
+  printExplanation(resolved);
+  await executeResolvedCommand(resolved, ctx, { input: failure.command });
+}
+
+function sameFinding(a: SafetyFinding, b: SafetyFinding): boolean {
+  return a.step === b.step && a.ruleId === b.ruleId && a.reason === b.reason && a.severity === b.severity;
+}
+
+function printSafetyFindings(safety: SafetyResult): void {
+  for (const finding of safety.findings ?? []) {
+    const where = finding.step !== null ? ` (step ${finding.step + 1})` : "";
+    const from = finding.source === "plugin" ? ` [${finding.origin}]` : "";
 
-    child.on("error", reject);
+    if (finding.suppressedBy) {
+      console.log(chalk.gray(`  suppressed by ${finding.suppressedBy}${where}: ${finding.reason}`));
+    } else if (finding.severity === "block") {
+      console.log(chalk.red(`🚫 BLOCKED${where}${from}:`), finding.reason);
+    } else if (finding.severity === "confirm") {
+      console.log(chalk.yellow(`✋ CONFIRM${where}${from}:`), finding.reason);
+    } else {
+      console.log(chalk.yellow(`⚠️ WARNING${where}${from}:`), finding.reason);
+    }
+  }
+}
+
+function printExplanation(resolved: ResolvedCommand): void {
+  console.log(chalk.blue("Explanation:"));
+  console.log(resolved.explanation);
+
+  resolved.commands.forEach((cmd, i) => {
+    const stepExplanation = resolved.steps?.[i]?.explanation;
+    console.log(`  ${i + 1}. ${chalk.cyan(cmd)}`);
+    if (stepExplanation) console.log(`     ${stepExplanation}`);
   });
+
+  const variables = Object.entries(resolved.variables ?? {});
+  if (variables.length) {
+    console.log(chalk.blue("Variables:"));
+    variables.forEach(([name, spec]) => {
+      const about = describeVariable(spec);
+      console.log(`  {${name}}${about ? ` - ${about}` : ""}`);
+    });
+  }
+
+  if (resolved.riskAssessment) {
+    const { level, reason } = resolved.riskAssessment;
+    console.log(
+      chalk.blue("AI risk assessment:"),
+      `${level}${reason ? ` - ${reason}` : ""}`
+    );
+  }
+
+  console.log(chalk.blue("Confidence:"), `${Math.round(resolved.confidence * 100)}%`);
 }
 
 /* ---------------------------------------------------- */
@@ -144,6 +645,15 @@ program
   .argument("<input...>")
   .option("-e, --explain", "Explain command")
   .option("-l, --learning", "Enable learning mode")
+  .option("--dry-run", "Show what would be affected without running anything")
+  .option("--i-know-what-im-doing", "Allow overriding blocks listed as overridable in policy.yaml")
+  .option("--var <name=value>", "Set a variable instead of prompting for it (repeatable)", collectVar, {})
+  .option("--on-failure <policy>", "When a step fails: stop, continue or ask", parseFailurePolicy)
+  .option("--timeout <seconds>", "Stop steps that run longer", parseSeconds)
+  .option("-y, --yes", "Run steps up to --max-risk without asking, refuse the rest")
+  .option("--max-risk <level>", "Highest risk --yes runs: low, medium or high (default: medium)", parseRiskLevel)
+  .option("--json", "Print the result as JSON, never prompt")
+  .option("--print-only", "Print the command for eval instead of running it")
   .action(async (inputParts, options) => {
     const input = inputParts.join(" ");
     const ctx = await createContext();
@@ -157,15 +667,172 @@ program
 
     if (!resolved) {
       console.log(chalk.yellow("Could not resolve command."));
+      finishRun({ status: "unresolved", input, commands: [], steps: [] }, options);
       return;
     }
 
     if (options.explain) {
-      console.log(chalk.blue("Explanation:"));
-      console.log(resolved.explanation);
+      printExplanation(resolved);
+    }
+
+    finishRun(await executeResolvedCommand(resolved, ctx, executionOptions(input, options)), options);
+  });
+
+/* ---------------------------------------------------- */
+/* COMMAND: fix                                         */
+/* ---------------------------------------------------- */
+
+program
+  .command("fix")
+  .description("Diagnose and repair the last failed command")
+  .argument("[command...]", "Failed command (defaults to the last failure seen by ai)")
+  .option("--exit-code <code>", "Exit code of the failed command", parseExitCode)
+  .option("--stderr <text>", "Error output of the failed command")
+  .action(async (commandParts: string[], options) => {
+    const ctx = await createContext();
+
+    let failure: FailedCommand | null;
+    if (commandParts.length) {
+      failure = {
+        command: commandParts.join(" ").trim(),
+        exitCode: options.exitCode ?? null,
+        stderr: options.stderr ?? "",
+        cwd: process.cwd(),
+        timestamp: new Date().toISOString(),
+      };
+    } else {
+      failure = await ctx.storage.getLastFailure();
+    }
+
+    if (!failure) {
+      console.log(chalk.yellow("No failed command to fix."));
+      return;
     }
 
-    await executeResolvedCommand(resolved, ctx.validator);
+    await fixFailure(failure, ctx);
+  });
+
+/* ---------------------------------------------------- */
+/* COMMAND: explain                                     */
+/* ---------------------------------------------------- */
+
+program
+  .command("explain")
+  .description("Explain an existing shell command without running it")
+  .argument("<command...>", "Command to explain (quote it to keep pipes and operators)")
+  .option("--offline", "Skip the AI and use local man pages")
+  .option("--run-help", "Run <program> --help when a program has no man page")
+  .option("--json", "Print JSON")
+  .action(async (commandParts: string[], options) => {
+    const command = commandParts.join(" ");
+    const ctx = await createContext();
+    const explainer = new CommandExplainer(
+      ctx.aiService,
+      ctx.validator,
+      ctx.osAdapter,
+      options.runHelp
+    );
+
+    const explanation = await explainer.explain(
+      command,
+      ctx.osAdapter.getOS(),
+      options.offline
+    );
+
+    if (options.json) {
+      printJson(explanation);
+      return;
+    }
+
+    console.log(chalk.blue("Command:"), chalk.cyan(explanation.command));
+    console.log(chalk.blue("Summary:"), explanation.summary);
+    console.log();
+
+    explanation.parts.forEach(part => {
+      console.log(`  ${chalk.cyan(part.text)}  ${chalk.yellow(`[${part.kind}]`)}`);
+      console.log(`      ${part.explanation}`);
+    });
+    console.log();
+
+    const { safety } = explanation;
+    printSafetyFindings(safety);
+    console.log(chalk.blue("Risk level:"), safety.riskLevel);
+
+    if (explanation.source === "local") {
+      console.log(chalk.yellow("(Explained from local documentation, AI unavailable)"));
+    }
+  });
+
+/* ---------------------------------------------------- */
+/* COMMAND: policy check                                */
+/* ---------------------------------------------------- */
+
+program
+  .command("policy")
+  .description("Inspect the safety policy")
+  .command("check")
+  .description("Show which safety rules match a command and why")
+  .argument("<command...>", "Command to check (quote it to keep pipes and operators)")
+  .option("--source <source>", "Treat the command as coming from rule, ai or vault", "ai")
+  .action(async (commandParts: string[], options) => {
+    const command = commandParts.join(" ");
+    const source = options.source as ResolvedCommand["source"];
+    if (!["rule", "ai", "vault"].includes(source)) {
+      console.log(chalk.red("--source must be one of rule, ai, vault"));
+      return;
+    }
+
+    const ctx = await createContext();
+
+    const safety = await ctx.validator.validate({
+      commands: [command],
+      explanation: "",
+      tags: [],
+      confidence: 1,
+      source,
+    });
+
+    const policy = ctx.validator.getPolicyManager();
+
+    console.log(chalk.blue("Policy layers:"));
+    policy.getLayers().forEach(layer => {
+      console.log(
+        `  ${layer.name}${layer.path ? ` (${layer.path})` : ""}: ${layer.rules.length} rules`
+      );
+    });
+    policy.getErrors().forEach(error => console.log(chalk.red(`  ✗ ${error}`)));
+    console.log();
+
+    const parsed = parseCommandLine(command, ctx.validator.getDialect());
+    const evaluations = policy.evaluate(
+      parsed.commands,
+      ctx.validator.createRuleContext(source)
+    );
+
+    evaluations.forEach(({ command: simple, matches, decision }) => {
+      console.log(chalk.cyan(simple.text || simple.program));
+      if (!matches.length) {
+        console.log("    no rules matched");
+      }
+      matches.forEach(match => {
+        const label = `${match.layer}/${match.rule.id}`;
+        const line = `    ${match.rule.action.padEnd(7)} ${label} - ${match.rule.reason}`;
+        if (match.ignored) {
+          console.log(chalk.gray(`${line} (ignored: ${match.ignored})`));
+        } else if (match === decision) {
+          console.log(chalk.bold(`${line} ← decides`));
+        } else {
+          console.log(line);
+        }
+      });
+    });
+    console.log();
+
+    printSafetyFindings(safety);
+    if (!safety.blocked && !safety.warning) {
+      console.log(chalk.green("✓ Allowed"));
+    }
+    console.log(chalk.blue("Risk level:"), safety.riskLevel);
   });
 
 /* ---------------------------------------------------- */
@@ -191,22 +858,309 @@ program
   });
 
 /* ---------------------------------------------------- */
-/* COMMAND: vault run                                   */
+/* COMMAND: not-found                                   */
 /* ---------------------------------------------------- */
 
+const NOT_FOUND_EXIT_CODE = 127; // The shell's own, for when nothing ran
+const NOT_FOUND_LIMIT = 3; // Suggestions per minute
+const NOT_FOUND_STATE = path.join(os.homedir(), ".ai-cli", "not-found.json");
+
+program
+  .command("not-found")
+  .description("Suggest a command for one the shell could not find (run by the shell hooks)")
+  .argument("<command...>", "The command line that was not found")
+  .option("--insert-file <file>", "Where to leave a command to edit, for the shell to pick up")
+  .action(async (commandParts: string[], options) => {
+    process.exitCode = NOT_FOUND_EXIT_CODE;
+    if (!(await new RateLimiter(NOT_FOUND_STATE, NOT_FOUND_LIMIT, 60 * 1000).tryAcquire())) return;
+
+    const input = commandParts.join(" ");
+    const ctx = await createContext();
+    const resolved = await ctx.resolver.resolve(input, ctx.osAdapter.getOS(), false, true);
+
+    // Nothing worth offering: no idea, the same command, or one that would be refused
+    if (!resolved || resolved.commands.join(" && ") === input) return;
+    if ((await ctx.validator.validate(resolved)).blocked) return;
+
+    const suggestion = resolved.commands.join(" && ");
+    console.log(chalk.blue("ai suggests:"), chalk.cyan(suggestion));
+    if (resolved.explanation) console.log(chalk.gray(`  ${resolved.explanation}`));
+
+    const inquirer = require("inquirer");
+    const { next } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "next",
+        message: "Use it?",
+        choices: [
+          { name: "Run it", value: "run" },
+          ...(options.insertFile ? [{ name: "Edit it first", value: "edit" }] : []),
+          { name: "No", value: "no" },
+        ],
+      },
+    ]);
+
+    if (next === "edit") {
+      await fs.outputFile(options.insertFile, suggestion);
+    } else if (next === "run") {
+      // Choosing "Run it" answers the yes/no question; high risk still needs typing
+      const report = await executeResolvedCommand(resolved, ctx, { input, maxRisk: "medium" });
+      process.exitCode = EXIT_CODES[report.status];
+    }
+  });
+
+/* ---------------------------------------------------- */
+/* COMMAND: vault                                       */
+/* ---------------------------------------------------- */
+
+program
+  .command("vault:list")
+  .description("List all stored commands, project vault first")
+  .option("-t, --tag <tag>", "Only commands with this tag")
+  .option("--scope <scope>", "Only project or personal commands")
+  .option("--json", "Print JSON instead of a table")
+  .action(async options => {
+    const storage = new StorageManager();
+    let entries = await storage.getCommands();
+
+    if (options.scope) {
+      entries = entries.filter(c => c.scope === options.scope);
+    }
+
+    if (options.tag) {
+      const tag = options.tag.toLowerCase();
+      entries = entries.filter(c => c.tags.some(t => t.toLowerCase() === tag));
+    }
+
+    printCommandEntries(entries, options.json);
+  });
+
+program
+  .command("vault:search")
+  .description("Search commands in vault")
+  .argument("<query...>", "Search query")
+  .option("-n, --limit <n>", "Maximum number of results", parseLimit, 10)
+  .option("--json", "Print JSON instead of a table")
+  .action(async (queryParts: string[], options) => {
+    const storage = new StorageManager();
+    const results = await storage.searchCommands(queryParts.join(" "), options.limit);
+    printCommandEntries(results, options.json);
+  });
+
+program
+  .command("vault:add")
+  .description("Add a command to vault ({name} placeholders become variables)")
+  .argument("<command...>", "Command or script to add (quote it to keep && and ;)")
+  .option("-n, --name <name>", "Custom name for the command")
+  .option("-d, --description <description>", "Description for the command")
+  .option("-t, --tags <tags>", "Comma-separated tags")
+  .option("-p, --project", "Add to the project vault (.ai-cli/vault.yaml) instead")
+  .action(async (commandParts: string[], options) => {
+    const storage = new StorageManager();
+    const commands = splitTopLevel(commandParts.join(" "), ["&&", ";"]).filter(Boolean);
+
+    if (!commands.length) {
+      console.log(chalk.red("Please provide a command or script to add."));
+      return;
+    }
+
+    if (options.project) {
+      const file = await storage.addProjectCommand(
+        commands,
+        options.description,
+        parseTags(options.tags),
+        options.name
+      );
+      console.log(chalk.green(`✓ Added to project vault ${file}`));
+    } else {
+      await storage.addCommand(
+        commands,
+        options.description,
+        parseTags(options.tags),
+        "user",
+        0.7,
+        undefined,
+        options.name
+      );
+      console.log(
+        chalk.green(commands.length > 1 ? "✓ Script added to vault" : "✓ Command added to vault")
+      );
+    }
+    const variables = Object.keys(detectVariables(commands) ?? {});
+    if (variables.length) {
+      console.log(chalk.blue("Variables:"), variables.map(v => `{${v}}`).join(", "));
+    }
+  });
+
+program
+  .command("vault:show")
+  .description("Show a stored command")
+  .argument("<idOrName>", "Command ID, ID prefix or custom name")
+  .option("--json", "Print JSON")
+  .action(async (idOrName: string, options) => {
+    const storage = new StorageManager();
+    const cmd = await storage.getCommand(idOrName);
+    if (!cmd) {
+      console.log(chalk.red("Command not found in vault."));
+      return;
+    }
+
+    if (options.json) {
+      printJson(cmd);
+      return;
+    }
+
+    console.log(chalk.blue("ID:"), cmd.id);
+    if (cmd.name) console.log(chalk.blue("Name:"), cmd.name);
+    console.log(chalk.blue("Description:"), cmd.description);
+    console.log(chalk.blue("Commands:"));
+    cmd.commands.forEach((c, i) => console.log(`  ${i + 1}. ${chalk.cyan(c)}`));
+    if (cmd.tags.length) console.log(chalk.blue("Tags:"), cmd.tags.join(", "));
+    Object.entries(cmd.variables ?? {}).forEach(([name, spec], i) => {
+      if (i === 0) console.log(chalk.blue("Variables:"));
+      const about = describeVariable(spec);
+      console.log(`  {${name}}${about ? ` - ${about}` : ""}`);
+    });
+    console.log(
+      chalk.blue("Scope:"),
+      cmd.scope === "project" ? `project (${await storage.findProjectVault()})` : "personal"
+    );
+    console.log(chalk.blue("Source:"), cmd.source);
+    if (cmd.author) console.log(chalk.blue("Author:"), cmd.author);
+    console.log(chalk.blue("Used:"), `${cmd.usageCount} times, last ${cmd.lastUsed.toLocaleString()}`);
+    console.log(chalk.blue("Created:"), cmd.createdAt.toLocaleString());
+  });
+
+program
+  .command("vault:edit")
+  .description("Edit a stored command in $EDITOR")
+  .argument("<idOrName>", "Command ID, ID prefix or custom name")
+  .action(async (idOrName: string) => {
+    const storage = new StorageManager();
+    const cmd = await storage.getCommand(idOrName);
+    if (!cmd) {
+      console.log(chalk.red("Command not found in vault."));
+      return;
+    }
+    if (cmd.scope === "project") {
+      const file = await storage.findProjectVault();
+      console.log(chalk.yellow(`Project commands are shared; change them in ${file}.`));
+      return;
+    }
+
+    const file = path.join(os.tmpdir(), `ai-vault-${cmd.id}.yaml`);
+    await fs.writeFile(
+      file,
+      stringifyYaml({
+        name: cmd.name ?? "",
+        description: cmd.description,
+        tags: cmd.tags,
+        commands: cmd.commands,
+        variables: compactVariables(cmd.variables ?? {}),
+      })
+    );
+
+    try {
+      if (!(await openInEditor(file))) {
+        console.log(chalk.yellow("Editor exited with an error; vault unchanged."));
+        return;
+      }
+
+      const changes = parseVaultYaml(await fs.readFile(file, "utf8"));
+      if (typeof changes === "string") {
+        console.log(chalk.red(`Invalid entry: ${changes}`));
+        return;
+      }
+
+      await storage.updateCommand(cmd.id, changes);
+      console.log(chalk.green("✓ Command updated"));
+    } finally {
+      await fs.remove(file);
+    }
+  });
+
+program
+  .command("vault:rm")
+  .description("Remove a stored command")
+  .argument("<idOrName>", "Command ID, ID prefix or custom name")
+  .option("-y, --yes", "Do not ask for confirmation")
+  .action(async (idOrName: string, options) => {
+    const storage = new StorageManager();
+    const cmd = await storage.getCommand(idOrName);
+    if (!cmd) {
+      console.log(chalk.red("Command not found in vault."));
+      return;
+    }
+    if (cmd.scope === "project") {
+      const file = await storage.findProjectVault();
+      console.log(chalk.yellow(`Project commands are shared; change them in ${file}.`));
+      return;
+    }
+
+    if (!options.yes) {
+      const inquirer = require("inquirer");
+      const { remove } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "remove",
+          message: `Remove ${cmd.name ?? cmd.commands.join(" && ")}?`,
+          default: false,
+        },
+      ]);
+      if (!remove) return;
+    }
+
+    await storage.deleteCommand(cmd.id);
+    console.log(chalk.green("✓ Command removed"));
+  });
+
+program
+  .command("vault:tag")
+  .description("Add tags to a stored command, or remove them with --remove")
+  .argument("<idOrName>", "Command ID, ID prefix or custom name")
+  .argument("<tags...>", "Tags")
+  .option("-r, --remove", "Remove the tags instead of adding them")
+  .action(async (idOrName: string, tags: string[], options) => {
+    const storage = new StorageManager();
+    const cmd = await storage.getCommand(idOrName);
+    if (!cmd) {
+      console.log(chalk.red("Command not found in vault."));
+      return;
+    }
+    if (cmd.scope === "project") {
+      const file = await storage.findProjectVault();
+      console.log(chalk.yellow(`Project commands are shared; change them in ${file}.`));
+      return;
+    }
+
+    const names = tags.flatMap(parseTags);
+    const updated = options.remove
+      ? cmd.tags.filter(t => !names.includes(t))
+      : [...cmd.tags, ...names.filter(t => !cmd.tags.includes(t))];
+
+    await storage.updateCommand(cmd.id, { tags: updated });
+    console.log(chalk.green("✓ Tags:"), updated.join(", ") || "(none)");
+  });
+
 program
   .command("vault:run")
   .argument("<idOrName>")
-  .action(async idOrName => {
+  .option("--dry-run", "Show what would be affected without running anything")
+  .option("--i-know-what-im-doing", "Allow overriding blocks listed as overridable in policy.yaml")
+  .option("--var <name=value>", "Set a variable instead of prompting for it (repeatable)", collectVar, {})
+  .option("--on-failure <policy>", "When a step fails: stop, continue or ask", parseFailurePolicy)
+  .option("--timeout <seconds>", "Stop steps that run longer", parseSeconds)
+  .option("-y, --yes", "Run steps up to --max-risk without asking, refuse the rest")
+  .option("--max-risk <level>", "Highest risk --yes runs: low, medium or high (default: medium)", parseRiskLevel)
+  .option("--json", "Print the result as JSON, never prompt")
+  .option("--print-only", "Print the command for eval instead of running it")
+  .action(async (idOrName, options) => {
     const ctx = await createContext();
-    const all = await ctx.storage.getAllCommands();
-
-    const cmd =
-      all.find(c => c.id === idOrName) ||
-      all.find(c => c.name === idOrName);
+    const cmd = await ctx.storage.getCommand(idOrName);
 
     if (!cmd) {
       console.log(chalk.red("Command not found in vault."));
+      finishRun({ status: "unresolved", input: idOrName, commands: [], steps: [] }, options);
       return;
     }
 
@@ -221,9 +1175,451 @@ program
       variables: cmd.variables,
     };
 
-    await executeResolvedCommand(resolved, ctx.validator);
+    const report = await executeResolvedCommand(resolved, ctx, executionOptions(cmd.name ?? idOrName, options));
+    finishRun(report, options);
+  });
+
+program
+  .command("vault:export")
+  .description("Export the vault as JSON, YAML, or bash/zsh/PowerShell functions")
+  .argument("[file]", "Output file (prints to stdout when omitted)")
+  .option("-f, --format <format>", `One of ${VAULT_FORMATS.join(", ")} (default: from the file extension, else json)`)
+  .option("-t, --tag <tag>", "Only commands with this tag")
+  .action(async (file: string | undefined, options) => {
+    const format: VaultFormat = options.format ?? (file && formatFromPath(file)) ?? "json";
+    if (!VAULT_FORMATS.includes(format)) {
+      console.log(chalk.red(`--format must be one of ${VAULT_FORMATS.join(", ")}`));
+      return;
+    }
+
+    let entries = await new StorageManager().getAllCommands();
+    if (options.tag) {
+      const tag = options.tag.toLowerCase();
+      entries = entries.filter(c => c.tags.some(t => t.toLowerCase() === tag));
+    }
+
+    const output = exportVault(entries, format);
+    if (!file) {
+      process.stdout.write(output);
+      return;
+    }
+
+    await fs.outputFile(file, output);
+    console.log(chalk.green(`✓ Exported ${entries.length} commands to ${file}`));
+  });
+
+program
+  .command("vault:import")
+  .description("Import commands from a JSON or YAML export, merging duplicates")
+  .argument("<file>", "File to import")
+  .option("-f, --format <format>", "json or yaml (default: from the file extension)")
+  .option("--json", "Print the result as JSON")
+  .action(async (file: string, options) => {
+    const format: VaultFormat = options.format ?? formatFromPath(file) ?? "json";
+    if (!IMPORT_FORMATS.includes(format)) {
+      console.log(chalk.red(`Cannot import ${format}; use ${IMPORT_FORMATS.join(" or ")}.`));
+      return;
+    }
+
+    if (!(await fs.pathExists(file))) {
+      console.log(chalk.red(`File not found: ${file}`));
+      return;
+    }
+
+    const { commands, errors } = parseVault(await fs.readFile(file, "utf8"), format);
+    errors.forEach(error => console.log(chalk.yellow(`Skipped ${error}`)));
+
+    const { added, merged } = await new StorageManager().importCommands(commands);
+    if (options.json) {
+      printJson({ added, merged, skipped: errors });
+      return;
+    }
+    console.log(chalk.green(`✓ Imported ${added} new, merged ${merged} existing commands`));
+  });
+
+program
+  .command("vault:sync")
+  .description("Share the personal vault through a git repository")
+  .argument("[remote]", "Git URL or path; needed the first time only")
+  .option("--json", "Print the result as JSON")
+  .action(async (remote: string | undefined, options) => {
+    const storage = new StorageManager();
+
+    let result: SyncResult;
+    try {
+      result = await storage.sync(remote);
+    } catch (error) {
+      console.log(chalk.red("Sync failed:"), error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    if (options.json) {
+      printJson(result);
+      return;
+    }
+
+    console.log(
+      chalk.green("✓ Vault synced:"),
+      `${result.pulled} changes from teammates, ${result.pushed ? "local changes pushed" : "nothing to push"}`
+    );
+
+    result.conflicts.forEach(conflict => {
+      const label = conflict.name ?? conflict.id.slice(0, 8);
+      console.log(chalk.yellow(`⚠️ Conflict in ${label} (${conflict.field}), kept yours:`));
+      console.log(`    yours:  ${JSON.stringify(conflict.local)}`);
+      console.log(`    theirs: ${JSON.stringify(conflict.remote)}`);
+    });
+  });
+
+function printCommandEntries(
+  entries: (CommandEntry & { score?: number })[],
+  json?: boolean
+): void {
+  if (json) {
+    printJson(entries);
+    return;
+  }
+
+  if (!entries.length) {
+    console.log(chalk.yellow("No commands found."));
+    return;
+  }
+
+  console.table(
+    entries.map(cmd => ({
+      id: cmd.id.slice(0, 8),
+      name: cmd.name || "",
+      commands: cmd.commands.join("; "),
+      description: cmd.description,
+      tags: cmd.tags.join(", "),
+      usageCount: cmd.usageCount,
+      source: cmd.source,
+      scope: cmd.scope ?? "personal",
+      ...(cmd.score !== undefined && { score: cmd.score.toFixed(2) }),
+    }))
+  );
+}
+
+function parseTags(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Collects repeated --var name=value options.
+ */
+function collectVar(value: string, vars: { [name: string]: string }): { [name: string]: string } {
+  const eq = value.indexOf("=");
+  if (eq < 1) throw new InvalidArgumentError("Expected name=value.");
+  return { ...vars, [value.slice(0, eq)]: value.slice(eq + 1) };
+}
+
+function parseFailurePolicy(value: string): FailurePolicy {
+  if (!FAILURE_POLICIES.includes(value as FailurePolicy)) {
+    throw new InvalidArgumentError(`Expected one of ${FAILURE_POLICIES.join(", ")}.`);
+  }
+  return value as FailurePolicy;
+}
+
+function parseSeconds(value: string): number {
+  const seconds = Number(value);
+  if (!(seconds > 0)) throw new InvalidArgumentError("Expected a number of seconds.");
+  return seconds;
+}
+
+function parseLimit(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || Number(value) < 1) {
+    throw new InvalidArgumentError("Expected a positive integer.");
+  }
+  return Number(value);
+}
+
+function parseExitCode(value: string): number {
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError("Expected an integer exit code.");
+  }
+  return Number(value);
+}
+
+function parseRiskLevel(value: string): RiskLevel {
+  if (!RISK_LEVELS.includes(value as RiskLevel)) {
+    throw new InvalidArgumentError(`Expected one of ${RISK_LEVELS.join(", ")}.`);
+  }
+  return value as RiskLevel;
+}
+
+interface ExecutionFlags {
+  dryRun?: boolean;
+  iKnowWhatImDoing?: boolean;
+  var?: { [name: string]: string };
+  onFailure?: FailurePolicy;
+  timeout?: number;
+  yes?: boolean;
+  maxRisk?: RiskLevel;
+  json?: boolean;
+  printOnly?: boolean;
+}
+
+/**
+ * The options of suggest, vault:run and history:rerun, as passed to
+ * executeResolvedCommand().
+ */
+function executionOptions(input: string, flags: ExecutionFlags): ExecutionOptions {
+  return {
+    input,
+    override: flags.iKnowWhatImDoing,
+    dryRun: flags.dryRun,
+    vars: flags.var,
+    onFailure: flags.onFailure,
+    timeout: flags.timeout,
+    interactive: !(flags.yes || flags.json || flags.printOnly),
+    maxRisk: flags.yes ? flags.maxRisk ?? "medium" : undefined,
+    printOnly: flags.printOnly,
+    echo: flags.json ? process.stderr : undefined,
+  };
+}
+
+/**
+ * Prints the report for --json and exits with the code of its outcome.
+ * --print-only has already printed all there is to print.
+ */
+function finishRun(report: ExecutionReport, flags: ExecutionFlags): void {
+  if (flags.json && !flags.printOnly) printJson(report);
+  process.exitCode = EXIT_CODES[report.status];
+}
+
+/**
+ * JSON always goes to stdout, even when console.log has been sent to
+ * stderr for --json.
+ */
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Opens a file in $VISUAL / $EDITOR and resolves to whether it exited cleanly.
+ */
+async function openInEditor(file: string): Promise<boolean> {
+  const editor =
+    process.env.VISUAL || process.env.EDITOR || (process.platform === "win32" ? "notepad" : "vi");
+
+  return new Promise(resolve => {
+    const child = spawn(`${editor} "${file}"`, { shell: true, stdio: "inherit" });
+    child.on("close", code => resolve(code === 0));
+    child.on("error", () => resolve(false));
+  });
+}
+
+/**
+ * Reads a vault entry edited as YAML, or returns an error message.
+ * Variables follow the {placeholders} left in the commands.
+ */
+function parseVaultYaml(text: string): CommandChanges | string {
+  let document: unknown;
+  try {
+    document = parseYaml(text);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  if (typeof document !== "object" || document === null || Array.isArray(document)) {
+    return "expected a mapping";
+  }
+  const doc = document as { [key: string]: unknown };
+
+  const isStringList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === "string");
+
+  if (!isStringList(doc.commands) || !doc.commands.some(c => c.trim())) {
+    return "commands must be a non-empty list of strings";
+  }
+  if (doc.tags != null && !isStringList(doc.tags)) return "tags must be a list of strings";
+  if (doc.name != null && typeof doc.name !== "string") return "name must be a string";
+  if (typeof doc.description !== "string") return "description must be a string";
+  const { variables: described, errors } = parseVariables(doc.variables);
+  if (errors.length) return errors[0];
+
+  const commands = doc.commands.map(c => c.trim()).filter(Boolean);
+  const variables = Object.fromEntries(
+    Object.keys(detectVariables(commands) ?? {}).map(name => [name, described[name] ?? {}])
+  );
+
+  return {
+    name: typeof doc.name === "string" ? doc.name || undefined : undefined,
+    description: doc.description,
+    tags: isStringList(doc.tags) ? doc.tags : [],
+    commands,
+    variables,
+  };
+}
+
+/* ---------------------------------------------------- */
+/* COMMAND: history                                     */
+/* ---------------------------------------------------- */
+
+const HISTORY_STATUSES: HistoryStatus[] = ["ok", "failed", "blocked", "declined", "dry-run"];
+
+program
+  .command("history")
+  .description("Show what was suggested, approved and run")
+  .argument("[text...]", "Only entries whose input or commands contain this text")
+  .option("--since <date>", "Only entries after a date (ISO date, or 30m, 12h, 7d ago)")
+  .option("--until <date>", "Only entries before a date (ISO date, or 30m, 12h, 7d ago)")
+  .option("--source <source>", "Only entries from rule, ai or vault")
+  .option("--status <status>", `Only entries with status ${HISTORY_STATUSES.join(", ")}`)
+  .option("-n, --limit <n>", "Number of entries to show", parseLimit, 20)
+  .option("--json", "Print JSON")
+  .action(async (textParts: string[], options) => {
+    const filter: HistoryFilter = { limit: options.limit };
+
+    for (const key of ["since", "until"] as const) {
+      if (options[key] === undefined) continue;
+      const date = parseHistoryDate(options[key]);
+      if (!date) {
+        console.log(chalk.red(`--${key} must be an ISO date or a duration like 7d`));
+        return;
+      }
+      filter[key] = date;
+    }
+
+    if (options.source !== undefined) {
+      if (!["rule", "ai", "vault"].includes(options.source)) {
+        console.log(chalk.red("--source must be one of rule, ai, vault"));
+        return;
+      }
+      filter.source = options.source;
+    }
+
+    if (options.status !== undefined) {
+      if (!HISTORY_STATUSES.includes(options.status)) {
+        console.log(chalk.red(`--status must be one of ${HISTORY_STATUSES.join(", ")}`));
+        return;
+      }
+      filter.status = options.status;
+    }
+
+    if (textParts.length) filter.text = textParts.join(" ");
+
+    const entries = await new HistoryLog().query(filter);
+    if (options.json) {
+      printJson(entries);
+      return;
+    }
+    if (!entries.length) {
+      console.log(chalk.yellow("No matching history entries."));
+      return;
+    }
+
+    entries.forEach(entry => {
+      const status = historyStatus(entry);
+      const color =
+        status === "ok"
+          ? chalk.green
+          : status === "failed" || status === "blocked"
+          ? chalk.red
+          : chalk.yellow;
+
+      console.log(
+        chalk.gray(entry.id.slice(0, 8)),
+        new Date(entry.timestamp).toLocaleString(),
+        color(status.padEnd(8)),
+        entry.source.padEnd(5),
+        entry.input
+      );
+      entry.steps.forEach(step => {
+        const stopped = step.status === "timed-out" || step.status === "cancelled" ? `${step.status}, ` : "";
+        const ran =
+          step.exitCode !== undefined
+            ? chalk.gray(` (${stopped}exit ${step.exitCode}, ${step.durationMs}ms)`)
+            : chalk.gray(` (${step.decision})`);
+        console.log(`    ${chalk.cyan(step.command)}${ran}`);
+      });
+    });
+    console.log(chalk.gray("Re-run with: ai history:rerun <id>, save with: ai history:save <id>"));
+  });
+
+program
+  .command("history:rerun")
+  .description("Run the commands of a history entry again")
+  .argument("<id>", "History entry id (or a unique prefix)")
+  .option("--dry-run", "Show what would be affected without running anything")
+  .option("--i-know-what-im-doing", "Allow overriding blocks listed as overridable in policy.yaml")
+  .option("--var <name=value>", "Set a variable instead of prompting for it (repeatable)", collectVar, {})
+  .option("--on-failure <policy>", "When a step fails: stop, continue or ask", parseFailurePolicy)
+  .option("--timeout <seconds>", "Stop steps that run longer", parseSeconds)
+  .option("-y, --yes", "Run steps up to --max-risk without asking, refuse the rest")
+  .option("--max-risk <level>", "Highest risk --yes runs: low, medium or high (default: medium)", parseRiskLevel)
+  .option("--json", "Print the result as JSON, never prompt")
+  .option("--print-only", "Print the command for eval instead of running it")
+  .action(async (id: string, options) => {
+    const ctx = await createContext();
+    const entry = await ctx.history.find(id);
+
+    if (!entry) {
+      console.log(chalk.red("No single history entry matches that id."));
+      finishRun({ status: "unresolved", input: id, commands: [], steps: [] }, options);
+      return;
+    }
+
+    // Secrets were recorded as {placeholders} and are asked for again
+    const resolved: ResolvedCommand = {
+      commands: entry.commands,
+      explanation: entry.explanation,
+      tags: [],
+      confidence: 1,
+      source: entry.source,
+      variables: detectVariables(entry.commands),
+    };
+
+    // Safety is checked again: policies may have changed since the entry was recorded
+    finishRun(await executeResolvedCommand(resolved, ctx, executionOptions(entry.input, options)), options);
+  });
+
+program
+  .command("history:save")
+  .description("Save the commands of a history entry to the vault")
+  .argument("<id>", "History entry id (or a unique prefix)")
+  .option("--name <name>", "Custom name for the command")
+  .option("--description <description>", "Description for the command")
+  .action(async (id: string, options) => {
+    const ctx = await createContext();
+    const entry = await ctx.history.find(id);
+
+    if (!entry) {
+      console.log(chalk.red("No single history entry matches that id."));
+      return;
+    }
+
+    await ctx.storage.addCommand(
+      entry.commands,
+      options.description ?? (entry.explanation || entry.input),
+      [],
+      entry.source === "vault" ? "user" : entry.source,
+      undefined,
+      undefined,
+      options.name
+    );
+    console.log(chalk.green("✓ Saved to vault"));
   });
 
+/**
+ * An ISO date, or a duration before now such as 30m, 12h or 7d.
+ */
+function parseHistoryDate(value: string): Date | null {
+  const duration = /^(\d+)([mhd])$/.exec(value);
+  if (duration) {
+    const unit = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[
+      duration[2] as "m" | "h" | "d"
+    ];
+    return new Date(Date.now() - Number(duration[1]) * unit);
+  }
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
 /* ---------------------------------------------------- */
 /* DEBUG                                                */
 /* ---------------------------------------------------- */
@@ -245,6 +1641,6 @@ async function main() {
 }
 
 main().catch(err => {
-  console.error(chalk.red("Fatal error:"), err);
+  console.error(chalk.red("Fatal error:"), err instanceof SchemaVersionError ? err.message : err);
   process.exit(1);
 });
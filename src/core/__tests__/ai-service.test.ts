@@ -3,12 +3,13 @@ import * as os from 'os';
 
 jest.mock('fs-extra', () => ({
   pathExists: jest.fn(),
+  pathExistsSync: jest.fn(),
   readJson: jest.fn(),
 }));
-jest.mock('os');
-jest.mock('../cache/cache-manager');
+jest.mock('os', () => ({ homedir: jest.fn(() => 'home') }));
+jest.mock('../../cache/cache-manager', () => ({ CacheManager: jest.fn() }));
 
-import { pathExists, readJson } from 'fs-extra';
+import { pathExists, pathExistsSync, readJson } from 'fs-extra';
 // import { CacheManager } from '../cache/cache-manager';
 import { CacheManager } from '../../cache/cache-manager';
 const mockedOs = os as jest.Mocked<typeof os>;
@@ -16,11 +17,22 @@ const mockedCacheManager = CacheManager as jest.MockedClass<typeof CacheManager>
 const mockedPathExists = pathExists as jest.MockedFunction<any>;
 const mockedReadJson = readJson as jest.MockedFunction<any>;
 
+const jsonResponse = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  commands: [{ command: 'ls', explanation: 'List files' }],
+  explanation: 'Lists the current directory',
+  risk: { level: 'low', reason: 'read-only' },
+  confidence: 0.9,
+  tags: ['filesystem'],
+  ...overrides,
+});
+
 describe('AIService', () => {
   let aiService: AIService;
   let mockCache: any;
 
   beforeEach(() => {
+    ['GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'OLLAMA_HOST', 'AI_CLI_BASE_URL', 'AI_CLI_PROVIDER']
+      .forEach(name => delete process.env[name]);
     mockedOs.homedir.mockReturnValue('home');
     (global as any).fetch = jest.fn();
     mockCache = {
@@ -41,8 +53,7 @@ describe('AIService', () => {
   });
 
   it('should return null if no provider available', async () => {
-    mockedPathExists
-    (pathExists as jest.MockedFunction<typeof pathExists>).mockResolvedValue(false);
+    mockedPathExists.mockResolvedValue(false);
 
     const result = await aiService.generateCommand('input', { platform: 'linux', arch: 'x64', shell: 'bash' });
 
@@ -50,11 +61,18 @@ describe('AIService', () => {
   });
 
   it('should use cached response if available', async () => {
+    process.env.GEMINI_API_KEY = 'key';
     mockCache.get.mockResolvedValue('cached');
 
     const result = await aiService.generateCommand('input', { platform: 'linux', arch: 'x64', shell: 'bash' });
 
-    expect(mockCache.get).toHaveBeenCalled();
+    expect(mockCache.get).toHaveBeenCalledWith(
+      'input',
+      expect.any(Object),
+      false,
+      'gemini:gemini-2.5-flash',
+      expect.any(String)
+    );
     expect(result).toBeDefined();
   });
 
@@ -65,7 +83,7 @@ describe('AIService', () => {
     (global as any).fetch = jest.fn().mockResolvedValue({
       ok: true,
       json: jest.fn().mockResolvedValue({
-        candidates: [{ content: { parts: [{ text: 'ls' }] } }],
+        candidates: [{ content: { parts: [{ text: jsonResponse() }] } }],
       }),
     });
 
@@ -75,6 +93,30 @@ describe('AIService', () => {
     expect(mockCache.set).toHaveBeenCalled();
   });
 
+  it('should fall back to the next provider when one fails', async () => {
+    process.env.GEMINI_API_KEY = 'key';
+    process.env.OPENAI_API_KEY = 'openai-key';
+    mockCache.get.mockResolvedValue(null);
+    (global as any).fetch = jest.fn()
+      .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          choices: [{ message: { content: jsonResponse() } }],
+        }),
+      });
+
+    const result = await aiService.generateCommand('input', { platform: 'linux', arch: 'x64', shell: 'bash' });
+
+    expect((global as any).fetch).toHaveBeenCalledTimes(2);
+    expect((global as any).fetch.mock.calls[1][0]).toBe('https://api.openai.com/v1/chat/completions');
+    expect(result?.commands).toEqual(['ls']);
+    expect(mockCache.set).toHaveBeenCalledWith(
+      'input', expect.any(Object), false, jsonResponse(), 'openai:gpt-4o-mini', expect.any(String)
+    );
+    delete process.env.OPENAI_API_KEY;
+  });
+
   it('should handle AI call failure', async () => {
     process.env.GEMINI_API_KEY = 'key';
     mockCache.get.mockResolvedValue(null);
@@ -86,52 +128,138 @@ describe('AIService', () => {
   });
 
   it('should parse AI response correctly', () => {
-    const response = 'ls';
-    const result = (aiService as any).parseAIResponse(response, false);
+    const result = (aiService as any).parseAIResponse(jsonResponse(), false);
 
     expect(result).toEqual({
       commands: ['ls'],
-      explanation: 'Command suggested by AI',
-      tags: ['ai'],
-      confidence: 0.7,
+      explanation: 'Lists the current directory',
+      tags: ['filesystem'],
+      confidence: 0.9,
       source: 'ai',
+      variables: undefined,
+      steps: [{ explanation: 'List files' }],
+      riskAssessment: { level: 'low', reason: 'read-only' },
     });
   });
 
-  it('should return null for invalid response', () => {
-    const response = '';
+  it('should accept JSON wrapped in code fences', () => {
+    const response = '```json\n' + jsonResponse() + '\n```';
     const result = (aiService as any).parseAIResponse(response, false);
 
-    expect(result).toBeNull();
+    expect(result?.commands).toEqual(['ls']);
+  });
+
+  it('should return null for invalid response', () => {
+    expect((aiService as any).parseAIResponse('', false)).toBeNull();
+    expect((aiService as any).parseAIResponse('ls -la', false)).toBeNull();
+    expect((aiService as any).parseAIResponse(jsonResponse({ confidence: 7 }), false)).toBeNull();
   });
 
   it('should detect multiple commands', () => {
-    const response = 'ls && pwd';
+    const response = jsonResponse({
+      commands: [
+        { command: 'ls', explanation: 'List' },
+        { command: 'pwd', explanation: 'Print directory' },
+      ],
+    });
     const result = (aiService as any).parseAIResponse(response, true);
 
     expect(result?.commands).toEqual(['ls', 'pwd']);
+    expect(result?.steps).toEqual([{ explanation: 'List' }, { explanation: 'Print directory' }]);
+  });
+
+  it('should split a chained command into steps when several were requested', () => {
+    const response = jsonResponse({ commands: [{ command: 'ls && pwd', explanation: 'both' }] });
+    const result = (aiService as any).parseAIResponse(response, true);
+
+    expect(result?.commands).toEqual(['ls', 'pwd']);
+  });
+
+  it('should turn captured output into step references', () => {
+    const response = jsonResponse({
+      commands: [
+        { command: 'ls -t *.log | head -1', explanation: 'Newest log', capture: 'LOGFILE' },
+        { command: 'tail -n {lines} {LOGFILE}', explanation: 'Show its end' },
+      ],
+      variables: { lines: { type: 'int', default: '20' } },
+    });
+    const result = (aiService as any).parseAIResponse(response, true);
+
+    expect(result?.commands).toEqual(['ls -t *.log | head -1', 'tail -n {lines} {step1.stdout}']);
+    expect(result?.variables).toEqual({ lines: { type: 'int', default: '20' } });
   });
 
   it('should extract variables', () => {
-    const response = 'mkdir {name}';
+    const response = jsonResponse({
+      commands: [{ command: 'mkdir {name}', explanation: 'Create it' }],
+      variables: { name: { description: 'Directory name' } },
+    });
     const result = (aiService as any).parseAIResponse(response, false);
 
-    expect(result?.variables).toEqual({ name: '' });
+    expect(result?.variables).toEqual({ name: { description: 'Directory name' } });
   });
 
   it('should handle learning mode', () => {
-    const response = 'ls_JSON_{"concepts":[]}';
+    const response = jsonResponse({ learning: { concepts: [] } });
     const result = (aiService as any).parseAIResponse(response, false, true);
 
     expect(result?.learning).toEqual({ concepts: [] });
   });
 
+  it('should ask the model to repair malformed JSON once', async () => {
+    process.env.GEMINI_API_KEY = 'key';
+    mockCache.get.mockResolvedValue(null);
+    const reply = (text: string) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ candidates: [{ content: { parts: [{ text }] } }] }),
+    });
+    (global as any).fetch = jest.fn()
+      .mockResolvedValueOnce(reply('ls -la'))
+      .mockResolvedValueOnce(reply(jsonResponse()));
+
+    const result = await aiService.generateCommand('input', { platform: 'linux', arch: 'x64', shell: 'bash' });
+
+    expect((global as any).fetch).toHaveBeenCalledTimes(2);
+    const repairBody = JSON.parse((global as any).fetch.mock.calls[1][1].body);
+    expect(repairBody.contents[0].parts[0].text).toContain('did not contain a JSON object');
+    expect(result?.commands).toEqual(['ls']);
+    expect(mockCache.set).toHaveBeenCalledWith(
+      'input', expect.any(Object), false, jsonResponse(), expect.any(String), expect.any(String)
+    );
+  });
+
+  it('should suggest a fix for a failed command', async () => {
+    process.env.GEMINI_API_KEY = 'key';
+    (global as any).fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: jsonResponse({
+          commands: [{ command: 'git push', explanation: 'Correct spelling' }],
+          explanation: "'psuh' is a typo for 'push'",
+        }) }] } }],
+      }),
+    });
+
+    const result = await aiService.generateFix(
+      { command: 'git psuh', exitCode: 1, stderr: "git: 'psuh' is not a git command.", cwd: '/repo', timestamp: '' },
+      { platform: 'linux', arch: 'x64', shell: 'bash' }
+    );
+
+    const prompt = JSON.parse((global as any).fetch.mock.calls[0][1].body).contents[0].parts[0].text;
+    expect(prompt).toContain('git psuh');
+    expect(prompt).toContain('Exit code: 1');
+    expect(prompt).toContain("'psuh' is not a git command");
+    expect(result?.commands).toEqual(['git push']);
+    expect(result?.tags).toContain('fix');
+    expect(mockCache.set).not.toHaveBeenCalled();
+  });
+
   it('should check if configured', () => {
     process.env.GEMINI_API_KEY = 'key';
     expect(aiService.isConfigured()).toBe(true);
 
     delete process.env.GEMINI_API_KEY;
-    mockedPathExists.mockReturnValue(true);
+    (pathExistsSync as jest.Mock).mockReturnValue(true);
     expect(aiService.isConfigured()).toBe(true);
   });
 });
\ No newline at end of file
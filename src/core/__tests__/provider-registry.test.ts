@@ -0,0 +1,67 @@
+import { ProviderRegistry } from '../provider-registry';
+
+describe('ProviderRegistry', () => {
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    registry = new ProviderRegistry();
+  });
+
+  it('should return an empty chain when nothing is configured', () => {
+    expect(registry.resolveChain({}, {})).toEqual([]);
+  });
+
+  it('should detect providers from env vars in fallback order', () => {
+    const chain = registry.resolveChain({}, {
+      ANTHROPIC_API_KEY: 'a',
+      GEMINI_API_KEY: 'g',
+      OPENAI_API_KEY: 'o',
+    });
+
+    expect(chain.map(c => c.config.name)).toEqual(['gemini', 'openai', 'anthropic']);
+  });
+
+  it('should put config providers before env providers', () => {
+    const chain = registry.resolveChain(
+      { providers: [{ name: 'anthropic', apiKey: 'a', model: 'custom-model' }] },
+      { GEMINI_API_KEY: 'g' }
+    );
+
+    expect(chain.map(c => c.config.name)).toEqual(['anthropic', 'gemini']);
+    expect(chain[0].model).toBe('custom-model');
+  });
+
+  it('should honour AI_CLI_PROVIDER ordering and AI_CLI_MODEL', () => {
+    const chain = registry.resolveChain({}, {
+      GEMINI_API_KEY: 'g',
+      OPENAI_API_KEY: 'o',
+      AI_CLI_PROVIDER: 'openai',
+      AI_CLI_MODEL: 'gpt-test',
+    });
+
+    expect(chain.map(c => c.config.name)).toEqual(['openai']);
+    expect(chain[0].model).toBe('gpt-test');
+  });
+
+  it('should configure ollama from OLLAMA_HOST without an api key', () => {
+    const chain = registry.resolveChain({}, { OLLAMA_HOST: '127.0.0.1:11434' });
+
+    expect(chain).toHaveLength(1);
+    expect(chain[0].config.baseUrl).toBe('http://127.0.0.1:11434/v1');
+  });
+
+  it('should skip providers that are missing an api key', () => {
+    const chain = registry.resolveChain({ ai: { name: 'openai' } }, {});
+
+    expect(chain).toEqual([]);
+  });
+
+  it('should allow registering custom providers', () => {
+    const complete = jest.fn().mockResolvedValue('ls');
+    registry.register('custom', config => ({ config, model: 'm', complete }));
+
+    const chain = registry.resolveChain({ providers: [{ name: 'custom', apiKey: 'k' }] }, {});
+
+    expect(chain[0].model).toBe('m');
+  });
+});
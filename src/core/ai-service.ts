@@ -1,18 +1,35 @@
-import { ResolvedCommand, OS, AIProvider } from "../types";
+import { ResolvedCommand, OS, AIProviderClient, FailedCommand, Variables } from "../types";
 import * as fs from "fs-extra";
 import * as path from "path";
 import * as os from "os";
 import { CacheManager } from "../cache/cache-manager";
-
-const PROMPT_VERSION = "v1";
+import { loadConfig } from "./config";
+import { ProviderRegistry } from "./provider-registry";
+import {
+  AIExplanationPayload,
+  AIResponsePayload,
+  EXPLANATION_SCHEMA_EXAMPLE,
+  RESPONSE_SCHEMA_EXAMPLE,
+  extractJson,
+  validateAIResponse,
+  validateExplanationResponse,
+} from "./response-schema";
+import { splitTopLevel } from "../parser/command-parser";
+import { inlineCaptures } from "../execution/step-outputs";
+
+const PROMPT_VERSION = "v4";
+const MAX_REPAIR_ATTEMPTS = 1;
+const STDERR_TAIL_LINES = 40;
 
 export class AIService {
   private configPath: string;
   private cache: CacheManager;
+  private registry: ProviderRegistry;
 
-  constructor() {
+  constructor(registry: ProviderRegistry = new ProviderRegistry()) {
     this.configPath = path.join(os.homedir(), ".ai-cli", "config.json");
     this.cache = new CacheManager();
+    this.registry = registry;
   }
 
   async generateCommand(
@@ -24,24 +41,29 @@ export class AIService {
       const wantsMultiple =
         /\bthen\b|\band\b|\bafter that\b|\bfollowed by\b/i.test(input);
 
+      const chain = await this.getProviderChain();
+      if (!chain.length) return null;
+
       const cachedResponse = await this.cache.get(
         input,
         osInfo,
-        learningMode
+        learningMode,
+        this.describeProvider(chain[0]),
+        PROMPT_VERSION
       );
 
       if (cachedResponse) {
-        console.log("[CACHE HIT]");
-        return this.parseAIResponse(
+        const cached = this.parseAIResponse(
           cachedResponse,
           wantsMultiple,
           learningMode
         );
+        if (cached) {
+          console.log("[CACHE HIT]");
+          return cached;
+        }
       }
 
-      const provider = await this.getAvailableProvider();
-      if (!provider) return null;
-
       const prompt = this.buildPrompt(
         input,
         osInfo,
@@ -49,43 +71,129 @@ export class AIService {
         learningMode
       );
 
-      const response = await this.callAI(provider, prompt);
-      if (!response) return null;
+      const result = await this.requestStructured(
+        chain,
+        prompt,
+        wantsMultiple,
+        learningMode
+      );
+      if (!result) return null;
 
-      await this.cache.set(input, osInfo, learningMode, response);
+      await this.cache.set(
+        input,
+        osInfo,
+        learningMode,
+        result.raw,
+        this.describeProvider(result.client),
+        PROMPT_VERSION
+      );
 
-      return this.parseAIResponse(response, wantsMultiple, learningMode);
+      return result.resolved;
     } catch (error: any) {
       console.error("AI service error:", error.message);
       return null;
     }
   }
 
-  /* ------------------------------------------------------------------ */
-  /* Provider selection                                                   */
-  /* ------------------------------------------------------------------ */
-
-  private async getAvailableProvider(): Promise<AIProvider | null> {
-    const geminiKey = process.env.GEMINI_API_KEY;
+  /**
+   * Diagnoses a failed command and proposes a corrected one. Results are
+   * not cached: the same command can fail for different reasons.
+   */
+  async generateFix(
+    failure: FailedCommand,
+    osInfo: OS
+  ): Promise<ResolvedCommand | null> {
+    try {
+      const chain = await this.getProviderChain();
+      if (!chain.length) return null;
+
+      const result = await this.requestStructured(
+        chain,
+        this.buildFixPrompt(failure, osInfo),
+        false,
+        false
+      );
+      if (!result) return null;
 
-    if (geminiKey) {
       return {
-        name: "gemini",
-        apiKey: geminiKey,
-        endpoint:
-          "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent",
-        maxTokens: 256,
+        ...result.resolved,
+        tags: Array.from(new Set([...result.resolved.tags, "fix"])),
       };
+    } catch (error: any) {
+      console.error("AI service error:", error.message);
+      return null;
     }
+  }
 
-    if (await fs.pathExists(this.configPath)) {
-      const config = await fs.readJson(this.configPath);
-      if (config.ai?.apiKey && config.ai?.name === "gemini") {
-        return config.ai;
+  /**
+   * Explains an existing command piece by piece. Never executes anything.
+   */
+  async explainCommand(
+    command: string,
+    osInfo: OS
+  ): Promise<AIExplanationPayload | null> {
+    try {
+      const chain = await this.getProviderChain();
+      if (!chain.length) return null;
+
+      const interpret = (raw: string) => {
+        const json = extractJson(raw);
+        if (json === undefined) {
+          return { value: null, errors: ["response did not contain a JSON object"] };
+        }
+        const { payload, errors } = validateExplanationResponse(json);
+        return { value: payload, errors };
+      };
+
+      const cacheKey = `explain:${command}`;
+      const cached = await this.cache.get(
+        cacheKey,
+        osInfo,
+        false,
+        this.describeProvider(chain[0]),
+        PROMPT_VERSION
+      );
+      if (cached) {
+        const { value } = interpret(cached);
+        if (value) return value;
       }
+
+      const result = await this.requestValidated(
+        chain,
+        this.buildExplainPrompt(command, osInfo),
+        interpret
+      );
+      if (!result) return null;
+
+      await this.cache.set(
+        cacheKey,
+        osInfo,
+        false,
+        result.raw,
+        this.describeProvider(result.client),
+        PROMPT_VERSION
+      );
+      return result.value;
+    } catch (error: any) {
+      console.error("AI service error:", error.message);
+      return null;
     }
+  }
 
-    return null;
+  /* ------------------------------------------------------------------ */
+  /* Provider selection                                                   */
+  /* ------------------------------------------------------------------ */
+
+  private async getProviderChain(): Promise<AIProviderClient[]> {
+    return this.registry.resolveChain(await loadConfig(this.configPath));
+  }
+
+  /**
+   * Cache entries are keyed on the provider that answered, so a fallback's
+   * answer is not served later as if the first provider had given it.
+   */
+  private describeProvider(client: AIProviderClient): string {
+    return `${client.config.name}:${client.model}`;
   }
 
   /* ------------------------------------------------------------------ */
@@ -98,27 +206,17 @@ export class AIService {
     wantsMultiple: boolean,
     learningMode: boolean = false
   ): string {
-    const osContext =
-      osInfo.platform === "windows"
-        ? "Windows PowerShell"
-        : osInfo.platform === "linux"
-        ? "Linux Bash"
-        : "macOS Zsh";
+    const osContext = this.describeEnvironment(osInfo);
 
-    const chainingRule = wantsMultiple
-      ? "- You MUST combine ALL steps into ONE command using && or ;"
-      : "- Return the single most appropriate command";
+    const stepsRule = wantsMultiple
+      ? "- The request has several steps: put EACH step in its own entry of \"commands\", in execution order"
+      : "- Return the single most appropriate command as the only entry of \"commands\", unless a step needs what an earlier one prints";
 
     const learningInstructions = learningMode
       ? `
 LEARNING MODE ENABLED.
-
-After the command, output:
-_JSON_
-<VALID JSON>
-
-JSON schema:
-{
+Also include a "learning" key in the JSON object:
+"learning": {
   "concepts": [],
   "debuggingSteps": [],
   "relatedCommands": [],
@@ -137,18 +235,98 @@ User request:
 Target environment:
 ${osContext}
 
+Respond with ONE JSON object and nothing else, following this schema:
+${RESPONSE_SCHEMA_EXAMPLE}
+
 STRICT RULES:
-- Output ONLY a valid shell command
-- NO explanations
-- NO markdown
-- NO quotes
-- NO sentences
+- Output ONLY the JSON object: NO markdown, NO code fences, NO prose
+- Every "command" must be a single line, runnable as-is in the target environment
 - NO placeholders like command1
-- Use {variableName} for user inputs
-${chainingRule}
+- Use {variableName} for user inputs and describe each one in "variables"
+- Give each variable the narrowest "type": "enum" with "choices" when only a few values make sense, "secret" for passwords and tokens, "file" for a file that must exist
+- "risk" is your honest assessment of what could go wrong if the command runs
+- When a step needs what an earlier step prints (a file name, an id, ...), give the earlier step a "capture" NAME and use {NAME} in later steps instead of chaining them into one line with $(...), pipes or &&; the captured text is inserted as one quoted argument, without the trailing newline
+${stepsRule}
 ${learningInstructions}
 
-If unsure, return the safest possible command.
+If unsure, return the safest possible command and a low confidence.
+`.trim();
+  }
+
+  private buildFixPrompt(failure: FailedCommand, osInfo: OS): string {
+    const stderr = failure.stderr.trim()
+      ? failure.stderr.trim().split("\n").slice(-STDERR_TAIL_LINES).join("\n")
+      : "(not captured)";
+
+    return `
+You are a shell troubleshooting assistant.
+
+This command failed:
+${failure.command}
+
+Exit code: ${failure.exitCode ?? "unknown"}
+Working directory: ${failure.cwd}
+Target environment: ${this.describeEnvironment(osInfo)}
+
+stderr (last lines):
+${stderr}
+
+Respond with ONE JSON object and nothing else, following this schema:
+${RESPONSE_SCHEMA_EXAMPLE}
+
+STRICT RULES:
+- Output ONLY the JSON object: NO markdown, NO code fences, NO prose
+- "explanation" is your diagnosis: why the command failed
+- "commands" contains the corrected command (or the steps needed to fix the cause, then the corrected command)
+- Every "command" must be a single line, runnable as-is in the target environment
+- Use {variableName} for values you cannot know and describe each one in "variables"
+- Never suggest disabling safety checks, deleting data or using sudo unless the error clearly requires it
+`.trim();
+  }
+
+  private buildExplainPrompt(command: string, osInfo: OS): string {
+    return `
+You explain shell commands to engineers who are about to run them.
+
+Command:
+${command}
+
+Target environment: ${this.describeEnvironment(osInfo)}
+
+Respond with ONE JSON object and nothing else, following this schema:
+${EXPLANATION_SCHEMA_EXAMPLE}
+
+STRICT RULES:
+- Output ONLY the JSON object: NO markdown, NO code fences, NO prose
+- "parts" lists every program, flag, argument, pipe/operator and redirection in order
+- Combined short flags like -rf are listed once and the explanation covers each letter
+- Point out anything destructive or surprising in the explanation of that part
+`.trim();
+  }
+
+  private describeEnvironment(osInfo: OS): string {
+    return osInfo.platform === "windows"
+      ? "Windows PowerShell"
+      : osInfo.platform === "linux"
+      ? "Linux Bash"
+      : "macOS Zsh";
+  }
+
+  private buildRepairPrompt(
+    originalPrompt: string,
+    badResponse: string,
+    errors: string[]
+  ): string {
+    return `
+${originalPrompt}
+
+Your previous answer was rejected:
+${badResponse.slice(0, 2000)}
+
+Problems:
+${errors.map(e => `- ${e}`).join("\n")}
+
+Reply again with ONLY a corrected JSON object that follows the schema.
 `.trim();
   }
 
@@ -157,55 +335,67 @@ If unsure, return the safest possible command.
   /* ------------------------------------------------------------------ */
 
   private async callAI(
-    provider: AIProvider,
+    chain: AIProviderClient[],
     prompt: string
-  ): Promise<string | null> {
-    if (provider.name !== "gemini") return null;
+  ): Promise<{ text: string; client: AIProviderClient } | null> {
+    for (const client of chain) {
+      try {
+        const text = await client.complete(prompt);
+        if (text) return { text, client };
+        console.warn(`${client.config.name} returned an empty response`);
+      } catch (error: any) {
+        console.error(`${client.config.name} API call failed:`, error.message);
+      }
+    }
 
-    try {
-      const response = await fetch(
-        `${provider.endpoint}?key=${provider.apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [{ text: prompt }],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.2,
-              maxOutputTokens: provider.maxTokens ?? 256,
-            },
-          }),
-        }
+    return null;
+  }
+
+  /**
+   * Calls the provider chain and validates the answer against the JSON
+   * contract, asking the model to repair malformed output before giving up.
+   */
+  private async requestStructured(
+    chain: AIProviderClient[],
+    prompt: string,
+    wantsMultiple: boolean,
+    learningMode: boolean
+  ): Promise<{ raw: string; resolved: ResolvedCommand; client: AIProviderClient } | null> {
+    const result = await this.requestValidated(chain, prompt, raw => {
+      const { resolved, errors } = this.interpretResponse(
+        raw,
+        wantsMultiple,
+        learningMode
       );
+      return { value: resolved, errors };
+    });
 
-      if (!response.ok) {
-        throw new Error(
-          `Gemini API error: ${response.status} ${response.statusText}`
-        );
-      }
+    return result && { raw: result.raw, resolved: result.value, client: result.client };
+  }
 
-      const data = (await response.json()) as {
-        candidates?: Array<{
-          content?: { parts?: Array<{ text?: string }> };
-        }>;
-      };
+  private async requestValidated<T>(
+    chain: AIProviderClient[],
+    prompt: string,
+    interpret: (raw: string) => { value: T | null; errors: string[] }
+  ): Promise<{ raw: string; value: T; client: AIProviderClient } | null> {
+    let response = await this.callAI(chain, prompt);
 
-      const text =
-        data.candidates?.[0]?.content?.parts
-          ?.map(p => p.text ?? "")
-          .join("")
-          .trim() ?? null;
+    for (let attempt = 0; response; attempt++) {
+      const { value, errors } = interpret(response.text);
+      if (value) return { raw: response.text, value, client: response.client };
 
-      return text;
-    } catch (error: any) {
-      console.error("Gemini API call failed:", error.message);
-      return null;
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        console.error("AI response rejected:", errors.join("; "));
+        break;
+      }
+
+      response = await this.callAI(
+        chain,
+        this.buildRepairPrompt(prompt, response.text, errors)
+      );
     }
+
+    return null;
   }
 
   /* ------------------------------------------------------------------ */
@@ -217,72 +407,88 @@ If unsure, return the safest possible command.
     wantsMultiple: boolean,
     learningMode: boolean = false
   ): ResolvedCommand | null {
-    const raw = response.trim();
-
-    let commandPart = raw;
-    let learningPart: string | null = null;
+    return this.interpretResponse(response, wantsMultiple, learningMode)
+      .resolved;
+  }
 
-    if (learningMode && raw.includes("_JSON_")) {
-      const parts = raw.split("_JSON_");
-      commandPart = parts[0].trim();
-      learningPart = parts[1]?.trim() ?? null;
+  private interpretResponse(
+    response: string,
+    wantsMultiple: boolean,
+    learningMode: boolean
+  ): { resolved: ResolvedCommand | null; errors: string[] } {
+    const json = extractJson(response);
+    if (json === undefined) {
+      return {
+        resolved: null,
+        errors: ["response did not contain a JSON object"],
+      };
     }
 
-    const cleaned = commandPart
-      .replace(/```[\s\S]*?```/g, "")
-      .replace(/`/g, "")
-      .split("\n")[0]
-      .trim();
-
-    if (!cleaned || cleaned.length > 180 || cleaned.endsWith("?")) {
-      return null;
+    const { payload, errors } = validateAIResponse(json);
+    if (!payload) {
+      return { resolved: null, errors };
     }
 
-    const hasSeparators = /\s(&&|;)\s/.test(cleaned);
+    // Models sometimes still chain everything into one line
+    const steps =
+      wantsMultiple && payload.commands.length === 1
+        ? this.splitChainedCommand(payload.commands[0])
+        : payload.commands;
 
-    if (wantsMultiple && !hasSeparators) {
-      return null;
-    }
-
-    const commands = hasSeparators
-      ? cleaned.split(/\s*(?:&&|;)\s*/)
-      : [cleaned];
+    // Later steps use captured output as {stepN.stdout}, also once saved
+    const commands = inlineCaptures(
+      steps.map(step => step.command),
+      steps.map(step => step.capture)
+    );
 
-    const variables: { [key: string]: string } = {};
+    const variables: Variables = {};
     const varRegex = /\{(\w+)\}/g;
 
     commands.forEach(cmd => {
       let match;
       while ((match = varRegex.exec(cmd)) !== null) {
-        variables[match[1]] = "";
+        variables[match[1]] = payload.variables[match[1]] ?? {};
       }
     });
 
-    let learningContent = undefined;
-    if (learningMode && learningPart) {
-      try {
-        learningContent = JSON.parse(learningPart);
-      } catch {
-        /* ignore */
-      }
-    }
-
     return {
-      commands,
-      explanation: "Command suggested by AI",
-      tags: ["ai"],
-      confidence: 0.7,
-      source: "ai",
-      variables: Object.keys(variables).length ? variables : undefined,
-      ...learningContent,
+      resolved: {
+        commands,
+        explanation: payload.explanation,
+        tags: payload.tags.length ? payload.tags : ["ai"],
+        confidence: payload.confidence,
+        source: "ai",
+        variables: Object.keys(variables).length ? variables : undefined,
+        steps: steps.map(step => ({ explanation: step.explanation || undefined })),
+        riskAssessment: payload.risk,
+        ...(learningMode && payload.learning && { learning: payload.learning }),
+      },
+      errors: [],
     };
   }
 
+  private splitChainedCommand(
+    step: AIResponsePayload["commands"][number]
+  ): AIResponsePayload["commands"] {
+    const commands = splitTopLevel(step.command, ["&&", ";"]);
+    if (commands.length < 2) return [step];
+
+    return commands.map((command, i) => ({
+      command,
+      explanation: i === 0 ? step.explanation : "",
+    }));
+  }
+
   /* ------------------------------------------------------------------ */
 
   isConfigured(): boolean {
     return !!(
-      process.env.GEMINI_API_KEY || fs.pathExistsSync(this.configPath)
+      process.env.GEMINI_API_KEY ||
+      process.env.OPENAI_API_KEY ||
+      process.env.ANTHROPIC_API_KEY ||
+      process.env.OLLAMA_HOST ||
+      process.env.AI_CLI_BASE_URL ||
+      fs.pathExistsSync(this.configPath)
     );
   }
 }
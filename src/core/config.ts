@@ -0,0 +1,34 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { AIProvider } from "../types";
+import { FailurePolicy } from "../execution/execution-engine";
+
+export const CONFIG_PATH = path.join(os.homedir(), ".ai-cli", "config.json");
+
+/**
+ * ~/.ai-cli/config.json. Every key is optional.
+ */
+export interface AppConfig {
+  ai?: AIProvider; // Legacy single provider
+  providers?: AIProvider[];
+  trustedPlugins?: string[];
+  autoRunLowRisk?: boolean; // Run low risk steps without a confirmation prompt
+  onFailure?: FailurePolicy; // What to do with the remaining steps when one fails
+  stepTimeoutSeconds?: number; // Stop steps running longer than this
+  storage?: string; // "json" (default) or "sqlite", see StorageEngine
+}
+
+export async function loadConfig(configPath: string = CONFIG_PATH): Promise<AppConfig> {
+  if (!(await fs.pathExists(configPath))) return {};
+
+  try {
+    return await fs.readJson(configPath);
+  } catch (error) {
+    console.warn(
+      "Ignoring unreadable config.json:",
+      error instanceof Error ? error.message : String(error)
+    );
+    return {};
+  }
+}
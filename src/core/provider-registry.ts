@@ -0,0 +1,119 @@
+import { AIProvider, AIProviderClient } from "../types";
+import { GeminiProvider } from "./providers/gemini-provider";
+import { OpenAIProvider } from "./providers/openai-provider";
+import { AnthropicProvider } from "./providers/anthropic-provider";
+
+type ProviderFactory = (config: AIProvider) => AIProviderClient;
+
+// Order used when several providers are configured through env vars only
+const ENV_PROVIDERS: Array<{ name: string; keyVar?: string; urlVar?: string }> = [
+  { name: "gemini", keyVar: "GEMINI_API_KEY" },
+  { name: "openai", keyVar: "OPENAI_API_KEY", urlVar: "OPENAI_BASE_URL" },
+  { name: "anthropic", keyVar: "ANTHROPIC_API_KEY" },
+  { name: "ollama", urlVar: "OLLAMA_HOST" },
+  { name: "openai-compatible", keyVar: "AI_CLI_API_KEY", urlVar: "AI_CLI_BASE_URL" },
+];
+
+export class ProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+
+  constructor() {
+    this.register("gemini", config => new GeminiProvider(config));
+    this.register("openai", config => new OpenAIProvider(config));
+    this.register("anthropic", config => new AnthropicProvider(config));
+    this.register("ollama", config => new OpenAIProvider(config));
+    this.register("openai-compatible", config => new OpenAIProvider(config));
+  }
+
+  register(name: string, factory: ProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  create(config: AIProvider): AIProviderClient {
+    const factory = this.factories.get(config.name);
+    if (!factory) {
+      throw new Error(`Unknown AI provider: ${config.name}`);
+    }
+    return factory(config);
+  }
+
+  /**
+   * Builds the ordered fallback chain from config.json and env vars.
+   * AI_CLI_PROVIDER (comma separated) picks and orders providers explicitly;
+   * otherwise config entries come first, then anything found in the env.
+   */
+  resolveChain(
+    config: { ai?: AIProvider; providers?: AIProvider[] } = {},
+    env: NodeJS.ProcessEnv = process.env
+  ): AIProviderClient[] {
+    const candidates = new Map<string, AIProvider>();
+
+    const configured = [
+      ...(config.providers ?? []),
+      ...(config.ai ? [config.ai] : []),
+    ];
+    for (const entry of configured) {
+      if (entry?.name && !candidates.has(entry.name)) {
+        candidates.set(entry.name, { ...entry });
+      }
+    }
+
+    for (const { name, keyVar, urlVar } of ENV_PROVIDERS) {
+      const apiKey = keyVar ? env[keyVar] : undefined;
+      const baseUrl = urlVar ? env[urlVar] : undefined;
+      if (!apiKey && !baseUrl) continue;
+
+      const existing = candidates.get(name);
+      candidates.set(name, {
+        ...existing,
+        name,
+        ...(apiKey && { apiKey }),
+        ...(baseUrl && { baseUrl: normalizeBaseUrl(name, baseUrl) }),
+      });
+    }
+
+    let order = Array.from(candidates.keys());
+    if (env.AI_CLI_PROVIDER) {
+      order = env.AI_CLI_PROVIDER.split(",")
+        .map(name => name.trim())
+        .filter(name => name && candidates.has(name));
+    }
+
+    const chain = order
+      .map(name => candidates.get(name) as AIProvider)
+      .filter(provider => this.isUsable(provider));
+
+    if (chain.length && env.AI_CLI_MODEL) {
+      chain[0] = { ...chain[0], model: env.AI_CLI_MODEL };
+    }
+
+    return chain.map(provider => this.create(provider));
+  }
+
+  private isUsable(provider: AIProvider): boolean {
+    if (!this.has(provider.name)) {
+      console.warn(`Ignoring unknown AI provider: ${provider.name}`);
+      return false;
+    }
+
+    // Local OpenAI-compatible servers usually run without a key
+    if (provider.name === "ollama" || provider.name === "openai-compatible") {
+      return !!(provider.baseUrl || provider.endpoint || provider.name === "ollama");
+    }
+
+    return !!provider.apiKey;
+  }
+}
+
+function normalizeBaseUrl(name: string, url: string): string {
+  const withScheme = /^https?:\/\//.test(url) ? url : `http://${url}`;
+  // OLLAMA_HOST points at the server root; the OpenAI API lives under /v1
+  if (name === "ollama" && !/\/v1\/?$/.test(withScheme)) {
+    return `${withScheme.replace(/\/$/, "")}/v1`;
+  }
+  return withScheme;
+}
@@ -0,0 +1,41 @@
+import { BaseProvider } from "./base-provider";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const DEFAULT_MODEL = "claude-3-5-haiku-latest";
+const API_VERSION = "2023-06-01";
+
+export class AnthropicProvider extends BaseProvider {
+  get model(): string {
+    return this.config.model ?? DEFAULT_MODEL;
+  }
+
+  async complete(prompt: string): Promise<string | null> {
+    const url =
+      this.config.endpoint ??
+      `${(this.config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, "")}/messages`;
+
+    const data = await this.postJson<{
+      content?: Array<{ type?: string; text?: string }>;
+    }>(
+      url,
+      {
+        "x-api-key": this.config.apiKey ?? "",
+        "anthropic-version": API_VERSION,
+      },
+      {
+        model: this.model,
+        max_tokens: this.maxTokens,
+        temperature: 0.2,
+        messages: [{ role: "user", content: prompt }],
+      }
+    );
+
+    const text = data.content
+      ?.filter(block => block.type === "text")
+      .map(block => block.text ?? "")
+      .join("")
+      .trim();
+
+    return text || null;
+  }
+}
@@ -0,0 +1,41 @@
+import { AIProvider, AIProviderClient } from "../../types";
+
+export abstract class BaseProvider implements AIProviderClient {
+  readonly config: AIProvider;
+
+  constructor(config: AIProvider) {
+    this.config = config;
+  }
+
+  abstract get model(): string;
+
+  abstract complete(prompt: string): Promise<string | null>;
+
+  protected get maxTokens(): number {
+    return this.config.maxTokens ?? 1024;
+  }
+
+  protected async postJson<T>(
+    url: string,
+    headers: { [key: string]: string },
+    body: unknown
+  ): Promise<T> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+        ...this.config.headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `${this.config.name} API error: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
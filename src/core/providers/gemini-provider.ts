@@ -0,0 +1,44 @@
+import { BaseProvider } from "./base-provider";
+
+const DEFAULT_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+export class GeminiProvider extends BaseProvider {
+  get model(): string {
+    return this.config.model ?? DEFAULT_MODEL;
+  }
+
+  async complete(prompt: string): Promise<string | null> {
+    const url =
+      this.config.endpoint ??
+      `${this.config.baseUrl ?? DEFAULT_BASE_URL}/models/${this.model}:generateContent`;
+
+    const data = await this.postJson<{
+      candidates?: Array<{
+        content?: { parts?: Array<{ text?: string }> };
+      }>;
+    }>(
+      `${url}?key=${this.config.apiKey}`,
+      {},
+      {
+        contents: [
+          {
+            role: "user",
+            parts: [{ text: prompt }],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: this.maxTokens,
+        },
+      }
+    );
+
+    return (
+      data.candidates?.[0]?.content?.parts
+        ?.map(p => p.text ?? "")
+        .join("")
+        .trim() ?? null
+    );
+  }
+}
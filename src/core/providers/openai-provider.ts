@@ -0,0 +1,50 @@
+import { AIProvider } from "../../types";
+import { BaseProvider } from "./base-provider";
+
+const DEFAULTS: Record<string, { baseUrl: string; model: string }> = {
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini" },
+  ollama: { baseUrl: "http://localhost:11434/v1", model: "llama3.1" },
+};
+
+/**
+ * Speaks the OpenAI chat completions protocol. Also used for local
+ * OpenAI-compatible servers (Ollama, llama.cpp, LM Studio) via baseUrl.
+ */
+export class OpenAIProvider extends BaseProvider {
+  private readonly defaults: { baseUrl?: string; model?: string };
+
+  constructor(config: AIProvider) {
+    super(config);
+    this.defaults = DEFAULTS[config.name] ?? {};
+  }
+
+  get model(): string {
+    return this.config.model ?? this.defaults.model ?? "default";
+  }
+
+  async complete(prompt: string): Promise<string | null> {
+    const baseUrl = this.config.baseUrl ?? this.defaults.baseUrl;
+    const url =
+      this.config.endpoint ?? (baseUrl && `${baseUrl.replace(/\/$/, "")}/chat/completions`);
+
+    if (!url) {
+      throw new Error(`${this.config.name} provider requires a baseUrl`);
+    }
+
+    const headers: { [key: string]: string } = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const data = await this.postJson<{
+      choices?: Array<{ message?: { content?: string } }>;
+    }>(url, headers, {
+      model: this.model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0.2,
+      max_tokens: this.maxTokens,
+    });
+
+    return data.choices?.[0]?.message?.content?.trim() ?? null;
+  }
+}
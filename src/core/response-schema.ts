@@ -0,0 +1,247 @@
+/**
+ * JSON contract the AI must follow, plus a small hand-rolled validator.
+ * Kept dependency-free on purpose: the schema is tiny and the error
+ * messages are fed back to the model during the repair pass.
+ */
+
+import { CommandPartExplanation, Variables } from "../types";
+import { VARIABLE_TYPES, parseVariables } from "../storage/vault-format";
+import { checkStepReferences, inlineCaptures } from "../execution/step-outputs";
+
+export interface AIResponsePayload {
+  commands: Array<{ command: string; explanation: string; capture?: string }>;
+  explanation: string;
+  variables: Variables;
+  risk: { level: "low" | "medium" | "high"; reason: string };
+  confidence: number;
+  tags: string[];
+  learning?: { [key: string]: unknown };
+}
+
+export const RESPONSE_SCHEMA_EXAMPLE = `{
+  "commands": [
+    { "command": "<shell command, may use {variableName}>", "explanation": "<what this step does>", "capture": "<optional NAME for what this step prints>" }
+  ],
+  "explanation": "<one or two sentences about the whole solution>",
+  "variables": {
+    "<variableName>": {
+      "description": "<what the user should enter>",
+      "type": ${VARIABLE_TYPES.map(type => `"${type}"`).join(" | ")},
+      "default": "<optional default value>",
+      "choices": ["<for enum: the allowed values>"],
+      "pattern": "<optional regular expression the value must match>"
+    }
+  },
+  "risk": { "level": "low" | "medium" | "high", "reason": "<why>" },
+  "confidence": <number between 0 and 1>,
+  "tags": ["<short topic tag>"]
+}`;
+
+export interface AIExplanationPayload {
+  summary: string;
+  parts: CommandPartExplanation[];
+}
+
+export const EXPLANATION_SCHEMA_EXAMPLE = `{
+  "summary": "<what the whole command does>",
+  "parts": [
+    { "text": "<exact token from the command>", "kind": "program" | "flag" | "argument" | "operator" | "redirection", "explanation": "<what it does>" }
+  ]
+}`;
+
+const RISK_LEVELS = ["low", "medium", "high"];
+const PART_KINDS = ["program", "flag", "argument", "operator", "redirection"];
+
+/**
+ * Pulls the first JSON object out of a model response, tolerating code
+ * fences, leading prose and trailing commas.
+ */
+export function extractJson(raw: string): unknown | undefined {
+  const text = raw.replace(/```(?:json)?/gi, "").trim();
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) return undefined;
+
+  const candidate = text.slice(start, end + 1);
+
+  for (const attempt of [
+    candidate,
+    candidate
+      .replace(/[“”]/g, '"')
+      .replace(/,\s*([}\]])/g, "$1"),
+  ]) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      /* try next */
+    }
+  }
+
+  return undefined;
+}
+
+export function validateAIResponse(value: unknown): {
+  payload: AIResponsePayload | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { payload: null, errors: ["response must be a JSON object"] };
+  }
+
+  const commands: AIResponsePayload["commands"] = [];
+  if (!Array.isArray(value.commands) || value.commands.length === 0) {
+    errors.push("commands must be a non-empty array");
+  } else {
+    value.commands.forEach((step: unknown, i: number) => {
+      // Accept bare strings, models often shorten the step object
+      const entry = typeof step === "string" ? { command: step } : step;
+      if (!isObject(entry) || typeof entry.command !== "string" || !entry.command.trim()) {
+        errors.push(`commands[${i}].command must be a non-empty string`);
+        return;
+      }
+      if (entry.command.includes("\n")) {
+        errors.push(`commands[${i}].command must be a single line`);
+        return;
+      }
+      if (entry.capture !== undefined && !(typeof entry.capture === "string" && /^[A-Za-z_]\w*$/.test(entry.capture))) {
+        errors.push(`commands[${i}].capture must be a plain word`);
+        return;
+      }
+      commands.push({
+        command: entry.command.trim(),
+        explanation:
+          typeof entry.explanation === "string" ? entry.explanation.trim() : "",
+        ...(entry.capture && { capture: entry.capture }),
+      });
+    });
+
+    errors.push(
+      ...checkStepReferences(
+        inlineCaptures(
+          commands.map(step => step.command),
+          commands.map(step => step.capture)
+        )
+      )
+    );
+  }
+
+  if (typeof value.explanation !== "string" || !value.explanation.trim()) {
+    errors.push("explanation must be a non-empty string");
+  }
+
+  const variables: AIResponsePayload["variables"] = {};
+  if (value.variables !== undefined) {
+    if (!isObject(value.variables)) {
+      errors.push("variables must be an object keyed by variable name");
+    } else {
+      for (const name of Object.keys(value.variables)) {
+        if (!/^\w+$/.test(name)) errors.push(`variables.${name} must be a plain word`);
+      }
+
+      // Choices commands run unconfirmed while prompting, so only the vault may have them
+      const described = Object.fromEntries(
+        Object.entries(value.variables)
+          .filter(([name]) => /^\w+$/.test(name))
+          .map(([name, spec]) => [
+            name,
+            isObject(spec) ? { ...spec, choicesCommand: undefined } : spec,
+          ])
+      );
+      const parsed = parseVariables(described);
+      Object.assign(variables, parsed.variables);
+      errors.push(...parsed.errors);
+    }
+  }
+
+  let risk: AIResponsePayload["risk"] = { level: "medium", reason: "" };
+  if (!isObject(value.risk) || !RISK_LEVELS.includes(String(value.risk.level))) {
+    errors.push('risk.level must be one of "low", "medium", "high"');
+  } else {
+    risk = {
+      level: value.risk.level as AIResponsePayload["risk"]["level"],
+      reason: typeof value.risk.reason === "string" ? value.risk.reason : "",
+    };
+  }
+
+  if (
+    typeof value.confidence !== "number" ||
+    value.confidence < 0 ||
+    value.confidence > 1
+  ) {
+    errors.push("confidence must be a number between 0 and 1");
+  }
+
+  const tags = Array.isArray(value.tags)
+    ? value.tags.filter((t: unknown): t is string => typeof t === "string")
+    : [];
+
+  if (errors.length) {
+    return { payload: null, errors };
+  }
+
+  return {
+    payload: {
+      commands,
+      explanation: (value.explanation as string).trim(),
+      variables,
+      risk,
+      confidence: value.confidence as number,
+      tags,
+      learning: isObject(value.learning) ? value.learning : undefined,
+    },
+    errors,
+  };
+}
+
+export function validateExplanationResponse(value: unknown): {
+  payload: AIExplanationPayload | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { payload: null, errors: ["response must be a JSON object"] };
+  }
+
+  if (typeof value.summary !== "string" || !value.summary.trim()) {
+    errors.push("summary must be a non-empty string");
+  }
+
+  const parts: CommandPartExplanation[] = [];
+  if (!Array.isArray(value.parts) || value.parts.length === 0) {
+    errors.push("parts must be a non-empty array");
+  } else {
+    value.parts.forEach((part: unknown, i: number) => {
+      if (
+        !isObject(part) ||
+        typeof part.text !== "string" ||
+        typeof part.explanation !== "string"
+      ) {
+        errors.push(`parts[${i}] must have string "text" and "explanation"`);
+        return;
+      }
+      parts.push({
+        text: part.text,
+        kind: PART_KINDS.includes(part.kind)
+          ? (part.kind as CommandPartExplanation["kind"])
+          : "argument",
+        explanation: part.explanation,
+      });
+    });
+  }
+
+  if (errors.length) {
+    return { payload: null, errors };
+  }
+
+  return {
+    payload: { summary: (value.summary as string).trim(), parts },
+    errors,
+  };
+}
+
+function isObject(value: unknown): value is { [key: string]: any } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { CommandFailedError, captureCommand, runCommand } from '../command-runner';
+
+jest.mock('child_process');
+
+const mockedSpawn = spawn as jest.MockedFunction<typeof spawn>;
+
+function fakeChild() {
+  const child = new EventEmitter() as any;
+  child.stdout = new EventEmitter();
+  child.stderr = new EventEmitter();
+  child.kill = jest.fn();
+  return child;
+}
+
+describe('runCommand', () => {
+  let stdoutWrite: jest.SpyInstance;
+  let stderrWrite: jest.SpyInstance;
+
+  beforeEach(() => {
+    stdoutWrite = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderrWrite = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdoutWrite.mockRestore();
+    stderrWrite.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('should show and capture the output of a command that succeeds', async () => {
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = runCommand('ls');
+    child.stdout.emit('data', Buffer.from('a.txt\n'));
+    child.stderr.emit('data', Buffer.from('note\n'));
+    child.emit('close', 0);
+
+    await expect(promise).resolves.toEqual({ stdout: 'a.txt\n', stderr: 'note\n' });
+    expect(stdoutWrite).toHaveBeenCalledWith(Buffer.from('a.txt\n'));
+  });
+
+  it('should reject with the exit code and stderr tail on failure', async () => {
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = runCommand('git psuh');
+    child.stderr.emit('data', Buffer.from("git: 'psuh' is not a git command.\n"));
+    child.emit('close', 1);
+
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(CommandFailedError);
+    expect(error.command).toBe('git psuh');
+    expect(error.exitCode).toBe(1);
+    expect(error.stderr).toContain("'psuh' is not a git command");
+    expect(stderrWrite).toHaveBeenCalled();
+  });
+
+  describe('on a terminal', () => {
+    const isTTY = process.stdout.isTTY;
+
+    beforeEach(() => {
+      process.stdout.isTTY = true;
+    });
+
+    afterEach(() => {
+      process.stdout.isTTY = isTTY;
+    });
+
+    it('should hand the terminal to a command whose output is not needed', async () => {
+      const child = fakeChild();
+      mockedSpawn.mockReturnValue(child);
+
+      const promise = runCommand('vim notes.txt', { capture: false });
+      child.emit('close', 0);
+
+      await expect(promise).resolves.toEqual({ stdout: '', stderr: '' });
+      expect(mockedSpawn).toHaveBeenCalledWith('vim notes.txt', expect.objectContaining({ stdio: 'inherit' }));
+    });
+
+    it('should still capture output that is needed or shown elsewhere', async () => {
+      mockedSpawn.mockImplementation(() => {
+        const child = fakeChild();
+        setImmediate(() => child.emit('close', 0));
+        return child;
+      });
+
+      await runCommand('ls');
+      await runCommand('ls', { capture: false, echo: process.stderr });
+
+      expect(mockedSpawn.mock.calls.map(([, options]) => (options as any).stdio)).toEqual([
+        ['inherit', 'pipe', 'pipe'],
+        ['inherit', 'pipe', 'pipe'],
+      ]);
+    });
+  });
+
+  it('should reject when the process cannot be spawned', async () => {
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = runCommand('ls');
+    child.emit('error', new Error('spawn error'));
+
+    await expect(promise).rejects.toThrow('spawn error');
+  });
+
+  it('should stop the command after the timeout, then kill it', async () => {
+    jest.useFakeTimers();
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = runCommand('sleep 60', { timeoutMs: 1000 });
+    jest.advanceTimersByTime(1000);
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    jest.advanceTimersByTime(5000);
+    expect(child.kill).toHaveBeenCalledWith('SIGKILL');
+    child.emit('close', null);
+
+    await expect(promise).rejects.toMatchObject({ kind: 'timed-out', message: 'Command timed out' });
+  });
+
+  it('should stop only the command on Ctrl+C', async () => {
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+    const listeners = process.listenerCount('SIGINT');
+
+    const promise = runCommand('sleep 60');
+    process.emit('SIGINT', 'SIGINT');
+    expect(child.kill).toHaveBeenCalledWith('SIGINT');
+    child.emit('close', 130);
+
+    await expect(promise).rejects.toMatchObject({ kind: 'cancelled', exitCode: 130 });
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+});
+
+describe('captureCommand', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve to stdout without echoing it', async () => {
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = captureCommand('git branch', 1000);
+    child.stdout.emit('data', Buffer.from('main\n'));
+    child.stdout.emit('data', Buffer.from('dev\n'));
+    child.emit('close', 0);
+
+    await expect(promise).resolves.toBe('main\ndev\n');
+    expect(mockedSpawn.mock.calls[0][1]).toMatchObject({ stdio: ['ignore', 'pipe', 'pipe'] });
+  });
+
+  it('should kill the command after the timeout', async () => {
+    jest.useFakeTimers();
+    const child = fakeChild();
+    mockedSpawn.mockReturnValue(child);
+
+    const promise = captureCommand('sleep 60', 1000);
+    jest.advanceTimersByTime(1000);
+    expect(child.kill).toHaveBeenCalled();
+    child.emit('close', null);
+
+    await expect(promise).rejects.toBeInstanceOf(CommandFailedError);
+  });
+});
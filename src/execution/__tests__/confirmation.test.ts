@@ -0,0 +1,125 @@
+import {
+  CONFIRM_PHRASE,
+  OVERRIDE_PHRASE,
+  canOverrideBlock,
+  confirmationTier,
+} from '../confirmation';
+import { SafetyFinding, SafetyResult } from '../../types';
+
+const finding = (overrides: Partial<SafetyFinding>): SafetyFinding => ({
+  step: 0,
+  severity: 'warn',
+  riskLevel: 'medium',
+  reason: 'reason',
+  source: 'policy',
+  ...overrides,
+});
+
+const result = (...findings: SafetyFinding[]): SafetyResult => ({
+  blocked: findings.some(f => f.severity === 'block'),
+  riskLevel: 'low',
+  findings,
+});
+
+describe('confirmationTier', () => {
+  it('should ask yes/no for low risk unless auto-run is configured', () => {
+    expect(confirmationTier(result(), 0)).toEqual({ kind: 'yes-no' });
+    expect(confirmationTier(result(), 0, { autoRunLowRisk: true })).toEqual({
+      kind: 'auto',
+      reason: 'low risk, autoRunLowRisk is on',
+    });
+  });
+
+  it('should ask yes/no for medium risk even with auto-run', () => {
+    const safety = result(finding({ riskLevel: 'medium' }));
+    expect(confirmationTier(safety, 0, { autoRunLowRisk: true })).toEqual({ kind: 'yes-no' });
+  });
+
+  it('should require typing the target for high risk steps', () => {
+    const safety = result(finding({ riskLevel: 'high', target: './build', reason: 'Recursive deletion' }));
+    expect(confirmationTier(safety, 0)).toEqual({ kind: 'typed', expected: './build', reason: 'Recursive deletion' });
+  });
+
+  it('should fall back to a phrase when there is no target', () => {
+    const safety = result(finding({ severity: 'confirm', riskLevel: 'medium' }));
+    expect(confirmationTier(safety, 0)).toMatchObject({ kind: 'typed', expected: CONFIRM_PHRASE });
+  });
+
+  it('should only consider findings for the step or for all steps', () => {
+    const safety = result(finding({ step: 1, riskLevel: 'high' }), finding({ step: null, riskLevel: 'medium' }));
+
+    expect(confirmationTier(safety, 0)).toEqual({ kind: 'yes-no' });
+    expect(confirmationTier(safety, 1)).toMatchObject({ kind: 'typed' });
+  });
+
+  it('should ignore suppressed findings', () => {
+    const safety = result(finding({ riskLevel: 'high', suppressedBy: 'sandbox' }));
+    expect(confirmationTier(safety, 0, { autoRunLowRisk: true })).toMatchObject({ kind: 'auto' });
+  });
+
+  it('should require the override phrase for an overridden block', () => {
+    const safety = result(finding({ severity: 'block', riskLevel: 'high', ruleId: 'rm-critical-path' }));
+    expect(confirmationTier(safety, 0)).toMatchObject({ kind: 'typed', expected: OVERRIDE_PHRASE });
+  });
+
+  it('should run steps up to the maximum risk with --yes', () => {
+    const medium = result(finding({ riskLevel: 'medium' }));
+    const high = result(finding({ riskLevel: 'high' }));
+    const options = { interactive: false, maxRisk: 'medium' as const };
+
+    expect(confirmationTier(medium, 0, options)).toEqual({
+      kind: 'auto',
+      reason: 'medium risk, confirmed in advance',
+    });
+    expect(confirmationTier(high, 0, options)).toEqual({
+      kind: 'refused',
+      reason: 'high risk is above --max-risk medium',
+    });
+    expect(confirmationTier(high, 0, { ...options, maxRisk: 'high' })).toMatchObject({ kind: 'auto' });
+  });
+
+  it('should refuse steps that need confirmation when nobody can be asked', () => {
+    expect(confirmationTier(result(), 0, { interactive: false })).toMatchObject({ kind: 'refused' });
+    expect(confirmationTier(result(), 0, { interactive: false, autoRunLowRisk: true })).toMatchObject({
+      kind: 'auto',
+    });
+
+    const blocked = result(finding({ severity: 'block', riskLevel: 'high' }));
+    expect(confirmationTier(blocked, 0, { interactive: false, maxRisk: 'high' })).toMatchObject({ kind: 'refused' });
+  });
+
+  it('should never run a step that asks for confirmation itself with --yes', () => {
+    const confirm = result(finding({ severity: 'confirm', riskLevel: 'medium', reason: 'Production deploy' }));
+
+    expect(confirmationTier(confirm, 0, { interactive: false, maxRisk: 'high' })).toEqual({
+      kind: 'refused',
+      reason: 'Production deploy (needs typed confirmation)',
+    });
+    expect(confirmationTier(confirm, 0, { maxRisk: 'high' })).toMatchObject({ kind: 'typed' });
+  });
+});
+
+describe('canOverrideBlock', () => {
+  const blocked = result(
+    finding({ severity: 'block', ruleId: 'rm-critical-path' }),
+    finding({ step: 1, severity: 'block', ruleId: 'kill-init' })
+  );
+
+  it('should need both the flag and a policy allowance for every blocking rule', () => {
+    const overridableRules = new Set(['rm-critical-path', 'kill-init']);
+
+    expect(canOverrideBlock(blocked, { override: true, overridableRules })).toBe(true);
+    expect(canOverrideBlock(blocked, { override: false, overridableRules })).toBe(false);
+    expect(canOverrideBlock(blocked, { override: true, overridableRules: new Set(['kill-init']) })).toBe(false);
+  });
+
+  it('should never override blocks without someone to type the phrase', () => {
+    const overridableRules = new Set(['rm-critical-path', 'kill-init']);
+    expect(canOverrideBlock(blocked, { override: true, overridableRules, interactive: false })).toBe(false);
+  });
+
+  it('should never override blocks without a rule id', () => {
+    const safety = result(finding({ severity: 'block', source: 'plugin' }));
+    expect(canOverrideBlock(safety, { override: true, overridableRules: new Set() })).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { DryRunPreviewer, formatBytes } from '../dry-run-previewer';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('DryRunPreviewer', () => {
+  let dir: string;
+  let previewer: DryRunPreviewer;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dry-run-'));
+    await fs.outputFile(path.join(dir, 'a.log'), 'aaaa');
+    await fs.outputFile(path.join(dir, 'b.log'), 'bb');
+    await fs.outputFile(path.join(dir, '.hidden.log'), 'h');
+    await fs.outputFile(path.join(dir, 'notes.txt'), 'n');
+    await fs.outputFile(path.join(dir, 'build', 'out.js'), '12345');
+    await fs.outputFile(path.join(dir, 'build', 'lib', 'x.js'), '123');
+    previewer = new DryRunPreviewer(dir, 'posix');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should expand globs like the shell', async () => {
+    const [preview] = await previewer.preview('rm *.log');
+
+    expect(preview).toMatchObject({ action: 'delete', fileCount: 2, totalSize: 6 });
+    expect(preview.items.map(i => i.path)).toEqual(['a.log', 'b.log']);
+  });
+
+  it('should count everything under a recursively deleted directory', async () => {
+    const [preview] = await previewer.preview('rm -rf build');
+
+    expect(preview).toMatchObject({ fileCount: 2, totalSize: 8 });
+    expect(preview.items).toEqual([{ path: 'build', kind: 'directory', size: 8 }]);
+  });
+
+  it('should note directories rm would skip without -r', async () => {
+    const [preview] = await previewer.preview('rm build missing.txt');
+
+    expect(preview.items).toEqual([]);
+    expect(preview.notes).toEqual([
+      'build: is a directory, rm would skip it without -r',
+      'missing.txt: no such file or directory',
+    ]);
+  });
+
+  it('should skip the mode argument of chmod', async () => {
+    const [preview] = await previewer.preview('chmod 600 notes.txt');
+
+    expect(preview).toMatchObject({ action: 'change mode to 600', fileCount: 1 });
+  });
+
+  it('should warn when mv would overwrite a file', async () => {
+    await fs.outputFile(path.join(dir, 'archive', 'a.log'), 'old');
+    const [preview] = await previewer.preview('mv a.log b.log archive/');
+
+    expect(preview.action).toBe('move to archive/');
+    expect(preview.notes).toEqual([
+      `${path.join('archive', 'a.log')} already exists and would be overwritten`,
+    ]);
+  });
+
+  it('should preview each command in a chain', async () => {
+    const previews = await previewer.preview('rm a.log && echo done');
+
+    expect(previews.map(p => p.supported)).toEqual([true, false]);
+  });
+
+  it.each([
+    ['git clean -fdx', 'git clean -n -dx'],
+    ['rsync -av src/ host:dst/', 'rsync --dry-run -av src/ host:dst/'],
+    ['apt-get remove -y nginx', 'apt-get -s remove nginx'],
+    ['kubectl delete pod web', 'kubectl delete pod web --dry-run=client'],
+    ['find . -name "*.tmp" -delete', "find . -name '*.tmp' -print"],
+  ])('should map %s to its native dry run', (command, native) => {
+    expect(previewer.nativeDryRun(command)).toBe(native);
+  });
+
+  it('should not offer a native dry run for commands without one', () => {
+    expect(previewer.nativeDryRun('npm install')).toBeNull();
+    expect(previewer.isSupported('npm install')).toBe(false);
+    expect(previewer.isSupported('rm -rf build')).toBe(true);
+  });
+
+  it('should format sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+  });
+});
@@ -0,0 +1,93 @@
+import { CommandFailedError, runCommand } from '../command-runner';
+import { StepResult, runSteps } from '../execution-engine';
+
+jest.mock('../command-runner', () => ({
+  ...jest.requireActual('../command-runner'),
+  runCommand: jest.fn(),
+}));
+
+const mockedRun = runCommand as jest.MockedFunction<typeof runCommand>;
+
+describe('runSteps', () => {
+  beforeEach(() => {
+    mockedRun.mockImplementation(async command => {
+      if (command === 'fail') throw new CommandFailedError(command, 2, 'boom', 'failed', 'partial');
+      if (command === 'slow') throw new CommandFailedError(command, null, '', 'timed-out');
+      if (command === 'interrupted') throw new CommandFailedError(command, 130, '', 'cancelled');
+      if (command === 'missing-shell') throw new Error('spawn sh ENOENT');
+      return { stdout: `${command} out`, stderr: '' };
+    });
+  });
+
+  it('should capture the output of each step', async () => {
+    const results = await runSteps(['a', 'b'], { timeoutMs: 500 });
+
+    expect(results).toEqual([
+      expect.objectContaining({ status: 'ok', exitCode: 0, stdout: 'a out' }),
+      expect.objectContaining({ status: 'ok', exitCode: 0, stdout: 'b out' }),
+    ]);
+    expect(mockedRun).toHaveBeenCalledWith('a', { timeoutMs: 500, capture: false });
+  });
+
+  it('should only ask to capture output that a later step uses', async () => {
+    await runSteps(['a', 'b', 'echo {step1.stdout}']);
+
+    expect(mockedRun.mock.calls.map(([command, options]) => [command, options?.capture])).toEqual([
+      ['a', true],
+      ['b', false],
+      ['echo {step1.stdout}', false],
+    ]);
+  });
+
+  it('should stop after a failure by default', async () => {
+    const results = await runSteps(['a', 'fail', 'b']);
+
+    expect(results.map(r => r.status)).toEqual(['ok', 'failed', 'not-run']);
+    expect(results[1]).toMatchObject({ exitCode: 2, stderr: 'boom', stdout: 'partial' });
+    expect(mockedRun).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run the remaining steps with "continue", except after Ctrl+C', async () => {
+    const continued = await runSteps(['slow', 'fail', 'b'], { onFailure: 'continue' });
+    expect(continued.map(r => r.status)).toEqual(['timed-out', 'failed', 'ok']);
+
+    const interrupted = await runSteps(['interrupted', 'b'], { onFailure: 'continue' });
+    expect(interrupted.map(r => r.status)).toEqual(['cancelled', 'not-run']);
+  });
+
+  it('should ask whether to continue with "ask"', async () => {
+    const confirmContinue = jest.fn().mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const results = await runSteps(['fail', 'interrupted', 'b'], { onFailure: 'ask', confirmContinue });
+
+    expect(results.map(r => r.status)).toEqual(['failed', 'cancelled', 'not-run']);
+    expect(confirmContinue).toHaveBeenCalledWith(0, expect.objectContaining({ status: 'failed' }));
+  });
+
+  it('should skip declined steps and report results as they come', async () => {
+    const onResult = jest.fn();
+
+    const results = await runSteps(['a', 'b'], { prepare: async step => (step === 1 ? 'b' : null), onResult });
+
+    expect(results.map(r => r.status)).toEqual(['declined', 'ok']);
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(onResult).toHaveBeenCalledWith(1, expect.objectContaining({ status: 'ok' }));
+  });
+
+  it('should run the prepared command with the results so far', async () => {
+    const prepare = async (step: number, results: StepResult[]) => (step ? `tail ${results[0].stdout}` : 'a');
+
+    await runSteps(['a', 'tail {step1.stdout}'], { prepare });
+
+    expect(mockedRun).toHaveBeenLastCalledWith('tail a out', { capture: false });
+  });
+
+  it('should report a shell that cannot start as a failed step', async () => {
+    const results = await runSteps(['missing-shell', 'b']);
+
+    expect(results).toEqual([
+      expect.objectContaining({ status: 'failed', exitCode: null, message: 'spawn sh ENOENT' }),
+      { status: 'not-run' },
+    ]);
+  });
+});
@@ -0,0 +1,16 @@
+import { EXIT_CODES, stepsOutcome } from '../exit-codes';
+
+describe('stepsOutcome', () => {
+  it('should be decided by the first step that did not succeed', () => {
+    expect(stepsOutcome(['ok', 'ok'])).toBe('ok');
+    expect(stepsOutcome(['ok', 'timed-out', 'not-run'])).toBe('step-failed');
+    expect(stepsOutcome(['declined', 'failed'])).toBe('declined');
+    expect(stepsOutcome(['blocked', 'ok'])).toBe('blocked');
+  });
+
+  it('should keep distinct exit codes for each kind of refusal', () => {
+    const codes = [EXIT_CODES.unresolved, EXIT_CODES.blocked, EXIT_CODES.declined, EXIT_CODES['step-failed']];
+    expect(new Set(codes).size).toBe(4);
+    expect(codes).not.toContain(EXIT_CODES.ok);
+  });
+});
@@ -0,0 +1,40 @@
+import { execFileSync } from 'child_process';
+import { QuotingError, quoteArgument } from '../shell-quoting';
+
+const NASTY = [`it's "quoted"`, 'a b  c', '$HOME `id` $(id)', 'foo; rm -rf ~', '*', '\\n', '', '!!', '=ls', '~'];
+
+describe('quoteArgument', () => {
+  it.each(['sh', 'bash', 'dash'])('should keep values one literal word in %s', shell => {
+    for (const value of NASTY) {
+      const command = `printf '%s|' ${quoteArgument(value, 'sh')}`;
+      expect(execFileSync(shell, ['-c', command], { encoding: 'utf8' })).toBe(`${value}|`);
+    }
+  });
+
+  it('should leave plain words unquoted', () => {
+    for (const shell of ['sh', 'zsh', 'fish', 'powershell', 'cmd'] as const) {
+      expect(quoteArgument('src/app.ts', shell)).toBe('src/app.ts');
+    }
+  });
+
+  it('should quote words zsh would expand', () => {
+    expect(quoteArgument('=ls', 'zsh')).toBe("'=ls'");
+    expect(quoteArgument('~/x', 'zsh')).toBe("'~/x'");
+  });
+
+  it('should escape backslashes and quotes for fish', () => {
+    expect(quoteArgument(`it's \\ $HOME`, 'fish')).toBe(`'it\\'s \\\\ $HOME'`);
+    expect(quoteArgument('{a,b}', 'fish')).toBe(`'{a,b}'`);
+  });
+
+  it('should quote for PowerShell', () => {
+    expect(quoteArgument(`it’s $env:HOME`, 'powershell')).toBe(`'it’’s $env:HOME'`);
+    expect(quoteArgument('-Recurse', 'powershell')).toBe(`'-Recurse'`);
+  });
+
+  it('should escape quotes, % and ! for cmd', () => {
+    expect(quoteArgument('say "hi" & exit', 'cmd')).toBe('"say ""hi"" & exit"');
+    expect(quoteArgument('%PATH%!', 'cmd')).toBe('""^%"PATH"^%""^!""');
+    expect(() => quoteArgument('two\nlines', 'cmd')).toThrow(QuotingError);
+  });
+});
@@ -0,0 +1,45 @@
+import { checkStepReferences, inlineCaptures, stepOutputValues, stepReferences } from '../step-outputs';
+
+describe('stepReferences', () => {
+  it('should list each step output once', () => {
+    expect(stepReferences('diff {step1.stdout} {step2.stderr} {step1.stdout} {name} ${step3.stdout}')).toEqual([
+      { name: 'step1.stdout', step: 0, stream: 'stdout' },
+      { name: 'step2.stderr', step: 1, stream: 'stderr' },
+    ]);
+  });
+});
+
+describe('checkStepReferences', () => {
+  it('should only allow outputs of earlier steps', () => {
+    expect(checkStepReferences(['ls', 'tail {step1.stdout}'])).toEqual([]);
+    expect(checkStepReferences(['echo {step1.stdout}', 'cat {step3.stdout}'])).toEqual([
+      'step 1 uses {step1.stdout}, but step 1 does not run before it',
+      'step 2 uses {step3.stdout}, but step 3 does not run before it',
+    ]);
+  });
+});
+
+describe('inlineCaptures', () => {
+  it('should replace captured names in later steps only', () => {
+    expect(
+      inlineCaptures(['echo {LOG}', 'ls -t | head -1', 'tail {LOG} {lines}'], [undefined, 'LOG', undefined])
+    ).toEqual(['echo {LOG}', 'ls -t | head -1', 'tail {step2.stdout} {lines}']);
+  });
+});
+
+describe('stepOutputValues', () => {
+  it('should use the output without trailing newlines', () => {
+    const results = [{ status: 'ok' as const, exitCode: 0, stdout: 'app.log\n', stderr: 'warning\r\n' }];
+
+    expect(stepOutputValues('tail {step1.stdout} 2> {step1.stderr}', results)).toEqual({
+      'step1.stdout': 'app.log',
+      'step1.stderr': 'warning',
+    });
+    expect(stepOutputValues('ls', results)).toEqual({});
+  });
+
+  it('should return null when a step it needs did not run', () => {
+    expect(stepOutputValues('tail {step1.stdout}', [{ status: 'declined' }])).toBeNull();
+    expect(stepOutputValues('tail {step2.stdout}', [])).toBeNull();
+  });
+});
@@ -0,0 +1,198 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import inquirer from 'inquirer';
+import { captureCommand } from '../command-runner';
+import {
+  VariableError,
+  describeVariable,
+  fillVariables,
+  resolveVariables,
+  substituteVariables,
+  validateValue,
+  visibleValues,
+} from '../variables';
+
+jest.mock('inquirer', () => ({ prompt: jest.fn() }));
+jest.mock('../command-runner', () => ({ captureCommand: jest.fn() }));
+
+const mockedPrompt = inquirer.prompt as unknown as jest.Mock;
+const mockedCapture = captureCommand as jest.MockedFunction<typeof captureCommand>;
+
+const NASTY = [`it's "quoted"`, 'a b  c', '$HOME `id` $(id)', 'foo; rm -rf ~', '*', '\\n', '', '!!'];
+
+describe('substituteVariables', () => {
+  const sh = (command: string) => execFileSync('sh', ['-c', command], { encoding: 'utf8' });
+
+  it.each(NASTY)('should keep %p one literal word in sh', value => {
+    for (const template of ['printf "%s|" {v}', `printf "%s|" "<{v}>"`, `printf "%s|" '<{v}>'`]) {
+      const expected = template.includes('<') ? `<${value}>|` : `${value}|`;
+      expect(sh(substituteVariables(template, { v: value }, 'sh'))).toBe(expected);
+    }
+  });
+
+  it('should leave plain words unquoted', () => {
+    expect(substituteVariables('git checkout {branch}', { branch: 'feature/x-1' }, 'sh')).toBe(
+      'git checkout feature/x-1'
+    );
+  });
+
+  it('should leave escapes, shell braces and unknown placeholders alone', () => {
+    expect(substituteVariables('echo \\{v} ${v} {other} {v}', { v: 'x y' }, 'sh')).toBe(
+      "echo \\{v} ${v} {other} 'x y'"
+    );
+  });
+
+  it('should quote for PowerShell', () => {
+    const value = `it's $env:HOME "x"`;
+
+    expect(substituteVariables('Write-Output {v}', { v: value }, 'powershell')).toBe(
+      `Write-Output 'it''s $env:HOME "x"'`
+    );
+    expect(substituteVariables("Write-Output 'say {v}'", { v: value }, 'powershell')).toBe(
+      `Write-Output 'say it''s $env:HOME "x"'`
+    );
+    expect(substituteVariables('Write-Output "say {v}"', { v: value }, 'powershell')).toBe(
+      'Write-Output "say it\'s `$env:HOME `"x`""'
+    );
+    expect(substituteVariables('Remove-Item {v}', { v: '-Recurse' }, 'powershell')).toBe(
+      "Remove-Item '-Recurse'"
+    );
+  });
+});
+
+describe('fillVariables', () => {
+  it('should insert values as they are', () => {
+    expect(fillVariables('delete {dir}?', { dir: 'my dir' })).toBe('delete my dir?');
+  });
+});
+
+describe('validateValue', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-vars-'));
+    await fs.writeFile(path.join(dir, 'present.txt'), '');
+  });
+
+  afterAll(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should check each type', async () => {
+    expect(await validateValue({ type: 'int' }, '-12')).toBeNull();
+    expect(await validateValue({ type: 'int' }, '1.5')).toBe('must be a whole number');
+    expect(await validateValue({ type: 'path' }, '')).toBe('a value is required');
+    expect(await validateValue({ type: 'enum', choices: ['a', 'b'] }, 'c')).toBe('must be one of a, b');
+    expect(await validateValue({ type: 'file' }, 'present.txt', dir)).toBeNull();
+    expect(await validateValue({ type: 'file' }, 'missing.txt', dir)).toBe('missing.txt is not an existing file');
+    expect(await validateValue({ type: 'file' }, '.', dir)).toBe('. is not an existing file');
+    expect(await validateValue({}, '')).toBeNull();
+  });
+
+  it('should match the pattern against the whole value', async () => {
+    expect(await validateValue({ pattern: 'v\\d+' }, 'v12')).toBeNull();
+    expect(await validateValue({ pattern: 'v\\d+' }, 'xv12')).toBe('must match v\\d+');
+  });
+});
+
+describe('resolveVariables', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('should prompt with the widget for each type', async () => {
+    mockedPrompt
+      .mockResolvedValueOnce({ env: 'prod' })
+      .mockResolvedValueOnce({ token: '' })
+      .mockResolvedValueOnce({ dir: '~/src' });
+
+    const values = await resolveVariables({
+      env: { description: 'Target', choices: ['dev', 'prod'], type: 'enum', default: 'dev' },
+      token: { type: 'secret', default: 's3cret' },
+      dir: { type: 'path' },
+    });
+
+    const questions = mockedPrompt.mock.calls.map(([[question]]) => question);
+    expect(questions[0]).toMatchObject({ type: 'list', message: 'Choose env (Target):', choices: ['dev', 'prod'] });
+    expect(questions[1]).toMatchObject({ type: 'password', mask: '*' });
+    expect(questions[2]).toMatchObject({ type: 'input', message: 'Enter value for dir:' });
+    expect(await questions[2].validate('')).toBe('a value is required');
+    expect(values).toEqual({ env: 'prod', token: 's3cret', dir: path.join(os.homedir(), 'src') });
+  });
+
+  it('should use --var values without prompting and reject invalid ones', async () => {
+    await expect(resolveVariables({ n: { type: 'int' } }, { preset: { n: ' 3 ', extra: 'x' } })).resolves.toEqual({
+      n: '3',
+    });
+    expect(mockedPrompt).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring --var extra'));
+
+    await expect(resolveVariables({ n: { type: 'int' } }, { preset: { n: 'three' } })).rejects.toThrow(
+      new VariableError('--var n: must be a whole number')
+    );
+  });
+
+  it('should use defaults without prompting when nobody can be asked', async () => {
+    await expect(
+      resolveVariables({ env: { default: 'dev' }, n: { type: 'int' } }, { preset: { n: '2' }, interactive: false })
+    ).resolves.toEqual({ env: 'dev', n: '2' });
+    await expect(resolveVariables({ n: { type: 'int' } }, { interactive: false })).rejects.toThrow(
+      new VariableError('No value for {n}; pass --var n=<value>')
+    );
+    expect(mockedPrompt).not.toHaveBeenCalled();
+  });
+
+  it('should list choices from the choices command', async () => {
+    mockedCapture.mockResolvedValue('main\n  feature/x\n\nmain\n');
+
+    const values = await resolveVariables(
+      { branch: { type: 'enum', choices: ['HEAD'], choicesCommand: 'git branch' } },
+      { preset: { branch: 'feature/x' }, canRun: async () => true }
+    );
+
+    expect(values).toEqual({ branch: 'feature/x' });
+    expect(mockedCapture).toHaveBeenCalledWith('git branch', expect.any(Number));
+    await expect(
+      resolveVariables({ branch: { type: 'enum', choicesCommand: 'git branch' } }, { preset: { branch: 'nope' } })
+    ).rejects.toThrow('must be one of main, feature/x');
+  });
+
+  it('should fall back to free text when choices cannot be listed', async () => {
+    mockedPrompt.mockResolvedValue({ branch: 'anything' });
+
+    await resolveVariables(
+      { branch: { type: 'enum', choicesCommand: 'rm -rf / #' } },
+      { canRun: async () => false }
+    );
+
+    expect(mockedCapture).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('did not pass the safety checks'));
+    expect(mockedPrompt.mock.calls[0][0][0]).toMatchObject({ type: 'input' });
+  });
+});
+
+describe('visibleValues', () => {
+  it('should leave out secrets', () => {
+    expect(visibleValues({ user: {}, pass: { type: 'secret' } }, { user: 'ada', pass: 'hunter2' })).toEqual({
+      user: 'ada',
+    });
+  });
+});
+
+describe('describeVariable', () => {
+  it('should summarize the spec in one line', () => {
+    expect(describeVariable({ description: 'Target', type: 'enum', choices: ['dev', 'prod'], default: 'dev' })).toBe(
+      'Target (one of dev, prod; default dev)'
+    );
+    expect(describeVariable({ type: 'secret', default: 'hidden' })).toBe('(secret)');
+    expect(describeVariable({})).toBe('');
+  });
+});
@@ -0,0 +1,206 @@
+import { ChildProcess, StdioOptions, execFile, spawn } from "child_process";
+import { promisify } from "util";
+import { TargetShell } from "./shell-quoting";
+
+const STDERR_TAIL_BYTES = 8 * 1024;
+const CAPTURE_BYTES = 256 * 1024;
+const KILL_GRACE_MS = 5_000;
+
+export type FailureKind = "failed" | "timed-out" | "cancelled";
+
+export class CommandFailedError extends Error {
+  readonly command: string;
+  readonly exitCode: number | null;
+  readonly stderr: string; // Tail, for `ai fix`
+  readonly stdout: string;
+  readonly kind: FailureKind;
+
+  constructor(
+    command: string,
+    exitCode: number | null,
+    stderr: string,
+    kind: FailureKind = "failed",
+    stdout: string = ""
+  ) {
+    super(
+      kind === "timed-out"
+        ? "Command timed out"
+        : kind === "cancelled"
+        ? "Command cancelled"
+        : `Command failed with exit code ${exitCode}`
+    );
+    this.name = "CommandFailedError";
+    this.command = command;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+    this.stdout = stdout;
+    this.kind = kind;
+  }
+}
+
+export interface RunOptions {
+  timeoutMs?: number; // Stop the command when it runs longer
+  echo?: NodeJS.WritableStream; // Where its stdout is shown, process.stdout by default
+  capture?: boolean; // Keep the output even on a terminal; true by default
+}
+
+export interface CommandOutput {
+  stdout: string; // The last 256 KB of each
+  stderr: string;
+}
+
+/**
+ * The shell runCommand() and captureCommand() run commands in.
+ */
+export function runnerShell(): TargetShell {
+  return process.platform === "win32" ? "powershell" : "sh";
+}
+
+/**
+ * Runs a command in the user's shell with live output, which is also
+ * captured. With `capture: false` on a terminal the command gets the
+ * terminal itself instead, so editors, pagers and colours work, and
+ * nothing is captured. Ctrl+C while it runs stops the command, not ai,
+ * and so does running past the timeout; the command gets SIGKILL when it
+ * does not exit within a few seconds. Failing, timing out or being
+ * cancelled rejects with CommandFailedError.
+ */
+export async function runCommand(cmd: string, options: RunOptions = {}): Promise<CommandOutput> {
+  return new Promise((resolve, reject) => {
+    const isWindows = process.platform === "win32";
+    const inherit = options.capture === false && !options.echo && process.stdout.isTTY;
+    const stdio: StdioOptions = inherit ? "inherit" : ["inherit", "pipe", "pipe"];
+
+    const child = isWindows
+      ? spawn("powershell", ["-Command", cmd], { stdio })
+      : spawn(cmd, { shell: true, stdio });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk: Buffer) => {
+      (options.echo ?? process.stdout).write(chunk);
+      stdout = (stdout + chunk.toString()).slice(-CAPTURE_BYTES);
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      process.stderr.write(chunk);
+      stderr = (stderr + chunk.toString()).slice(-CAPTURE_BYTES);
+    });
+
+    let stopped: FailureKind | null = null;
+    let kill: ((signal: NodeJS.Signals) => void) | undefined;
+    let escalation: NodeJS.Timeout | undefined;
+    const stop = (kind: FailureKind, signal: NodeJS.Signals) => {
+      stopped = kind;
+      kill ??= treeKiller(child);
+      kill(signal);
+      escalation ??= setTimeout(() => kill!("SIGKILL"), KILL_GRACE_MS);
+    };
+
+    // The terminal sends Ctrl+C to the command as well; listening for it
+    // is what keeps ai running
+    const onInterrupt = () => stop("cancelled", "SIGINT");
+    process.on("SIGINT", onInterrupt);
+    const timer = options.timeoutMs
+      ? setTimeout(() => stop("timed-out", "SIGTERM"), options.timeoutMs)
+      : undefined;
+
+    const cleanup = () => {
+      process.off("SIGINT", onInterrupt);
+      clearTimeout(timer);
+      clearTimeout(escalation);
+    };
+
+    child.on("close", code => {
+      cleanup();
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        const tail = stderr.slice(-STDERR_TAIL_BYTES);
+        reject(new CommandFailedError(cmd, code, tail, stopped ?? "failed", stdout));
+      }
+    });
+
+    child.on("error", error => {
+      cleanup();
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Runs a command in the user's shell and resolves to its stdout, for
+ * output ai reads instead of showing. The command is killed after
+ * `timeoutMs`; failing or being killed rejects with CommandFailedError.
+ */
+export async function captureCommand(cmd: string, timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const isWindows = process.platform === "win32";
+    const stdio: ["ignore", "pipe", "pipe"] = ["ignore", "pipe", "pipe"];
+
+    const child = isWindows
+      ? spawn("powershell", ["-Command", cmd], { stdio })
+      : spawn(cmd, { shell: true, stdio });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeoutMs);
+
+    let stdout = "";
+    let stderrTail = "";
+    child.stdout?.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      stderrTail = (stderrTail + chunk.toString()).slice(-STDERR_TAIL_BYTES);
+    });
+
+    child.on("close", code => {
+      clearTimeout(timer);
+      if (code === 0) resolve(stdout);
+      else reject(new CommandFailedError(cmd, code, stderrTail, timedOut ? "timed-out" : "failed"));
+    });
+
+    child.on("error", error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Sends signals to the child and every process it started, so stopping
+ * `sh -c "a; b"` also stops whichever of a and b is running. The
+ * processes are looked up once, before the shell dies and they are
+ * reparented.
+ */
+function treeKiller(child: ChildProcess): (signal: NodeJS.Signals) => void {
+  const pid = child.pid;
+  if (pid === undefined) return signal => child.kill(signal);
+
+  if (process.platform === "win32") {
+    return () => {
+      spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { stdio: "ignore" }).on("error", () => undefined);
+    };
+  }
+
+  const pids = descendants(pid).then(found => [pid, ...found]);
+  return signal => {
+    void pids.then(all =>
+      all.forEach(p => {
+        try {
+          process.kill(p, signal);
+        } catch {
+          // Already exited
+        }
+      })
+    );
+  };
+}
+
+async function descendants(pid: number): Promise<number[]> {
+  const { stdout } = await promisify(execFile)("pgrep", ["-P", String(pid)]).catch(() => ({ stdout: "" }));
+  const children = stdout.split("\n").filter(Boolean).map(Number);
+
+  return [...children, ...(await Promise.all(children.map(descendants))).flat()];
+}
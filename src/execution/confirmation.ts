@@ -0,0 +1,106 @@
+import { SafetyFinding, SafetyResult } from "../types";
+
+export const OVERRIDE_PHRASE = "I know what I'm doing";
+export const CONFIRM_PHRASE = "run it";
+
+export type RiskLevel = SafetyResult["riskLevel"];
+
+export const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high"];
+
+export type ConfirmationTier =
+  | { kind: "auto"; reason: string }
+  | { kind: "yes-no" }
+  | { kind: "typed"; expected: string; reason: string }
+  | { kind: "refused"; reason: string }; // Needs a person, and there is none
+
+export interface ConfirmationOptions {
+  autoRunLowRisk?: boolean; // config.json: run low risk steps without asking
+  override?: boolean; // --i-know-what-im-doing
+  overridableRules?: Set<string>; // policy.yaml: blocks that may be overridden
+  interactive?: boolean; // false when nobody can be asked (--yes, --json, --print-only)
+  maxRisk?: RiskLevel; // --yes and the like: the highest risk confirmed without asking
+}
+
+/**
+ * Active (not suppressed) findings that apply to one step, including
+ * findings that apply to every step.
+ */
+export function findingsForStep(safety: SafetyResult, step: number): SafetyFinding[] {
+  return (safety.findings ?? []).filter(
+    f => !f.suppressedBy && (f.step === null || f.step === step)
+  );
+}
+
+/**
+ * A block can only be overridden with the explicit flag, only when every
+ * blocking rule is allowed to be overridden by the user policy, and only
+ * with someone there to type the override phrase.
+ */
+export function canOverrideBlock(
+  safety: SafetyResult,
+  options: ConfirmationOptions
+): boolean {
+  const blocks = (safety.findings ?? []).filter(
+    f => !f.suppressedBy && f.severity === "block"
+  );
+
+  return (
+    !!options.override &&
+    options.interactive !== false &&
+    blocks.length > 0 &&
+    blocks.every(f => !!f.ruleId && !!options.overridableRules?.has(f.ruleId))
+  );
+}
+
+/**
+ * How a step must be confirmed: overridden blocks and high risk steps
+ * need typed confirmation, medium risk a yes/no, low risk runs without
+ * asking only when configured. Steps up to the maximum risk, when there
+ * is one, were confirmed in advance (--yes), except steps with a finding
+ * that asks for confirmation itself (a policy `confirm` rule, injected
+ * syntax): those always need someone to type it. Without anyone to ask,
+ * the others are refused.
+ */
+export function confirmationTier(
+  safety: SafetyResult,
+  step: number,
+  options: ConfirmationOptions = {}
+): ConfirmationTier {
+  const findings = findingsForStep(safety, step);
+
+  const block = findings.find(f => f.severity === "block");
+  const confirm = findings.find(f => f.severity === "confirm");
+  const typed = confirm ?? findings.find(f => f.riskLevel === "high");
+  const risk: RiskLevel = typed ? "high" : findings.some(f => f.riskLevel === "medium") ? "medium" : "low";
+
+  if (
+    !block &&
+    !confirm &&
+    options.maxRisk &&
+    RISK_LEVELS.indexOf(risk) <= RISK_LEVELS.indexOf(options.maxRisk)
+  ) {
+    return { kind: "auto", reason: `${risk} risk, confirmed in advance` };
+  }
+  if (!block && risk === "low" && options.autoRunLowRisk) {
+    return { kind: "auto", reason: "low risk, autoRunLowRisk is on" };
+  }
+
+  if (options.interactive === false) {
+    const reason = block
+      ? "overriding a block needs the phrase typed"
+      : confirm
+      ? `${confirm.reason} (needs typed confirmation)`
+      : options.maxRisk
+      ? `${risk} risk is above --max-risk ${options.maxRisk}`
+      : `${risk} risk needs confirmation; pass --yes`;
+    return { kind: "refused", reason };
+  }
+
+  if (block) {
+    return { kind: "typed", expected: OVERRIDE_PHRASE, reason: block.reason };
+  }
+  if (typed) {
+    return { kind: "typed", expected: typed.target ?? CONFIRM_PHRASE, reason: typed.reason };
+  }
+  return { kind: "yes-no" };
+}
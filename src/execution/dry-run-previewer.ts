@@ -0,0 +1,469 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import {
+  ShellDialect,
+  SimpleCommand,
+  defaultDialect,
+  parseCommandLine,
+} from "../parser/command-parser";
+import { normalizeCommand } from "../safety/safety-rules";
+
+const execFileAsync = promisify(execFile);
+
+const NATIVE_TIMEOUT_MS = 10000;
+const MAX_NATIVE_LINES = 200;
+const MAX_WALK_ENTRIES = 100000;
+
+export interface AffectedItem {
+  path: string;
+  kind: "file" | "directory" | "object";
+  size: number; // Bytes, including everything below a directory that is affected
+}
+
+export interface DryRunPreview {
+  command: string;
+  supported: boolean;
+  action?: string;
+  items: AffectedItem[];
+  fileCount: number;
+  directoryCount: number;
+  totalSize: number;
+  nativeCommand?: string;
+  nativeOutput?: string;
+  notes: string[];
+}
+
+// Read-only commands whose output stands in for a native dry-run
+type NativePlan = { argv: string[]; action: string };
+
+const FILE_PROGRAMS = new Set(["rm", "mv", "cp", "chmod", "chown", "chgrp"]);
+
+// find actions that do something besides printing
+const FIND_SIDE_EFFECTS = new Set([
+  "-exec", "-execdir", "-ok", "-okdir", "-fprint", "-fprint0", "-fprintf", "-fls",
+]);
+
+/**
+ * Previews what a command would touch without running it: expands globs
+ * and walks the affected paths for file operations, and runs read-only
+ * equivalents (git clean -n, rsync -n, apt-get -s, find without -delete,
+ * docker ps) for tools that have them.
+ */
+export class DryRunPreviewer {
+  private cwd: string;
+  private dialect: ShellDialect;
+
+  constructor(cwd: string = process.cwd(), dialect: ShellDialect = defaultDialect()) {
+    this.cwd = cwd;
+    this.dialect = dialect;
+  }
+
+  /**
+   * One preview per top-level simple command in the line.
+   */
+  async preview(command: string): Promise<DryRunPreview[]> {
+    const { commands } = parseCommandLine(command, this.dialect);
+    const previews: DryRunPreview[] = [];
+
+    for (const simple of commands.filter(c => !c.nested && c.program)) {
+      previews.push(await this.previewCommand(simple));
+    }
+
+    return previews;
+  }
+
+  isSupported(command: string): boolean {
+    const { commands } = parseCommandLine(command, this.dialect);
+    return commands.some(
+      c => !c.nested && (FILE_PROGRAMS.has(c.program) || nativePlan(c) !== null || dockerObjects(c))
+    );
+  }
+
+  /**
+   * The native dry-run form of a command, when the tool has one.
+   */
+  nativeDryRun(command: string): string | null {
+    const { commands } = parseCommandLine(command, this.dialect);
+    const plans = commands.filter(c => !c.nested).map(nativePlan);
+    if (!plans.length || plans.some(plan => plan === null)) return null;
+
+    return plans.map(plan => plan!.argv.map(quoteArg).join(" ")).join(" && ");
+  }
+
+  /* -------------------- PER COMMAND -------------------- */
+
+  private async previewCommand(command: SimpleCommand): Promise<DryRunPreview> {
+    const preview: DryRunPreview = {
+      command: command.text,
+      supported: false,
+      items: [],
+      fileCount: 0,
+      directoryCount: 0,
+      totalSize: 0,
+      notes: [],
+    };
+
+    if (command.args.some(arg => /\$/.test(arg))) {
+      preview.notes.push("Contains shell variables; the preview may be incomplete.");
+    }
+
+    if (FILE_PROGRAMS.has(command.program)) {
+      await this.previewFileOperation(command, preview);
+      return preview;
+    }
+
+    const objects = dockerObjects(command);
+    if (objects) {
+      preview.supported = true;
+      preview.action = objects.action;
+      preview.items = objects.names.map(name => ({ path: name, kind: "object", size: 0 }));
+    }
+
+    const plan = nativePlan(command);
+    if (plan) {
+      preview.supported = true;
+      preview.action = preview.action ?? plan.action;
+      preview.nativeCommand = plan.argv.map(quoteArg).join(" ");
+      preview.nativeOutput = await this.runNative(plan.argv);
+    }
+
+    if (!preview.supported) {
+      preview.notes.push("No preview available for this command; it would run as-is.");
+    }
+
+    return preview;
+  }
+
+  private async previewFileOperation(
+    command: SimpleCommand,
+    preview: DryRunPreview
+  ): Promise<void> {
+    const { program } = command;
+    const { flags, positionals } = normalizeCommand(command);
+    const recursive = flags.has("-r") || flags.has("-R") || flags.has("-a");
+
+    let targets = positionals;
+    let destination: string | undefined;
+
+    if (program === "mv" || program === "cp") {
+      destination = positionals[positionals.length - 1];
+      targets = positionals.slice(0, -1);
+    } else if (program !== "rm") {
+      // chmod/chown/chgrp: first positional is the mode or owner
+      targets = positionals.slice(1);
+    }
+
+    preview.supported = true;
+    preview.action = {
+      rm: "delete",
+      mv: `move to ${destination}`,
+      cp: `copy to ${destination}`,
+      chmod: `change mode to ${positionals[0]}`,
+      chown: `change owner to ${positionals[0]}`,
+      chgrp: `change group to ${positionals[0]}`,
+    }[program];
+
+    for (const target of targets) {
+      const matches = await this.expand(target);
+
+      if (!matches.length) {
+        preview.notes.push(`${target}: no such file or directory`);
+        continue;
+      }
+
+      for (const match of matches) {
+        const stat = await fs.lstat(match);
+        const isDirectory = stat.isDirectory();
+
+        // rm/cp without -r skip directories, mv always moves the whole tree
+        if (isDirectory && !recursive && program !== "mv") {
+          preview.notes.push(
+            `${this.display(match)}: is a directory, ${program} would skip it without -r`
+          );
+          continue;
+        }
+
+        const walked = isDirectory
+          ? await this.walk(match, preview)
+          : { files: 1, directories: 0, size: stat.size };
+
+        preview.fileCount += walked.files;
+        preview.directoryCount += walked.directories;
+        preview.totalSize += walked.size;
+        preview.items.push({
+          path: this.display(match),
+          kind: isDirectory ? "directory" : "file",
+          size: walked.size,
+        });
+      }
+    }
+
+    if (destination && (program === "mv" || program === "cp")) {
+      await this.noteOverwrites(preview, destination);
+    }
+  }
+
+  private async noteOverwrites(preview: DryRunPreview, destination: string): Promise<void> {
+    const target = this.resolve(destination);
+    const exists = await fs.pathExists(target);
+    const isDirectory = exists && (await fs.stat(target)).isDirectory();
+
+    for (const item of preview.items) {
+      const landing = isDirectory ? path.join(target, path.basename(item.path)) : target;
+      if (await fs.pathExists(landing)) {
+        preview.notes.push(`${this.display(landing)} already exists and would be overwritten`);
+      }
+    }
+  }
+
+  /* -------------------- FILESYSTEM -------------------- */
+
+  private resolve(arg: string): string {
+    const expanded = arg.replace(/^(~|\$HOME|\$\{HOME\})(?=\/|$)/, os.homedir());
+    return path.resolve(this.cwd, expanded);
+  }
+
+  private display(absolute: string): string {
+    const relative = path.relative(this.cwd, absolute);
+    return relative && !relative.startsWith("..") ? relative : absolute;
+  }
+
+  /**
+   * Expands *, ? and [...] one path segment at a time, like the shell.
+   * Patterns that match nothing expand to nothing (the shell would pass
+   * them through literally, and the command would fail on them).
+   */
+  private async expand(pattern: string): Promise<string[]> {
+    const absolute = this.resolve(pattern);
+
+    if (!/[*?[]/.test(pattern)) {
+      return (await fs.pathExists(absolute)) || (await isSymlink(absolute)) ? [absolute] : [];
+    }
+
+    const { root } = path.parse(absolute);
+    const segments = absolute.slice(root.length).split(path.sep).filter(Boolean);
+    let current = [root];
+
+    for (const segment of segments) {
+      const next: string[] = [];
+
+      for (const base of current) {
+        if (!/[*?[]/.test(segment)) {
+          const candidate = path.join(base, segment);
+          if ((await fs.pathExists(candidate)) || (await isSymlink(candidate))) next.push(candidate);
+          continue;
+        }
+
+        let entries: string[];
+        try {
+          entries = await fs.readdir(base);
+        } catch {
+          continue;
+        }
+
+        const regex = segmentToRegExp(segment);
+        entries
+          .filter(entry => regex.test(entry))
+          .filter(entry => !entry.startsWith(".") || segment.startsWith("."))
+          .sort()
+          .forEach(entry => next.push(path.join(base, entry)));
+      }
+
+      current = next;
+    }
+
+    return current;
+  }
+
+  private async walk(
+    start: string,
+    preview: DryRunPreview
+  ): Promise<{ files: number; directories: number; size: number }> {
+    const totals = { files: 0, directories: 0, size: 0 };
+    const stack = [start];
+    let visited = 0;
+
+    while (stack.length) {
+      const current = stack.pop()!;
+      if (++visited > MAX_WALK_ENTRIES) {
+        preview.notes.push(`Stopped counting after ${MAX_WALK_ENTRIES} entries; totals are a lower bound.`);
+        break;
+      }
+
+      let stat: fs.Stats;
+      try {
+        stat = await fs.lstat(current);
+      } catch {
+        continue;
+      }
+
+      if (stat.isDirectory()) {
+        totals.directories++;
+        try {
+          const entries = await fs.readdir(current);
+          entries.forEach(entry => stack.push(path.join(current, entry)));
+        } catch {
+          preview.notes.push(`${this.display(current)}: cannot be read`);
+        }
+      } else {
+        totals.files++;
+        totals.size += stat.size;
+      }
+    }
+
+    return totals;
+  }
+
+  private async runNative(argv: string[]): Promise<string> {
+    const [file, ...args] = argv;
+
+    let output: string;
+    try {
+      const { stdout, stderr } = await execFileAsync(file, args, {
+        cwd: this.cwd,
+        timeout: NATIVE_TIMEOUT_MS,
+        maxBuffer: 4 * 1024 * 1024,
+      });
+      output = `${stdout}${stderr}`;
+    } catch (error: any) {
+      output = `${error.stdout ?? ""}${error.stderr ?? ""}` || error.message;
+    }
+
+    const lines = output.trimEnd().split("\n");
+    return lines.length > MAX_NATIVE_LINES
+      ? [...lines.slice(0, MAX_NATIVE_LINES), `... ${lines.length - MAX_NATIVE_LINES} more lines`].join("\n")
+      : lines.join("\n");
+  }
+}
+
+/* -------------------- HELPERS -------------------- */
+
+/**
+ * Read-only command that shows what `command` would do, if there is one.
+ */
+function nativePlan(command: SimpleCommand): NativePlan | null {
+  const { program, args } = command;
+  const [sub, ...rest] = args;
+
+  if (program === "git" && sub === "clean") {
+    const kept = rest
+      .filter(arg => arg !== "--force" && arg !== "-n" && arg !== "--dry-run")
+      .map(arg => (/^-[a-zA-Z]+$/.test(arg) ? arg.replace(/f/g, "") : arg))
+      .filter(arg => arg !== "-");
+    return { argv: ["git", "clean", "-n", ...kept], action: "git clean" };
+  }
+
+  if (program === "git" && sub === "reset" && rest.includes("--hard")) {
+    return { argv: ["git", "status", "--short"], action: "discard uncommitted changes" };
+  }
+
+  if (program === "rsync") {
+    return { argv: ["rsync", "--dry-run", ...args], action: "sync" };
+  }
+
+  if (program === "apt" || program === "apt-get") {
+    return { argv: ["apt-get", "-s", ...args.filter(arg => arg !== "-y" && arg !== "--yes")], action: "package changes" };
+  }
+
+  if (program === "kubectl" && ["apply", "delete", "create", "replace", "patch"].includes(sub)) {
+    return { argv: ["kubectl", ...args, "--dry-run=client"], action: `kubectl ${sub}` };
+  }
+
+  if (program === "find" && args.includes("-delete")) {
+    if (args.some(arg => FIND_SIDE_EFFECTS.has(arg))) return null;
+    return {
+      argv: ["find", ...args.filter(arg => arg !== "-delete"), "-print"],
+      action: "delete matching files",
+    };
+  }
+
+  if (program === "docker") {
+    const words = args.filter(arg => !arg.startsWith("-"));
+    const all = args.some(arg => /^-[a-zA-Z]*a/.test(arg) || arg === "--all");
+    const exited = ["ps", "-a", "--filter", "status=exited", "--format", "{{.ID}}\t{{.Names}}\t{{.Image}}"];
+    const images = ["images", ...(all ? [] : ["-f", "dangling=true"]), "--format", "{{.ID}}\t{{.Repository}}:{{.Tag}}\t{{.Size}}"];
+
+    if (words[0] === "container" && words[1] === "prune") {
+      return { argv: ["docker", ...exited], action: "remove stopped containers" };
+    }
+    if (words[0] === "image" && words[1] === "prune") {
+      return { argv: ["docker", ...images], action: all ? "remove unused images" : "remove dangling images" };
+    }
+    if (words[0] === "volume" && words[1] === "prune") {
+      return { argv: ["docker", "volume", "ls", "-f", "dangling=true"], action: "remove unused volumes" };
+    }
+    if (words[0] === "system" && words[1] === "prune") {
+      // Stopped containers first; unused images depend on them
+      return { argv: ["docker", ...exited], action: "remove stopped containers, networks and images" };
+    }
+  }
+
+  return null;
+}
+
+function dockerObjects(command: SimpleCommand): { action: string; names: string[] } | null {
+  if (command.program !== "docker") return null;
+
+  const words = command.args.filter(arg => !arg.startsWith("-"));
+  const [first, second, ...rest] = words;
+
+  if (first === "rm") return { action: "remove containers", names: words.slice(1) };
+  if (first === "rmi") return { action: "remove images", names: words.slice(1) };
+  if (first === "container" && second === "rm") return { action: "remove containers", names: rest };
+  if (first === "image" && second === "rm") return { action: "remove images", names: rest };
+  if (first === "volume" && second === "rm") return { action: "remove volumes", names: rest };
+
+  return null;
+}
+
+function segmentToRegExp(segment: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < segment.length; i++) {
+    const ch = segment[i];
+    if (ch === "*") source += ".*";
+    else if (ch === "?") source += ".";
+    else if (ch === "[") {
+      const close = segment.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      const body = segment.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+      source += `[${body}]`;
+      i = close;
+    } else {
+      source += ch.replace(/[.+^${}()|\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+async function isSymlink(target: string): Promise<boolean> {
+  try {
+    return (await fs.lstat(target)).isSymbolicLink();
+  } catch {
+    return false;
+  }
+}
+
+function quoteArg(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,118 @@
+import { CommandFailedError, RunOptions, runCommand } from "./command-runner";
+import { stepReferences } from "./step-outputs";
+
+/**
+ * What happens to the remaining steps when one fails: "stop" skips them,
+ * "continue" runs them anyway, "ask" leaves it to the user.
+ */
+export type FailurePolicy = "stop" | "continue" | "ask";
+
+export const FAILURE_POLICIES: FailurePolicy[] = ["stop", "continue", "ask"];
+
+export type StepStatus = "ok" | "failed" | "timed-out" | "cancelled" | "declined" | "not-run";
+
+export interface StepResult {
+  status: StepStatus;
+  exitCode?: number | null; // Only set for steps that ran
+  durationMs?: number;
+  stdout?: string;
+  stderr?: string; // Tail only for steps that did not succeed
+  message?: string; // Why a step that ran did not succeed
+}
+
+export interface StepOptions {
+  onFailure?: FailurePolicy; // Defaults to "stop"
+  timeoutMs?: number; // Per step
+  echo?: NodeJS.WritableStream; // Where step output is shown, process.stdout by default
+  prepare?: (step: number, results: StepResult[]) => Promise<string | null>; // The command to run, null declines
+  onResult?: (step: number, result: StepResult) => Promise<void> | void; // Right after a step ran
+  confirmContinue?: (step: number, result: StepResult) => Promise<boolean>; // For "ask"
+}
+
+/**
+ * Runs the steps one after another and reports how each went, in order;
+ * steps never reached are "not-run". Each step is prepared just before it
+ * runs, with the results so far, so it can use their output; the output
+ * of steps no later step uses is not captured, which leaves them the
+ * terminal (see runCommand). A failing
+ * step never throws: the failure policy decides whether the next one
+ * runs. A step stopped with Ctrl+C ends the run unless the policy is
+ * "ask" and the user continues.
+ */
+export async function runSteps(commands: string[], options: StepOptions = {}): Promise<StepResult[]> {
+  const policy = options.onFailure ?? "stop";
+  const results: StepResult[] = [];
+  const used = new Set(commands.flatMap(command => stepReferences(command).map(ref => ref.step)));
+
+  for (let step = 0; step < commands.length; step++) {
+    const command = options.prepare ? await options.prepare(step, results) : commands[step];
+    if (command === null) {
+      results.push({ status: "declined" });
+      continue;
+    }
+
+    const result = await runStep(command, {
+      timeoutMs: options.timeoutMs,
+      echo: options.echo,
+      capture: used.has(step),
+    });
+    results.push(result);
+    await options.onResult?.(step, result);
+
+    const last = step === commands.length - 1;
+    if (result.status === "ok" || last) continue;
+
+    const proceed =
+      policy === "ask"
+        ? await (options.confirmContinue ?? confirmContinue)(step, result)
+        : policy === "continue" && result.status !== "cancelled";
+
+    if (!proceed) {
+      commands.slice(step + 1).forEach(() => results.push({ status: "not-run" }));
+      break;
+    }
+  }
+
+  return results;
+}
+
+async function runStep(command: string, options: RunOptions): Promise<StepResult> {
+  const started = Date.now();
+
+  try {
+    const output = await runCommand(command, options);
+    return { status: "ok", exitCode: 0, durationMs: Date.now() - started, ...output };
+  } catch (error) {
+    const durationMs = Date.now() - started;
+
+    if (error instanceof CommandFailedError) {
+      return {
+        status: error.kind,
+        exitCode: error.exitCode,
+        durationMs,
+        stdout: error.stdout,
+        stderr: error.stderr,
+        message: error.message,
+      };
+    }
+
+    // The shell itself could not be started
+    const message = error instanceof Error ? error.message : String(error);
+    return { status: "failed", exitCode: null, durationMs, stderr: message, message };
+  }
+}
+
+async function confirmContinue(step: number, result: StepResult): Promise<boolean> {
+  const what =
+    result.status === "timed-out" ? "timed out" : result.status === "cancelled" ? "was cancelled" : "failed";
+  const inquirer = require("inquirer");
+  const { proceed } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "proceed",
+      message: `Step ${step + 1} ${what}. Run the remaining steps?`,
+      default: false,
+    },
+  ]);
+  return proceed;
+}
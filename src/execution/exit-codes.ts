@@ -0,0 +1,32 @@
+import { StepStatus } from "./execution-engine";
+
+/**
+ * How a request to ai ended, as reported by --json.
+ */
+export type Outcome = "ok" | "dry-run" | "unresolved" | "blocked" | "declined" | "step-failed";
+
+/**
+ * The exit code for each outcome, for scripts to rely on. 1 is left to
+ * errors of ai itself and to invalid options.
+ */
+export const EXIT_CODES: Record<Outcome, number> = {
+  ok: 0,
+  "dry-run": 0,
+  unresolved: 3,
+  blocked: 4,
+  declined: 5,
+  "step-failed": 6,
+};
+
+/**
+ * The outcome of running the steps: the first one that did not succeed
+ * decides it, since later ones were either skipped because of it or run
+ * regardless.
+ */
+export function stepsOutcome(statuses: Array<StepStatus | "blocked">): Outcome {
+  for (const status of statuses) {
+    if (status === "blocked" || status === "declined") return status;
+    if (status === "failed" || status === "timed-out" || status === "cancelled") return "step-failed";
+  }
+  return "ok";
+}
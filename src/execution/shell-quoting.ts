@@ -0,0 +1,132 @@
+/**
+ * A shell commands are written for. Each quotes values differently, see
+ * quotingFor().
+ */
+export type TargetShell = "sh" | "bash" | "zsh" | "fish" | "powershell" | "cmd";
+
+export class QuotingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotingError";
+  }
+}
+
+export interface Quoting {
+  escape: string; // Escapes the next character outside quotes
+  single: string; // Characters opening and closing literal strings
+  double: string; // Characters opening and closing expandable strings
+  singleEnd(command: string, open: number): number; // Index of the closing quote
+  doubleEnd(command: string, open: number): number;
+  bare(value: string): string; // The value as one literal word
+  inSingle(value: string): string; // The value inside a literal string
+  inDouble(value: string): string; // The value inside an expandable string
+}
+
+/**
+ * The value as one literal word for the shell, quoted only when needed.
+ */
+export function quoteArgument(value: string, shell: TargetShell): string {
+  return quotingFor(shell).bare(value);
+}
+
+export function quotingFor(shell: TargetShell): Quoting {
+  switch (shell) {
+    case "fish":
+      return FISH;
+    case "powershell":
+      return POWERSHELL;
+    case "cmd":
+      return CMD;
+    default:
+      return POSIX;
+  }
+}
+
+/**
+ * Index of the first `closers` character after `open`, skipping
+ * characters escaped with `escape`; the end of the command when unclosed.
+ */
+function closingQuote(command: string, open: number, closers: string, escape?: string): number {
+  let end = open + 1;
+  while (end < command.length && !closers.includes(command[end])) {
+    end += command[end] === escape ? 2 : 1;
+  }
+  return Math.min(end, command.length);
+}
+
+/* -------------------- POSIX (sh, bash, zsh) -------------------- */
+
+// Words may not start with = (zsh expands =cmd to its path) or ~, and
+// ! is kept out of double quotes, where bash and zsh expand history
+const POSIX: Quoting = {
+  escape: "\\",
+  single: "'",
+  double: '"',
+  singleEnd: (command, open) => closingQuote(command, open, "'"),
+  doubleEnd: (command, open) => closingQuote(command, open, '"', "\\"),
+  bare: value =>
+    /^[\w@%+:,./-][\w@%+=:,./-]*$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`,
+  inSingle: value => value.replace(/'/g, "'\\''"),
+  inDouble: value => value.replace(/[\\$`"]/g, "\\$&").replace(/!/g, `"'!'"`),
+};
+
+/* -------------------- FISH -------------------- */
+
+// fish unescapes \' and \\ inside single quotes too
+const FISH: Quoting = {
+  escape: "\\",
+  single: "'",
+  double: '"',
+  singleEnd: (command, open) => closingQuote(command, open, "'", "\\"),
+  doubleEnd: (command, open) => closingQuote(command, open, '"', "\\"),
+  bare: value => (/^[\w@+:,./-][\w@+=:,./-]*$/.test(value) ? value : `'${value.replace(/[\\']/g, "\\$&")}'`),
+  inSingle: value => value.replace(/[\\']/g, "\\$&"),
+  inDouble: value => value.replace(/[\\$"]/g, "\\$&"),
+};
+
+/* -------------------- POWERSHELL -------------------- */
+
+// PowerShell also takes typographic quotes as quotes; '' is a literal '
+const POWERSHELL: Quoting = {
+  escape: "`",
+  single: "'‘’‚‛",
+  double: '"“”„',
+  singleEnd: (command, open) => {
+    let end = open + 1;
+    while (end < command.length) {
+      if (POWERSHELL.single.includes(command[end])) {
+        if (!POWERSHELL.single.includes(command[end + 1] ?? "")) return end;
+        end += 2;
+      } else {
+        end++;
+      }
+    }
+    return end;
+  },
+  doubleEnd: (command, open) => closingQuote(command, open, POWERSHELL.double, "`"),
+  bare: value =>
+    /^[\w./\\:][\w./\\:-]*$/.test(value) ? value : `'${value.replace(/['‘’‚‛]/g, "$&$&")}'`,
+  inSingle: value => value.replace(/['‘’‚‛]/g, "$&$&"),
+  inDouble: value => value.replace(/[`$"“”„]/g, "`$&"),
+};
+
+/* -------------------- CMD -------------------- */
+
+// cmd has no literal strings: inside double quotes "" is a literal " and
+// % and ! still expand, so they are escaped with ^ between two quotes.
+// A line break always ends the command, so it cannot be quoted at all.
+const CMD: Quoting = {
+  escape: "^",
+  single: "",
+  double: '"',
+  singleEnd: (command, open) => open,
+  doubleEnd: (command, open) => closingQuote(command, open, '"'),
+  bare: value => (/^[\w@+:./\\-]+$/.test(value) ? value : `"${CMD.inDouble(value)}"`),
+  inSingle: value => value,
+  inDouble: value => {
+    if (/[\r\n]/.test(value)) {
+      throw new QuotingError("cmd cannot take a value spanning several lines");
+    }
+    return value.replace(/"/g, '""').replace(/[%!]/g, '"^$&"');
+  },
+};
@@ -0,0 +1,75 @@
+import { STEP_OUTPUT_PATTERN, VARIABLE_PATTERN } from "../storage/vault-format";
+import { StepResult } from "./execution-engine";
+
+export interface StepReference {
+  name: string; // As written, e.g. step1.stdout
+  step: number; // Index into the commands
+  stream: "stdout" | "stderr";
+}
+
+/**
+ * The {stepN.stdout} / {stepN.stderr} outputs a command uses. Steps are
+ * numbered from 1 in commands, like in every listing.
+ */
+export function stepReferences(command: string): StepReference[] {
+  const references: StepReference[] = [];
+
+  for (const [, name] of command.matchAll(VARIABLE_PATTERN)) {
+    const match = STEP_OUTPUT_PATTERN.exec(name);
+    if (match && !references.some(r => r.name === name)) {
+      references.push({ name, step: Number(match[1]) - 1, stream: match[2] as StepReference["stream"] });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Problems with the step outputs the commands use: a step can only use
+ * the output of a step that runs before it.
+ */
+export function checkStepReferences(commands: string[]): string[] {
+  return commands.flatMap((command, i) =>
+    stepReferences(command)
+      .filter(ref => ref.step >= i)
+      .map(ref => `step ${i + 1} uses {${ref.name}}, but step ${ref.step + 1} does not run before it`)
+  );
+}
+
+/**
+ * Rewrites {NAME} to {stepN.stdout} in the steps after the one that
+ * captures its output as NAME, so plans only need step references from
+ * then on. Names used before they are captured are left alone.
+ */
+export function inlineCaptures(commands: string[], captures: Array<string | undefined>): string[] {
+  const captured = new Map<string, string>();
+
+  return commands.map((command, i) => {
+    const inlined = command.replace(VARIABLE_PATTERN, (whole, name) =>
+      captured.has(name) ? `{${captured.get(name)}}` : whole
+    );
+    const capture = captures[i];
+    if (capture) captured.set(capture, `step${i + 1}.stdout`);
+    return inlined;
+  });
+}
+
+/**
+ * Values for the step outputs a command uses, from the steps run so far,
+ * without trailing newlines (like $(...) in a shell). Null when a step
+ * it needs has not run.
+ */
+export function stepOutputValues(
+  command: string,
+  results: StepResult[]
+): { [name: string]: string } | null {
+  const values: { [name: string]: string } = {};
+
+  for (const ref of stepReferences(command)) {
+    const result = results[ref.step];
+    if (result?.exitCode === undefined) return null;
+    values[ref.name] = (result[ref.stream] ?? "").replace(/[\r\n]+$/, "");
+  }
+
+  return values;
+}
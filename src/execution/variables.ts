@@ -0,0 +1,257 @@
+import os from "os";
+import path from "path";
+import * as fs from "fs-extra";
+import { VARIABLE_PATTERN } from "../storage/vault-format";
+import { VariableSpec, Variables } from "../types";
+import { captureCommand, runnerShell } from "./command-runner";
+import { TargetShell, quotingFor } from "./shell-quoting";
+
+const CHOICES_TIMEOUT_MS = 10_000;
+
+export class VariableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VariableError";
+  }
+}
+
+export interface VariableOptions {
+  preset?: { [name: string]: string }; // --var name=value, not prompted for
+  canRun?: (command: string) => Promise<boolean>; // Whether a choicesCommand may run
+  cwd?: string; // Where relative file paths are checked
+  interactive?: boolean; // false: use defaults instead of prompting
+}
+
+/**
+ * A value for every variable. Preset values are checked like typed ones
+ * (an invalid one throws VariableError); the others are prompted for with
+ * the widget for their type: a list for enums, a hidden input for
+ * secrets, a validated text input otherwise. When nobody can be asked,
+ * defaults are used and a variable without one throws VariableError.
+ */
+export async function resolveVariables(
+  variables: Variables,
+  options: VariableOptions = {}
+): Promise<{ [name: string]: string }> {
+  const preset = options.preset ?? {};
+  const cwd = options.cwd ?? process.cwd();
+
+  const unknown = Object.keys(preset).filter(name => !(name in variables));
+  if (unknown.length) {
+    console.warn(`Ignoring --var ${unknown.join(", ")}: the command has no such variable`);
+  }
+
+  const values: { [name: string]: string } = {};
+  for (const [name, declared] of Object.entries(variables)) {
+    const spec = await withChoices(name, declared, options);
+
+    if (name in preset) {
+      const value = normalize(spec, preset[name]);
+      const problem = await validateValue(spec, value, cwd);
+      if (problem) throw new VariableError(`--var ${name}: ${problem}`);
+      values[name] = value;
+      continue;
+    }
+
+    if (options.interactive === false) {
+      if (spec.default === undefined) {
+        throw new VariableError(`No value for {${name}}; pass --var ${name}=<value>`);
+      }
+      const value = normalize(spec, spec.default);
+      const problem = await validateValue(spec, value, cwd);
+      if (problem) throw new VariableError(`Default for {${name}}: ${problem}`);
+      values[name] = value;
+      continue;
+    }
+
+    const inquirer = require("inquirer");
+    const answers = await inquirer.prompt([question(name, spec, cwd)]);
+    const answer = answers[name] === "" && spec.default !== undefined ? spec.default : answers[name];
+    values[name] = normalize(spec, answer);
+  }
+
+  return values;
+}
+
+/**
+ * Why `value` is not acceptable for the variable, or null when it is.
+ * Values are expected normalized (trimmed, ~ expanded).
+ */
+export async function validateValue(
+  spec: VariableSpec,
+  value: string,
+  cwd: string = process.cwd()
+): Promise<string | null> {
+  const type = spec.type ?? "string";
+
+  if (!value && type !== "string" && type !== "secret") return "a value is required";
+  if (type === "int" && !/^[+-]?\d+$/.test(value)) return "must be a whole number";
+  if (type === "enum" && spec.choices?.length && !spec.choices.includes(value)) {
+    return `must be one of ${spec.choices.join(", ")}`;
+  }
+  if (type === "file") {
+    const stat = await fs.stat(path.resolve(cwd, value)).catch(() => null);
+    if (!stat?.isFile()) return `${value} is not an existing file`;
+  }
+  if (spec.pattern && !new RegExp(`^(?:${spec.pattern})$`).test(value)) {
+    return `must match ${spec.pattern}`;
+  }
+  return null;
+}
+
+/**
+ * The spec with the output of its choicesCommand added to its choices.
+ * When the command may not run or fails, an enum without static choices
+ * is prompted for as free text.
+ */
+async function withChoices(
+  name: string,
+  spec: VariableSpec,
+  options: VariableOptions
+): Promise<VariableSpec> {
+  if (spec.type !== "enum") return spec;
+
+  const choices = [...(spec.choices ?? [])];
+  const command = spec.choicesCommand;
+
+  if (command && options.canRun && !(await options.canRun(command))) {
+    console.warn(`Not listing choices for {${name}}: "${command}" did not pass the safety checks`);
+  } else if (command) {
+    try {
+      const output = await captureCommand(command, CHOICES_TIMEOUT_MS);
+      for (const line of output.split(/\r?\n/)) {
+        const choice = line.trim();
+        if (choice && !choices.includes(choice)) choices.push(choice);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`Could not list choices for {${name}} with "${command}": ${reason}`);
+    }
+  }
+
+  return choices.length ? { ...spec, choices } : { ...spec, type: "string", choices: undefined };
+}
+
+function question(name: string, spec: VariableSpec, cwd: string) {
+  const about = spec.description ? ` (${spec.description})` : "";
+  const message = `Enter value for ${name}${about}:`;
+  const validate = async (input: string) =>
+    (await validateValue(spec, normalize(spec, input === "" ? spec.default ?? "" : input), cwd)) ?? true;
+
+  switch (spec.type) {
+    case "enum":
+      return {
+        type: "list",
+        name,
+        message: `Choose ${name}${about}:`,
+        choices: spec.choices,
+        default: spec.default,
+      };
+    case "secret":
+      return { type: "password", name, message, mask: "*", validate };
+    default:
+      return { type: "input", name, message, default: spec.default, validate };
+  }
+}
+
+/**
+ * Whole numbers and paths are trimmed; paths also get ~ expanded, since
+ * quoting the value keeps the shell from doing it.
+ */
+function normalize(spec: VariableSpec, value: string): string {
+  if (spec.type === "int") return value.trim();
+  if (spec.type !== "path" && spec.type !== "file") return value;
+
+  const trimmed = value.trim();
+  if (trimmed === "~") return os.homedir();
+  return /^~[/\\]/.test(trimmed) ? path.join(os.homedir(), trimmed.slice(2)) : trimmed;
+}
+
+/**
+ * The values safe to show and log: secrets are left out, so their
+ * {placeholders} stay in the commands printed and recorded.
+ */
+export function visibleValues(
+  variables: Variables,
+  values: { [name: string]: string }
+): { [name: string]: string } {
+  return Object.fromEntries(
+    Object.entries(values).filter(([name]) => variables[name]?.type !== "secret")
+  );
+}
+
+/**
+ * One line describing a variable for listings, e.g.
+ * "Target environment (one of dev, prod; default dev)".
+ */
+export function describeVariable(spec: VariableSpec): string {
+  const details = [
+    spec.type && spec.type !== "string" && spec.type !== "enum" ? spec.type : "",
+    spec.choices?.length ? `one of ${spec.choices.join(", ")}` : "",
+    spec.choicesCommand ? `choices from ${spec.choicesCommand}` : "",
+    spec.pattern ? `matching ${spec.pattern}` : "",
+    spec.default !== undefined && spec.type !== "secret" ? `default ${spec.default}` : "",
+  ].filter(Boolean);
+
+  return [spec.description, details.length ? `(${details.join("; ")})` : ""].filter(Boolean).join(" ");
+}
+
+/* -------------------- SUBSTITUTION -------------------- */
+
+/**
+ * Puts the values into the {placeholders} as plain text, for messages.
+ * Use substituteVariables() for commands that will run.
+ */
+export function fillVariables(text: string, values: { [name: string]: string }): string {
+  return text.replace(VARIABLE_PATTERN, (whole, name) => values[name] ?? whole);
+}
+
+/**
+ * Puts the values into the {placeholders} of a command, quoted for the
+ * shell that runs it so each one stays literal text: a bare placeholder
+ * becomes a quoted word, one inside quotes is escaped for those quotes.
+ * Placeholders without a value are left as they are. Throws QuotingError
+ * for a value the shell cannot take literally.
+ */
+export function substituteVariables(
+  command: string,
+  values: { [name: string]: string },
+  shell: TargetShell = runnerShell()
+): string {
+  const quoting = quotingFor(shell);
+  const fill = (text: string, escape: (value: string) => string) =>
+    text.replace(VARIABLE_PATTERN, (whole, name) => (name in values ? escape(values[name]) : whole));
+
+  let result = "";
+  let i = 0;
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === quoting.escape) {
+      result += command.slice(i, i + 2);
+      i += 2;
+    } else if (quoting.single.includes(ch)) {
+      const end = quoting.singleEnd(command, i);
+      result += ch + fill(command.slice(i + 1, end), quoting.inSingle) + command.slice(end, end + 1);
+      i = end + 1;
+    } else if (quoting.double.includes(ch)) {
+      const end = quoting.doubleEnd(command, i);
+      result += ch + fill(command.slice(i + 1, end), quoting.inDouble) + command.slice(end, end + 1);
+      i = end + 1;
+    } else {
+      let end = i;
+      while (
+        end < command.length &&
+        command[end] !== quoting.escape &&
+        !quoting.single.includes(command[end]) &&
+        !quoting.double.includes(command[end])
+      ) {
+        end++;
+      }
+      result += fill(command.slice(i, end), quoting.bare);
+      i = end;
+    }
+  }
+
+  return result;
+}
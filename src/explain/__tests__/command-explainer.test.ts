@@ -0,0 +1,110 @@
+import { execFile } from 'child_process';
+import { CommandExplainer } from '../command-explainer';
+
+jest.mock('child_process');
+
+const mockedExecFile = execFile as unknown as jest.Mock;
+
+const RM_MAN_PAGE = `RM(1)                     User Commands                    RM(1)
+
+NAME
+       rm - remove files or directories
+
+OPTIONS
+       -f, --force
+              ignore nonexistent files and arguments, never prompt
+
+       -r, -R, --recursive
+              remove directories and their contents recursively
+`;
+
+describe('CommandExplainer', () => {
+  const aiService = { explainCommand: jest.fn() };
+  const validator = { validate: jest.fn() };
+  const osAdapter = { isCommandAvailable: jest.fn() };
+  const osInfo = { platform: 'linux' as const, arch: 'x64', shell: 'bash' };
+  let explainer: CommandExplainer;
+
+  beforeEach(() => {
+    validator.validate.mockResolvedValue({ blocked: false, warning: 'Recursive deletion', riskLevel: 'high' });
+    osAdapter.isCommandAvailable.mockReturnValue(true);
+    mockedExecFile.mockImplementation((_file, _args, _opts, callback) =>
+      callback(null, { stdout: RM_MAN_PAGE, stderr: '' })
+    );
+    explainer = new CommandExplainer(aiService as any, validator as any, osAdapter as any);
+  });
+
+  it('should use the AI explanation when available', async () => {
+    aiService.explainCommand.mockResolvedValue({
+      summary: 'Deletes the build folder',
+      parts: [{ text: 'rm', kind: 'program', explanation: 'remove' }],
+    });
+
+    const result = await explainer.explain('rm -rf build', osInfo);
+
+    expect(result.source).toBe('ai');
+    expect(result.summary).toBe('Deletes the build folder');
+    expect(result.safety.warning).toBe('Recursive deletion');
+    expect(mockedExecFile).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to local documentation when the AI is unavailable', async () => {
+    aiService.explainCommand.mockResolvedValue(null);
+
+    const result = await explainer.explain('rm -rf build', osInfo);
+
+    expect(result.source).toBe('local');
+    expect(result.summary).toBe('rm: remove files or directories');
+    expect(result.parts[1]).toEqual({
+      text: '-rf',
+      kind: 'flag',
+      explanation:
+        '-r: remove directories and their contents recursively; -f: ignore nonexistent files and arguments, never prompt',
+    });
+    expect(result.parts[2].kind).toBe('argument');
+  });
+
+  it('should never call the AI in offline mode', async () => {
+    await explainer.explain('rm -rf build', osInfo, true);
+
+    expect(aiService.explainCommand).not.toHaveBeenCalled();
+  });
+
+  describe('without a man page', () => {
+    const HELP = 'Usage: frob [OPTIONS]\nFrobnicates files\n  -a, --all  frobnicate everything\n';
+
+    beforeEach(() => {
+      mockedExecFile.mockImplementation((file, _args, _opts, callback) =>
+        file === 'man'
+          ? callback(Object.assign(new Error('exit 16'), { stdout: '', stderr: 'No manual entry for frob' }))
+          : callback(null, { stdout: HELP, stderr: '' })
+      );
+    });
+
+    it('should not run the program itself by default', async () => {
+      const result = await explainer.explain('frob --all', osInfo, true);
+
+      expect(mockedExecFile.mock.calls.map(call => call[0])).toEqual(['man']);
+      expect(result.parts[0].explanation).toContain('no local documentation');
+    });
+
+    it('should read --help output when asked to', async () => {
+      explainer = new CommandExplainer(aiService as any, validator as any, osAdapter as any, true);
+
+      const result = await explainer.explain('frob --all', osInfo, true);
+
+      expect(mockedExecFile).toHaveBeenCalledWith('frob', ['--help'], expect.any(Object), expect.any(Function));
+      expect(result.summary).toBe('frob: Frobnicates files');
+      expect(result.parts[1].explanation).toBe('--all: frobnicate everything');
+    });
+  });
+
+  it('should not run programs that are not on PATH', async () => {
+    osAdapter.isCommandAvailable.mockReturnValue(false);
+
+    const result = await explainer.explain('frobnicate --all', osInfo, true);
+
+    expect(mockedExecFile).not.toHaveBeenCalled();
+    expect(result.parts[0].explanation).toContain('no local documentation');
+  });
+});
@@ -0,0 +1,288 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  CommandExplanation,
+  CommandPartExplanation,
+  OS,
+} from "../types";
+import { AIService } from "../core/ai-service";
+import { SafetyValidator } from "../safety/safety-validator";
+import { OSAdapter } from "../os/os-adapter";
+import { tokenize } from "../parser/command-parser";
+
+const execFileAsync = promisify(execFile);
+
+const HELP_TIMEOUT_MS = 3000;
+
+// man page bold/underline: a character followed by a backspace
+const OVERSTRIKE = new RegExp(`.${String.fromCharCode(8)}`, "g");
+
+// Never invoked with --help, even when asked: some implementations ignore
+// unknown flags
+const NEVER_RUN_FOR_HELP = new Set([
+  "reboot", "shutdown", "halt", "poweroff", "init", "telinit",
+  "kill", "killall", "pkill", "rm", "dd", "format", "diskpart",
+]);
+
+const OPERATOR_EXPLANATIONS: Record<string, string> = {
+  "|": "Pipe: sends the output of the previous command into the next one",
+  "||": "Runs the next command only if the previous one failed",
+  "&&": "Runs the next command only if the previous one succeeded",
+  ";": "Runs the next command after the previous one, regardless of its result",
+  "&": "Runs the previous command in the background",
+};
+
+const REDIRECTION_EXPLANATIONS: Record<string, string> = {
+  ">": "Writes output to a file, replacing its contents",
+  ">>": "Appends output to a file",
+  "<": "Reads input from a file",
+  "2>": "Writes error output to a file",
+  "2>>": "Appends error output to a file",
+  "2>&1": "Sends error output to the same place as normal output",
+  "&>": "Writes both output and errors to a file",
+};
+
+/**
+ * Explains an existing command without running it: AI first, then a local
+ * breakdown built from man pages when offline. `<program> --help` runs a
+ * program from the command being explained, so it is only tried when the
+ * caller opts in with `runHelp`.
+ */
+export class CommandExplainer {
+  private aiService: AIService;
+  private validator: SafetyValidator;
+  private osAdapter: OSAdapter;
+  private runHelp: boolean;
+  private helpCache = new Map<string, string | null>();
+
+  constructor(
+    aiService: AIService,
+    validator: SafetyValidator,
+    osAdapter: OSAdapter,
+    runHelp: boolean = false
+  ) {
+    this.aiService = aiService;
+    this.validator = validator;
+    this.osAdapter = osAdapter;
+    this.runHelp = runHelp;
+  }
+
+  async explain(
+    command: string,
+    osInfo: OS,
+    offline: boolean = false
+  ): Promise<CommandExplanation> {
+    const safety = await this.validator.validate({
+      commands: [command],
+      explanation: "",
+      tags: [],
+      confidence: 1,
+      source: "rule",
+    });
+
+    const fromAI = offline
+      ? null
+      : await this.aiService.explainCommand(command, osInfo);
+
+    if (fromAI) {
+      return { command, ...fromAI, safety, source: "ai" };
+    }
+
+    const local = await this.explainLocally(command, osInfo);
+    return { command, ...local, safety, source: "local" };
+  }
+
+  /* -------------------- LOCAL FALLBACK -------------------- */
+
+  private async explainLocally(
+    command: string,
+    osInfo: OS
+  ): Promise<{ summary: string; parts: CommandPartExplanation[] }> {
+    const { tokens } = tokenize(
+      command,
+      osInfo.platform === "windows" ? "powershell" : "posix"
+    );
+    const parts: CommandPartExplanation[] = [];
+    const summaries: string[] = [];
+
+    let program: string | null = null;
+    let help: string | null = null;
+    let expectProgram = true;
+    let afterRedirection = false;
+
+    for (const token of tokens) {
+      if (token.kind === "operator") {
+        parts.push({
+          text: token.text,
+          kind: "operator",
+          explanation: OPERATOR_EXPLANATIONS[token.text] ?? "Shell operator",
+        });
+        expectProgram = true;
+        continue;
+      }
+
+      if (token.kind === "redirection") {
+        parts.push({
+          text: token.text,
+          kind: "redirection",
+          explanation: REDIRECTION_EXPLANATIONS[token.text] ?? "Redirection",
+        });
+        afterRedirection = !/&(\d+|-)$/.test(token.text);
+        continue;
+      }
+
+      if (token.kind === "subshell") {
+        parts.push({
+          text: token.raw,
+          kind: "argument",
+          explanation: "Runs these commands in a subshell",
+        });
+        expectProgram = false;
+        continue;
+      }
+
+      if (afterRedirection) {
+        parts.push({
+          text: token.text,
+          kind: "argument",
+          explanation: "Redirection target",
+        });
+        afterRedirection = false;
+        continue;
+      }
+
+      if (expectProgram && /^\w+=/.test(token.text)) {
+        parts.push({
+          text: token.text,
+          kind: "argument",
+          explanation: "Sets an environment variable for this command",
+        });
+        continue;
+      }
+
+      if (expectProgram) {
+        program = token.text;
+        help = await this.loadHelp(program);
+        const description = describeProgram(program, help);
+        summaries.push(description);
+        parts.push({ text: token.text, kind: "program", explanation: description });
+        expectProgram = false;
+        continue;
+      }
+
+      if (token.text.startsWith("-") && token.text.length > 1) {
+        parts.push({
+          text: token.text,
+          kind: "flag",
+          explanation: describeFlag(token.text, help),
+        });
+        continue;
+      }
+
+      parts.push({
+        text: token.text,
+        kind: "argument",
+        explanation: program ? `Argument to ${program}` : "Argument",
+      });
+    }
+
+    return {
+      summary: summaries.length
+        ? summaries.join(" → ")
+        : "Could not identify any program in this command.",
+      parts,
+    };
+  }
+
+  private async loadHelp(program: string): Promise<string | null> {
+    if (this.helpCache.has(program)) {
+      return this.helpCache.get(program) ?? null;
+    }
+
+    let help: string | null = null;
+
+    // Only look up plain program names that exist on PATH
+    if (/^[\w.+-]+$/.test(program) && this.osAdapter.isCommandAvailable(program)) {
+      help =
+        (process.platform !== "win32" &&
+          (await readOutput("man", ["-P", "cat", program]))) ||
+        (this.runHelp && !NEVER_RUN_FOR_HELP.has(program)
+          ? await readOutput(program, ["--help"])
+          : null);
+    }
+
+    this.helpCache.set(program, help);
+    return help;
+  }
+}
+
+/* -------------------- HELPERS -------------------- */
+
+async function readOutput(file: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout, stderr } = await execFileAsync(file, args, {
+      timeout: HELP_TIMEOUT_MS,
+      maxBuffer: 2 * 1024 * 1024,
+      env: { ...process.env, MANPAGER: "cat", MANWIDTH: "100" },
+    });
+    // Strip man page overstrike formatting (bold/underline)
+    const text = (stdout || stderr).replace(OVERSTRIKE, "");
+    return text.trim() ? text : null;
+  } catch (error: any) {
+    // Many tools print --help to stderr and exit non-zero
+    const text = `${error.stdout ?? ""}${error.stderr ?? ""}`.replace(OVERSTRIKE, "");
+    return text.trim() && !/no manual entry/i.test(text) ? text : null;
+  }
+}
+
+function describeProgram(program: string, help: string | null): string {
+  if (!help) return `Runs ${program} (no local documentation found)`;
+
+  // man pages: "NAME\n       rm - remove files or directories"
+  const nameSection = help.match(/^NAME\s*\n\s+(.+)$/m);
+  if (nameSection) {
+    const [, description] = nameSection[1].split(/\s+[-–]\s+/, 2);
+    if (description) return `${program}: ${description.trim()}`;
+  }
+
+  const firstLine = help
+    .split("\n")
+    .map(line => line.trim())
+    .find(line => line && !/^usage:/i.test(line));
+
+  return firstLine ? `${program}: ${firstLine}` : `Runs ${program}`;
+}
+
+function describeFlag(flag: string, help: string | null): string {
+  // Combined short flags: -rf → -r, -f
+  const flags =
+    /^-[a-zA-Z]{2,}$/.test(flag)
+      ? flag.slice(1).split("").map(letter => `-${letter}`)
+      : [flag.split("=")[0]];
+
+  const descriptions = flags.map(f => {
+    const found = help ? findFlagDescription(f, help) : null;
+    return found ? `${f}: ${found}` : `${f}: option (not documented locally)`;
+  });
+
+  return descriptions.join("; ");
+}
+
+function findFlagDescription(flag: string, help: string): string | null {
+  const lines = help.split("\n");
+  const escaped = flag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const optionLine = new RegExp(`^\\s*(?:-[\\w-]+[=\\w\\[\\]<>]*,?\\s+)*${escaped}(?![\\w-])`);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!optionLine.test(lines[i])) continue;
+
+    // Description on the same line after a run of spaces, or on the next line
+    const sameLine = lines[i].trim().split(/\s{2,}/).slice(1).join(" ").trim();
+    if (sameLine) return sameLine;
+
+    const next = lines[i + 1]?.trim();
+    if (next) return next;
+  }
+
+  return null;
+}
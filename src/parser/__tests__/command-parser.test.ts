@@ -0,0 +1,142 @@
+import { parseCommandLine, splitTopLevel, tokenize } from '../command-parser';
+
+const programs = (input: string, dialect: 'posix' | 'powershell' = 'posix') =>
+  parseCommandLine(input, dialect).commands.map(c => c.program);
+
+describe('tokenize', () => {
+  it('should split words, operators and redirections', () => {
+    const { tokens } = tokenize('find . -name "*.log" | xargs rm 2>/dev/null && echo done', 'posix');
+    expect(tokens.map(t => [t.text, t.kind])).toEqual([
+      ['find', 'word'],
+      ['.', 'word'],
+      ['-name', 'word'],
+      ['*.log', 'word'],
+      ['|', 'operator'],
+      ['xargs', 'word'],
+      ['rm', 'word'],
+      ['2>', 'redirection'],
+      ['/dev/null', 'word'],
+      ['&&', 'operator'],
+      ['echo', 'word'],
+      ['done', 'word'],
+    ]);
+  });
+
+  it('should keep quoted operators inside words', () => {
+    expect(tokenize("echo 'a | b; c'", 'posix').tokens.map(t => t.text)).toEqual(['echo', 'a | b; c']);
+  });
+
+  it('should recognise fd duplication', () => {
+    expect(tokenize('make >build.log 2>&1', 'posix').tokens.map(t => t.text)).toEqual([
+      'make', '>', 'build.log', '2>&1',
+    ]);
+  });
+
+  it('should report unterminated quotes', () => {
+    expect(tokenize('echo "oops', 'posix').errors).toEqual(['Unterminated double quote']);
+  });
+
+  it('should treat backslashes as path separators in PowerShell', () => {
+    expect(tokenize('Remove-Item C:\\Temp\\x', 'powershell').tokens.map(t => t.text)).toEqual([
+      'Remove-Item', 'C:\\Temp\\x',
+    ]);
+  });
+});
+
+describe('parseCommandLine', () => {
+  it('should find every command across operators and subshells', () => {
+    expect(programs('cd /tmp; (ls -la && rm -rf x) || echo "failed; really"')).toEqual([
+      'cd', 'ls', 'rm', 'echo',
+    ]);
+  });
+
+  it('should normalize program paths and escapes', () => {
+    expect(programs('/bin/rm a; \\rm b; "rm" c')).toEqual(['rm', 'rm', 'rm']);
+  });
+
+  it('should strip env assignments and wrappers', () => {
+    const [cmd] = parseCommandLine('FOO=1 sudo -u root env -i BAR=2 nice -n 5 rm -rf /', 'posix').commands;
+
+    expect(cmd.program).toBe('rm');
+    expect(cmd.args).toEqual(['-rf', '/']);
+    expect(cmd.assignments).toEqual(['FOO=1', 'BAR=2']);
+    expect(cmd.wrappers).toEqual(['sudo', 'env', 'nice']);
+  });
+
+  it('should see through xargs and timeout', () => {
+    expect(programs('find . | xargs -n 1 rm; timeout -s KILL 5 dd if=a of=b')).toEqual([
+      'find', 'rm', 'dd',
+    ]);
+  });
+
+  it('should parse the commands find runs with -exec and -execdir', () => {
+    const { commands } = parseCommandLine('find . -name "*.tmp" -exec rm -rf {} + -execdir shred -u {} \\; -print', 'posix');
+
+    expect(commands.map(c => [c.program, c.args])).toEqual([
+      ['find', ['.', '-name', '*.tmp', '-exec', 'rm', '-rf', '{}', '+', '-execdir', 'shred', '-u', '{}', ';', '-print']],
+      ['rm', ['-rf', '{}']],
+      ['shred', ['-u', '{}']],
+    ]);
+    expect(commands[1]).toMatchObject({ nested: true, parent: 0, text: 'rm -rf {}' });
+  });
+
+  it('should parse command substitutions as nested commands', () => {
+    const { commands } = parseCommandLine('echo "today is $(date +%F)" `whoami`', 'posix');
+
+    expect(commands.map(c => c.program)).toEqual(['echo', 'date', 'whoami']);
+    expect(commands[1]).toMatchObject({ nested: true, parent: 0 });
+  });
+
+  it('should resolve programs built from literal echo substitutions', () => {
+    const [cmd] = parseCommandLine('$(echo rm) -rf /', 'posix').commands;
+
+    expect(cmd.program).toBe('rm');
+    expect(cmd.dynamicProgram).toBe(false);
+  });
+
+  it('should flag programs that are only known at runtime', () => {
+    const [cmd] = parseCommandLine('$TOOL -rf /', 'posix').commands;
+    expect(cmd.dynamicProgram).toBe(true);
+  });
+
+  it('should parse scripts handed to sh -c and eval', () => {
+    expect(programs(`bash -c 'rm -rf ~' ; eval "shred x"`)).toEqual(['bash', 'rm', 'eval', 'shred']);
+  });
+
+  it('should collect redirections with their targets', () => {
+    const [cmd] = parseCommandLine('echo hi >> /etc/passwd 2>&1', 'posix').commands;
+
+    expect(cmd.args).toEqual(['hi']);
+    expect(cmd.redirections).toEqual([
+      { op: '>>', target: '/etc/passwd' },
+      { op: '2>&1', target: '' },
+    ]);
+  });
+
+  it('should record the operator joining each command', () => {
+    const { commands } = parseCommandLine('curl -s x | sh && echo ok', 'posix');
+    expect(commands.map(c => c.operator)).toEqual([null, '|', '&&']);
+  });
+
+  it('should handle the PowerShell call operator', () => {
+    expect(programs('& "C:\\Tools\\Setup.exe" /quiet; Get-ChildItem', 'powershell')).toEqual([
+      'setup', 'get-childitem',
+    ]);
+  });
+});
+
+describe('splitTopLevel', () => {
+  it('should split on top-level && and ; only', () => {
+    expect(splitTopLevel('mkdir -p "a && b"; cd $(echo a; echo b) && ls || true', ['&&', ';'], 'posix')).toEqual([
+      'mkdir -p "a && b"',
+      'cd $(echo a; echo b)',
+      'ls || true',
+    ]);
+  });
+
+  it('should return the command unchanged when there is nothing to split', () => {
+    expect(splitTopLevel("git log --format='%h; %s'", ['&&', ';'], 'posix')).toEqual([
+      "git log --format='%h; %s'",
+    ]);
+  });
+});
@@ -0,0 +1,709 @@
+/**
+ * Shell-aware command line parser used by the safety checks, the AI
+ * response splitter and `ai explain`. It does not evaluate anything: it
+ * only understands enough of POSIX sh / PowerShell syntax to find every
+ * program that would run and the arguments it would receive.
+ */
+
+export type ShellDialect = "posix" | "powershell";
+
+export type Operator = ";" | "&&" | "||" | "|" | "&";
+
+export interface Token {
+  kind: "word" | "operator" | "redirection" | "subshell";
+  text: string; // Unquoted value for words, inner source for subshells
+  raw: string; // Source text as written
+  start: number;
+  end: number;
+  quoted?: boolean;
+  expands?: boolean; // Value depends on $VAR / substitutions at runtime
+  substitutions?: string[]; // Inner source of $(...), `...`, <(...)
+}
+
+export interface Redirection {
+  op: string;
+  target: string;
+}
+
+export interface SimpleCommand {
+  text: string; // Source text of this command
+  program: string; // Normalized name: basename, lowercase, no .exe
+  programRaw: string; // Program as written (after wrappers)
+  args: string[];
+  assignments: string[]; // VAR=value prefixes
+  redirections: Redirection[];
+  wrappers: string[]; // sudo, env, xargs, ... in the order they appear
+  operator: Operator | null; // Operator joining this command to the previous one
+  nested: boolean; // From a subshell, substitution, eval or sh -c
+  parent?: number; // Index of the command that contains this one
+  dynamicProgram: boolean; // Program name is only known at runtime
+}
+
+export interface ParsedCommandLine {
+  commands: SimpleCommand[]; // Flattened, nested commands included
+  errors: string[];
+}
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish", "ash", "busybox-sh"]);
+
+const KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "do", "done", "while", "until",
+  "!", "{", "}", "case", "esac", "in",
+]);
+
+// Wrapper programs that run another command, with the options that take a value
+const WRAPPERS: Record<string, { valueOptions: string[]; leadingArgs?: number }> = {
+  sudo: { valueOptions: ["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U", "-T", "--user", "--group", "--chdir"] },
+  doas: { valueOptions: ["-u", "-C"] },
+  env: { valueOptions: ["-u", "-C", "--unset", "--chdir"] },
+  xargs: { valueOptions: ["-I", "-L", "-n", "-P", "-s", "-d", "-E", "-a", "--max-args", "--max-procs", "--delimiter", "--arg-file"] },
+  nohup: { valueOptions: [] },
+  time: { valueOptions: ["-f", "-o"] },
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  ionice: { valueOptions: ["-c", "-n", "-p"] },
+  timeout: { valueOptions: ["-s", "-k", "--signal", "--kill-after"], leadingArgs: 1 },
+  stdbuf: { valueOptions: ["-i", "-o", "-e"] },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  exec: { valueOptions: ["-a"] },
+  busybox: { valueOptions: [] },
+  watch: { valueOptions: ["-n", "-d", "--interval"] },
+  runas: { valueOptions: [] },
+};
+
+export function defaultDialect(): ShellDialect {
+  return process.platform === "win32" ? "powershell" : "posix";
+}
+
+/* ------------------------------------------------------------------ */
+/* Public API                                                           */
+/* ------------------------------------------------------------------ */
+
+export function parseCommandLine(
+  input: string,
+  dialect: ShellDialect = defaultDialect()
+): ParsedCommandLine {
+  const result: ParsedCommandLine = { commands: [], errors: [] };
+  parseInto(input, dialect, result, false, undefined, 0);
+  return result;
+}
+
+/**
+ * Splits a command line on top-level operators (not inside quotes,
+ * substitutions or subshells). Used to turn "a && b; c" into steps.
+ */
+export function splitTopLevel(
+  input: string,
+  operators: Operator[] = ["&&", ";"],
+  dialect: ShellDialect = defaultDialect()
+): string[] {
+  const { tokens } = tokenize(input, dialect);
+  const segments: string[] = [];
+  let start = 0;
+
+  for (const token of tokens) {
+    if (token.kind === "operator" && operators.includes(token.text as Operator)) {
+      segments.push(input.slice(start, token.start).trim());
+      start = token.end;
+    }
+  }
+  segments.push(input.slice(start).trim());
+
+  return segments.filter(Boolean);
+}
+
+/**
+ * Normalizes a program as written into the name rules match on:
+ * /usr/bin/rm → rm, C:\Tools\Foo.EXE → foo, \rm → rm.
+ */
+export function normalizeProgram(program: string): string {
+  const base = program.split(/[\\/]/).filter(Boolean).pop() ?? program;
+  return base.toLowerCase().replace(/\.(exe|cmd|bat|com)$/, "");
+}
+
+/* ------------------------------------------------------------------ */
+/* Lexer                                                                */
+/* ------------------------------------------------------------------ */
+
+export function tokenize(
+  input: string,
+  dialect: ShellDialect = defaultDialect()
+): { tokens: Token[]; errors: string[] } {
+  const tokens: Token[] = [];
+  const errors: string[] = [];
+  const escapeChar = dialect === "powershell" ? "`" : "\\";
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (ch === "\n") {
+      tokens.push({ kind: "operator", text: ";", raw: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "#") {
+      // Comment until end of line
+      while (i < input.length && input[i] !== "\n") i++;
+      continue;
+    }
+
+    const rest = input.slice(i);
+
+    const operator = rest.match(/^(\|\||&&|;;|\||;|&(?![>]))/);
+    if (operator) {
+      const text = operator[1] === ";;" ? ";" : operator[1];
+      tokens.push({ kind: "operator", text, raw: operator[1], start: i, end: i + operator[1].length });
+      i += operator[1].length;
+      continue;
+    }
+
+    const redirection = matchRedirection(rest);
+    if (redirection) {
+      tokens.push({ kind: "redirection", text: redirection, raw: redirection, start: i, end: i + redirection.length });
+      i += redirection.length;
+      continue;
+    }
+
+    if (ch === "(") {
+      const close = findClosingParen(input, i, escapeChar);
+      if (close === -1) {
+        errors.push("Unterminated subshell");
+        tokens.push({ kind: "subshell", text: input.slice(i + 1), raw: input.slice(i), start: i, end: input.length });
+        break;
+      }
+      tokens.push({ kind: "subshell", text: input.slice(i + 1, close), raw: input.slice(i, close + 1), start: i, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    if (ch === ")") {
+      errors.push("Unexpected )");
+      i++;
+      continue;
+    }
+
+    const word = readWord(input, i, dialect, errors);
+
+    // "2>file", "2>&1": a bare number directly followed by > or < is a fd
+    const next = input.slice(word.end);
+    const fdRedirection = matchRedirection(next);
+    if (fdRedirection && /^\d+$/.test(word.raw)) {
+      const text = word.raw + fdRedirection;
+      tokens.push({ kind: "redirection", text, raw: text, start: i, end: word.end + fdRedirection.length });
+      i = word.end + fdRedirection.length;
+      continue;
+    }
+
+    tokens.push(word);
+    i = word.end;
+  }
+
+  return { tokens, errors };
+}
+
+function matchRedirection(rest: string): string | null {
+  // Process substitution <(...) / >(...) is a word, not a redirection
+  if (/^[<>]\(/.test(rest)) return null;
+  const match = rest.match(/^(&>>|&>|>&\d+|>&-|<&\d+|<&-|>>|>\||<<<|<<-|<<|<>|>|<)/);
+  return match ? match[1] : null;
+}
+
+function readWord(
+  input: string,
+  start: number,
+  dialect: ShellDialect,
+  errors: string[]
+): Token {
+  const escapeChar = dialect === "powershell" ? "`" : "\\";
+  const substitutions: string[] = [];
+  let value = "";
+  let quoted = false;
+  let expands = false;
+  let i = start;
+
+  const readSubstitution = (open: number): number => {
+    const close = findClosingParen(input, open, escapeChar);
+    if (close === -1) {
+      errors.push("Unterminated command substitution");
+      substitutions.push(input.slice(open + 1));
+      return input.length;
+    }
+    substitutions.push(input.slice(open + 1, close));
+    return close + 1;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch) || ch === ";" || ch === "|" || ch === "&" || ch === ")") break;
+
+    if (ch === "(") {
+      if (i === start) break;
+      // PowerShell method calls / array syntax, keep literally
+      value += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === "<" || ch === ">") {
+      if (i === start && input[i + 1] === "(") {
+        const end = readSubstitution(i + 1);
+        value += input.slice(i, end);
+        expands = true;
+        i = end;
+        continue;
+      }
+      break;
+    }
+
+    if (ch === escapeChar) {
+      if (i + 1 < input.length) {
+        if (input[i + 1] !== "\n") value += input[i + 1];
+        i += 2;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === "'") {
+      const close = findQuoteEnd(input, i, dialect);
+      if (close === -1) {
+        errors.push("Unterminated single quote");
+        value += input.slice(i + 1);
+        i = input.length;
+      } else {
+        value += input.slice(i + 1, close).replace(/''/g, dialect === "powershell" ? "'" : "''");
+        i = close + 1;
+      }
+      quoted = true;
+      continue;
+    }
+
+    if (ch === '"') {
+      quoted = true;
+      i++;
+      let closed = false;
+      while (i < input.length) {
+        const c = input[i];
+        if (c === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+        if (c === escapeChar && i + 1 < input.length) {
+          value += input[i + 1];
+          i += 2;
+          continue;
+        }
+        if (c === "$" && input[i + 1] === "(") {
+          const end = readSubstitution(i + 1);
+          value += input.slice(i, end);
+          expands = true;
+          i = end;
+          continue;
+        }
+        if (c === "`" && dialect === "posix") {
+          const close = input.indexOf("`", i + 1);
+          const end = close === -1 ? input.length : close;
+          substitutions.push(input.slice(i + 1, end));
+          value += input.slice(i, end + 1);
+          expands = true;
+          i = end + 1;
+          continue;
+        }
+        if (c === "$" && /[\w{@*#?!$]/.test(input[i + 1] ?? "")) expands = true;
+        value += c;
+        i++;
+      }
+      if (!closed) errors.push("Unterminated double quote");
+      continue;
+    }
+
+    if (ch === "$") {
+      const nextCh = input[i + 1] ?? "";
+      if (nextCh === "(") {
+        if (input[i + 2] === "(") {
+          // Arithmetic expansion $(( ... ))
+          const close = findClosingParen(input, i + 1, escapeChar);
+          const end = close === -1 ? input.length : close + 1;
+          value += input.slice(i, end);
+          expands = true;
+          i = end;
+          continue;
+        }
+        const end = readSubstitution(i + 1);
+        value += input.slice(i, end);
+        expands = true;
+        i = end;
+        continue;
+      }
+      if (nextCh === "{") {
+        const close = input.indexOf("}", i);
+        const end = close === -1 ? input.length : close + 1;
+        value += input.slice(i, end);
+        expands = true;
+        i = end;
+        continue;
+      }
+      if (/[\w@*#?!$-]/.test(nextCh) || (dialect === "powershell" && nextCh === ":")) {
+        const match = input.slice(i + 1).match(/^(\w+(:\w+)?|[@*#?!$-])/);
+        const name = match ? match[1] : nextCh;
+        value += "$" + name;
+        expands = true;
+        i += 1 + name.length;
+        continue;
+      }
+      value += ch;
+      i++;
+      continue;
+    }
+
+    if (ch === "`" && dialect === "posix") {
+      const close = input.indexOf("`", i + 1);
+      const end = close === -1 ? input.length : close;
+      if (close === -1) errors.push("Unterminated backtick substitution");
+      substitutions.push(input.slice(i + 1, end));
+      value += input.slice(i, end + 1);
+      expands = true;
+      i = end + 1;
+      continue;
+    }
+
+    value += ch;
+    i++;
+  }
+
+  return {
+    kind: "word",
+    text: value,
+    raw: input.slice(start, i),
+    start,
+    end: i,
+    quoted,
+    expands,
+    ...(substitutions.length && { substitutions }),
+  };
+}
+
+function findQuoteEnd(input: string, open: number, dialect: ShellDialect): number {
+  for (let i = open + 1; i < input.length; i++) {
+    if (input[i] !== "'") continue;
+    // PowerShell escapes a single quote by doubling it
+    if (dialect === "powershell" && input[i + 1] === "'") {
+      i++;
+      continue;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function findClosingParen(input: string, open: number, escapeChar: string): number {
+  let depth = 0;
+
+  for (let i = open; i < input.length; i++) {
+    const ch = input[i];
+
+    if (ch === escapeChar) {
+      i++;
+      continue;
+    }
+    if (ch === "'") {
+      const close = input.indexOf("'", i + 1);
+      if (close === -1) return -1;
+      i = close;
+      continue;
+    }
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < input.length && input[j] !== '"') {
+        if (input[j] === escapeChar) j++;
+        j++;
+      }
+      if (j >= input.length) return -1;
+      i = j;
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/* ------------------------------------------------------------------ */
+/* Parser                                                               */
+/* ------------------------------------------------------------------ */
+
+const MAX_DEPTH = 8;
+
+function parseInto(
+  input: string,
+  dialect: ShellDialect,
+  result: ParsedCommandLine,
+  nested: boolean,
+  parent: number | undefined,
+  depth: number
+): void {
+  if (depth > MAX_DEPTH) {
+    result.errors.push("Command nesting is too deep to analyse");
+    return;
+  }
+
+  const { tokens, errors } = tokenize(input, dialect);
+  result.errors.push(...errors);
+
+  let words: Token[] = [];
+  let redirections: Redirection[] = [];
+  let operator: Operator | null = null;
+
+  const finish = () => {
+    if (words.length || redirections.length) {
+      buildCommand(input, words, redirections, operator, dialect, result, nested, parent, depth);
+    }
+    words = [];
+    redirections = [];
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.kind === "operator") {
+      // PowerShell call operator: & "C:\tool.exe" args
+      if (dialect === "powershell" && token.text === "&" && !words.length) continue;
+      finish();
+      operator = token.text as Operator;
+      continue;
+    }
+
+    if (token.kind === "redirection") {
+      const target = tokens[i + 1];
+      if (target?.kind === "word" && !/&(\d+|-)$/.test(token.text)) {
+        redirections.push({ op: token.text, target: target.text });
+        parseSubstitutions(target, dialect, result, parent, depth);
+        i++;
+      } else {
+        redirections.push({ op: token.text, target: "" });
+      }
+      continue;
+    }
+
+    if (token.kind === "subshell") {
+      finish();
+      parseInto(token.text, dialect, result, true, parent, depth + 1);
+      continue;
+    }
+
+    words.push(token);
+  }
+
+  finish();
+}
+
+function parseSubstitutions(
+  token: Token,
+  dialect: ShellDialect,
+  result: ParsedCommandLine,
+  parent: number | undefined,
+  depth: number
+): void {
+  for (const inner of token.substitutions ?? []) {
+    parseInto(inner, dialect, result, true, parent, depth + 1);
+  }
+}
+
+function buildCommand(
+  input: string,
+  tokens: Token[],
+  redirections: Redirection[],
+  operator: Operator | null,
+  dialect: ShellDialect,
+  result: ParsedCommandLine,
+  nested: boolean,
+  parent: number | undefined,
+  depth: number
+): void {
+  let words = [...tokens];
+
+  // Skip shell keywords so `if rm -rf /; then` still finds rm
+  while (words.length && !words[0].quoted && KEYWORDS.has(words[0].text)) {
+    words = words.slice(1);
+  }
+
+  const assignments: string[] = [];
+  while (words.length && !words[0].quoted && /^[A-Za-z_]\w*=/.test(words[0].raw)) {
+    assignments.push(words[0].text);
+    words = words.slice(1);
+  }
+
+  const wrappers: string[] = [];
+  words = unwrap(words, wrappers, assignments);
+
+  const first = tokens[0];
+  const last = tokens[tokens.length - 1];
+  const command: SimpleCommand = {
+    text: first && last ? input.slice(first.start, last.end) : "",
+    program: "",
+    programRaw: "",
+    args: [],
+    assignments,
+    redirections,
+    wrappers,
+    operator,
+    nested,
+    parent,
+    dynamicProgram: false,
+  };
+
+  if (words.length) {
+    const programToken = words[0];
+    const resolved = programToken.expands ? resolveStaticProgram(programToken, dialect) : null;
+
+    command.programRaw = programToken.raw;
+    command.program = normalizeProgram(resolved ?? programToken.text);
+    command.dynamicProgram = programToken.expands === true && resolved === null;
+    command.args = words.slice(1).map(w => w.text);
+  }
+
+  const index = result.commands.length;
+  result.commands.push(command);
+
+  for (const token of tokens) {
+    parseSubstitutions(token, dialect, result, index, depth);
+  }
+
+  // Strings handed to another interpreter: sh -c "...", eval ..., powershell -Command ...
+  const inner = innerScript(command, dialect);
+  if (inner !== null) {
+    parseInto(inner.script, inner.dialect, result, true, index, depth + 1);
+  }
+
+  // find -exec rm -rf {} + runs rm for the matches, like xargs does
+  for (const exec of findExecCommands(command, words)) {
+    buildCommand(input, exec, [], null, dialect, result, true, index, depth + 1);
+  }
+}
+
+const FIND_EXEC_ACTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+/**
+ * The commands in a find's -exec/-execdir/-ok actions, each up to its
+ * `;` or `+`.
+ */
+function findExecCommands(command: SimpleCommand, words: Token[]): Token[][] {
+  if (command.program !== "find") return [];
+
+  const commands: Token[][] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (!FIND_EXEC_ACTIONS.has(words[i].text)) continue;
+
+    const end = words.findIndex((word, j) => j > i && (word.text === ";" || word.text === "+"));
+    const stop = end === -1 ? words.length : end;
+    if (stop > i + 1) commands.push(words.slice(i + 1, stop));
+    i = stop;
+  }
+  return commands;
+}
+
+function unwrap(words: Token[], wrappers: string[], assignments: string[]): Token[] {
+  let rest = words;
+
+  while (rest.length) {
+    const name = normalizeProgram(rest[0].text);
+    const spec = WRAPPERS[name];
+    if (!spec || rest[0].quoted) break;
+
+    wrappers.push(name);
+    rest = rest.slice(1);
+
+    // Options (and their values) of the wrapper itself
+    while (rest.length && rest[0].text.startsWith("-") && rest[0].text !== "-") {
+      const option = rest[0].text;
+      rest = rest.slice(1);
+      if (option === "--") break;
+      const optionName = option.split("=")[0];
+      if (!option.includes("=") && spec.valueOptions.includes(optionName)) {
+        rest = rest.slice(1);
+      }
+    }
+
+    if (name === "env") {
+      while (rest.length && /^[A-Za-z_]\w*=/.test(rest[0].text)) {
+        assignments.push(rest[0].text);
+        rest = rest.slice(1);
+      }
+    }
+
+    rest = rest.slice(spec.leadingArgs ?? 0);
+  }
+
+  return rest;
+}
+
+/**
+ * Resolves `$(echo rm)` / `` `printf rm` `` style program names that are
+ * computed from literal text. Anything more dynamic returns null.
+ */
+function resolveStaticProgram(token: Token, dialect: ShellDialect): string | null {
+  const subs = token.substitutions ?? [];
+  const wholeSubstitution = /^(\$\(.*\)|`.*`)$/s.test(token.raw);
+  if (subs.length !== 1 || !wholeSubstitution) return null;
+
+  const inner = parseCommandLine(subs[0], dialect);
+  const [only] = inner.commands;
+  if (inner.commands.length !== 1 || !only || !["echo", "printf"].includes(only.program)) {
+    return null;
+  }
+
+  const literal = only.args.filter(arg => !arg.startsWith("-")).join(" ").trim();
+  return literal && !literal.includes("$") ? literal.split(/\s+/)[0] : null;
+}
+
+function innerScript(
+  command: SimpleCommand,
+  dialect: ShellDialect
+): { script: string; dialect: ShellDialect } | null {
+  const { program, args } = command;
+
+  if (program === "eval" && args.length) {
+    return { script: args.join(" "), dialect };
+  }
+
+  if (SHELLS.has(program)) {
+    const flag = args.findIndex(arg => /^-[a-z]*c[a-z]*$/.test(arg));
+    if (flag !== -1 && args[flag + 1] !== undefined) {
+      return { script: args[flag + 1], dialect: "posix" };
+    }
+  }
+
+  if (program === "powershell" || program === "pwsh") {
+    const flag = args.findIndex(arg => /^-(c|command)$/i.test(arg));
+    if (flag !== -1 && args.length > flag + 1) {
+      return { script: args.slice(flag + 1).join(" "), dialect: "powershell" };
+    }
+  }
+
+  if (program === "cmd") {
+    const flag = args.findIndex(arg => /^\/[ck]$/i.test(arg));
+    if (flag !== -1 && args.length > flag + 1) {
+      return { script: args.slice(flag + 1).join(" "), dialect: "powershell" };
+    }
+  }
+
+  if (program === "invoke-expression" || program === "iex") {
+    if (args.length) return { script: args.join(" "), dialect: "powershell" };
+  }
+
+  return null;
+}
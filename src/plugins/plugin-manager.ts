@@ -2,22 +2,43 @@ import * as fs from "fs-extra";
 import * as path from "path";
 import * as os from "os";
 import { Plugin, ResolvedCommand, OS, SafetyResult } from "../types";
+import { CONFIG_PATH, loadConfig } from "../core/config";
+import { parseVariables } from "../storage/vault-format";
+
+export interface PluginSafetyResult {
+  plugin: string;
+  trusted: boolean; // Listed in config.json "trustedPlugins", may suppress built-in findings
+  result: SafetyResult;
+}
 
 export class PluginManager {
   private plugins: Plugin[] = [];
+  private trustedPlugins = new Set<string>();
   private pluginsDir: string;
+  private configPath: string;
   private initialized = false;
 
   constructor() {
     this.pluginsDir = path.join(os.homedir(), ".ai-cli", "plugins");
+    this.configPath = CONFIG_PATH;
   }
 
   async init(): Promise<void> {
     if (this.initialized) return;
     this.initialized = true;
+    await this.loadTrustedPlugins();
     await this.loadPlugins();
   }
 
+  private async loadTrustedPlugins(): Promise<void> {
+    const { trustedPlugins } = await loadConfig(this.configPath);
+    if (!Array.isArray(trustedPlugins)) return;
+
+    trustedPlugins
+      .filter(name => typeof name === "string")
+      .forEach(name => this.trustedPlugins.add(name));
+  }
+
   private async loadPlugins(): Promise<void> {
     try {
       if (!(await fs.pathExists(this.pluginsDir))) {
@@ -70,13 +91,22 @@ export class PluginManager {
     );
   }
 
+  /**
+   * The first plugin rule matching the input. Plugins written against the
+   * older API describe variables with a string; those become specs.
+   */
   getRules(input: string, os: OS): ResolvedCommand | null {
     for (const plugin of this.plugins) {
       if (!plugin.getRules) continue;
 
       try {
         const result = plugin.getRules(input, os);
-        if (result) return result;
+        if (!result) continue;
+        if (!result.variables) return result;
+
+        const { variables, errors } = parseVariables(result.variables);
+        errors.forEach(error => console.warn(`Plugin rule error (${plugin.name}): ${error}`));
+        return { ...result, variables };
       } catch (error) {
         console.warn(
           `Plugin rule error (${plugin.name}):`,
@@ -87,13 +117,25 @@ export class PluginManager {
     return null;
   }
 
-  getSafetyChecks(command: ResolvedCommand): SafetyResult | null {
+  /**
+   * Results from every plugin, not just the first: safety findings are
+   * aggregated by SafetyValidator.
+   */
+  getSafetyChecks(command: ResolvedCommand): PluginSafetyResult[] {
+    const results: PluginSafetyResult[] = [];
+
     for (const plugin of this.plugins) {
       if (!plugin.getSafetyChecks) continue;
 
       try {
         const result = plugin.getSafetyChecks(command);
-        if (result) return result;
+        if (result) {
+          results.push({
+            plugin: plugin.name,
+            trusted: this.trustedPlugins.has(plugin.name),
+            result,
+          });
+        }
       } catch (error) {
         console.warn(
           `Plugin safety error (${plugin.name}):`,
@@ -101,7 +143,7 @@ export class PluginManager {
         );
       }
     }
-    return null;
+    return results;
   }
 
   onCommandExecuted(command: ResolvedCommand, success: boolean): void {
@@ -3,6 +3,9 @@ import { AIService } from '../core/ai-service';
 import { StorageManager } from '../storage/storage-manager';
 import { PluginManager } from '../plugins/plugin-manager';
 
+// Lowest search score (0-1) at which a vault entry answers the request
+const VAULT_MATCH_THRESHOLD = 0.6;
+
 export class CommandResolver {
   private aiService: AIService;
   private storage: StorageManager;
@@ -70,7 +73,7 @@ export class CommandResolver {
       if (!results.length) return null;
 
       const best = results[0];
-      if (best.confidence < 0.6) return null;
+      if (best.score < VAULT_MATCH_THRESHOLD) return null;
 
       return {
         commands: best.commands,
@@ -0,0 +1,202 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { PolicyManager } from '../policy-manager';
+import { RuleContext } from '../safety-rules';
+import { parseCommandLine } from '../../parser/command-parser';
+
+describe('PolicyManager', () => {
+  let home: string;
+  let repo: string;
+  let context: RuleContext;
+
+  const writePolicy = (dir: string, yaml: string) =>
+    fs.outputFile(path.join(dir, '.ai-cli', 'policy.yaml'), yaml);
+
+  const decide = async (command: string, overrides: Partial<RuleContext> = {}) => {
+    const manager = new PolicyManager(overrides.cwd ?? context.cwd, home);
+    await manager.init();
+    return manager.decide(parseCommandLine(command, 'posix').commands, { ...context, ...overrides });
+  };
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-home-'));
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-repo-'));
+    await fs.ensureDir(path.join(repo, 'infra', 'prod'));
+    context = { cwd: repo, home, os: 'linux', source: 'ai' };
+  });
+
+  afterEach(async () => {
+    await fs.remove(home);
+    await fs.remove(repo);
+  });
+
+  it('should use the built-in rules as the default layer', async () => {
+    const decision = await decide('rm -rf /');
+    expect(decision).toMatchObject({ layer: 'built-in', rule: { id: 'rm-critical-path', action: 'block' } });
+  });
+
+  it('should apply repository rules found in a parent directory', async () => {
+    await writePolicy(repo, `
+rules:
+  - id: no-terraform-destroy
+    action: confirm
+    reason: Destroying infrastructure needs a second look
+    programs: terraform
+    subcommand: [destroy]
+    cwd: ["infra/**"]
+`);
+
+    const cwd = path.join(repo, 'infra', 'prod');
+    expect(await decide('terraform destroy -auto-approve', { cwd })).toMatchObject({
+      layer: 'project',
+      rule: { id: 'no-terraform-destroy', action: 'confirm', riskLevel: 'high' },
+    });
+    expect(await decide('terraform plan', { cwd })).toBeNull();
+    expect(await decide('terraform destroy')).toBeNull(); // cwd outside infra/
+  });
+
+  it('should match normalized flags, paths and hosts', async () => {
+    await writePolicy(home, `
+rules:
+  - id: force-push
+    action: block
+    programs: git
+    subcommand: [push]
+    anyFlags: [--force, -f]
+  - id: secrets
+    action: warn
+    paths: ["~/secrets/**"]
+  - id: prod-hosts
+    action: confirm
+    hosts: ["*.prod.example.com"]
+`);
+
+    expect((await decide('git push origin main --force'))?.rule.id).toBe('force-push');
+    expect((await decide('cat ~/secrets/token'))?.rule.id).toBe('secrets');
+    expect((await decide(`cd ${home} && echo x > secrets/new`, { cwd: home }))?.rule.id).toBe('secrets');
+    expect((await decide('ssh deploy@db1.prod.example.com'))?.rule.id).toBe('prod-hosts');
+    expect((await decide('curl https://api.prod.example.com/health'))?.rule.id).toBe('prod-hosts');
+    expect(await decide('ssh db1.staging.example.com')).toBeNull();
+  });
+
+  it('should scope rules by os and source', async () => {
+    await writePolicy(home, `
+rules:
+  - id: ai-docker
+    action: warn
+    programs: docker
+    source: [ai]
+    os: [linux]
+`);
+
+    expect(await decide('docker ps')).not.toBeNull();
+    expect(await decide('docker ps', { source: 'vault' })).toBeNull();
+    expect(await decide('docker ps', { os: 'macos' })).toBeNull();
+  });
+
+  it('should let the user policy allow built-in warnings but not repository policies', async () => {
+    await writePolicy(home, `
+rules:
+  - action: allow
+    programs: rm
+    paths: ["~/scratch/**"]
+`);
+    await writePolicy(repo, `
+rules:
+  - action: allow
+    programs: chmod
+`);
+
+    expect(await decide('rm -rf ~/scratch/build')).toBeNull();
+    expect(await decide('rm -rf ./build')).toMatchObject({ rule: { id: 'rm-recursive' } });
+    expect(await decide('chmod -R 755 .')).toMatchObject({ rule: { id: 'recursive-permissions' } });
+  });
+
+  it('should never let a user allow lift a built-in block', async () => {
+    await writePolicy(home, `
+rules:
+  - action: allow
+    programs: rm
+`);
+
+    const manager = new PolicyManager(repo, home);
+    await manager.init();
+    const [evaluation] = manager.evaluate(parseCommandLine('rm -rf node_modules /', 'posix').commands, context);
+
+    expect(evaluation.decision).toMatchObject({ layer: 'built-in', rule: { id: 'rm-critical-path', action: 'block' } });
+    expect(evaluation.matches.find(m => m.rule.id === 'rm-recursive')?.ignored).toBe('allowed by user policy');
+    expect(await decide('rm -rf node_modules')).toBeNull();
+  });
+
+  it('should not let an allow for one path cover the other paths in a command', async () => {
+    await writePolicy(home, `
+rules:
+  - action: allow
+    programs: rm
+    paths: ["~/scratch/**"]
+`);
+
+    expect(await decide('rm -rf ~/scratch/x ./build')).toMatchObject({ rule: { id: 'rm-recursive' } });
+    expect(await decide('rm -rf ~/scratch/x ~/scratch/y')).toBeNull();
+  });
+
+  it('should pick the most severe matching rule', async () => {
+    await writePolicy(repo, `
+rules:
+  - action: warn
+    programs: rm
+`);
+
+    expect(await decide('rm -rf ~')).toMatchObject({ layer: 'built-in', rule: { action: 'block' } });
+  });
+
+  it('should report invalid rules and keep the valid ones', async () => {
+    await writePolicy(home, `
+rules:
+  - action: explode
+  - action: warn
+    programs: shred
+    colour: red
+  - action: warn
+    programs: shred
+`);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const manager = new PolicyManager(repo, home);
+    await manager.init();
+
+    expect(manager.getErrors()).toEqual([
+      expect.stringContaining('rules[0]: action must be one of'),
+      expect.stringContaining('rules[1]: unknown key "colour"'),
+    ]);
+    expect(manager.getLayers().map(l => [l.name, l.rules.length])).toEqual([
+      ['built-in', expect.any(Number)],
+      ['user', 1],
+    ]);
+  });
+
+  it('should report a policy that is not a mapping and accept an empty one', async () => {
+    await writePolicy(home, '- action: block\n  programs: rm\n');
+    await writePolicy(repo, '');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const manager = new PolicyManager(repo, home);
+    await manager.init();
+
+    expect(manager.getErrors()).toEqual([expect.stringContaining('must be a mapping with a "rules" list')]);
+    expect(manager.getLayers().map(l => l.name)).toEqual(['built-in', 'project']);
+  });
+
+  it('should only honour overridable rule ids from the user policy', async () => {
+    await writePolicy(home, 'overridable: [rm-critical-path]\n');
+    await writePolicy(repo, 'overridable: [kill-init]\n');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const manager = new PolicyManager(repo, home);
+    await manager.init();
+
+    expect([...manager.getOverridableRules()]).toEqual(['rm-critical-path']);
+    expect(manager.getErrors()).toEqual([expect.stringContaining('only honoured in the user policy')]);
+  });
+});
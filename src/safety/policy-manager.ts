@@ -0,0 +1,316 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { parse as parseYaml } from "yaml";
+import { SimpleCommand } from "../parser/command-parser";
+import {
+  BUILTIN_RULES,
+  RuleAction,
+  RuleContext,
+  SafetyRule,
+  globToRegExp,
+  matchRules,
+} from "./safety-rules";
+
+export type PolicyLayerName = "built-in" | "user" | "project";
+
+export interface PolicyLayer {
+  name: PolicyLayerName;
+  path?: string;
+  rules: SafetyRule[];
+}
+
+export interface PolicyMatch {
+  rule: SafetyRule;
+  layer: PolicyLayerName;
+  command: SimpleCommand;
+  ignored?: string; // Why this match does not count towards the decision
+}
+
+export interface PolicyEvaluation {
+  command: SimpleCommand;
+  matches: PolicyMatch[];
+  decision: PolicyMatch | null;
+}
+
+const POLICY_FILE = "policy.yaml";
+
+const SEVERITY: Record<RuleAction, number> = {
+  allow: 0,
+  warn: 1,
+  confirm: 2,
+  block: 3,
+};
+
+const RULE_KEYS = new Set([
+  "id", "action", "reason", "risk", "programs", "subcommand", "flags",
+  "anyFlags", "paths", "hosts", "cwd", "os", "source",
+]);
+
+const OS_NAMES = ["linux", "macos", "windows"];
+const SOURCES = ["rule", "ai", "vault"];
+
+/**
+ * Layers safety rules: built-in defaults, the user policy
+ * (~/.ai-cli/policy.yaml) and the nearest repository policy
+ * (.ai-cli/policy.yaml in the working directory or a parent).
+ *
+ * Every matching rule is collected and the most severe one decides.
+ * `allow` rules in the user policy switch off matching built-in warnings
+ * and confirmations, but never built-in blocks: those can only be
+ * overridden per run, by rules listed as `overridable`. Repository
+ * policies are checked-in, untrusted content, so they can only add
+ * restrictions. For the same reason only the user policy can list
+ * `overridable` rule ids.
+ */
+export class PolicyManager {
+  private layers: PolicyLayer[] = [{ name: "built-in", rules: BUILTIN_RULES }];
+  private errors: string[] = [];
+  private overridableRules = new Set<string>();
+  private cwd: string;
+  private homeDir: string;
+  private initialized = false;
+
+  constructor(cwd: string = process.cwd(), homeDir: string = os.homedir()) {
+    this.cwd = cwd;
+    this.homeDir = homeDir;
+  }
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    this.initialized = true;
+
+    const userPath = path.join(this.homeDir, ".ai-cli", POLICY_FILE);
+    await this.loadLayer("user", userPath, this.homeDir);
+
+    const projectPath = await this.findProjectPolicy(userPath);
+    if (projectPath) {
+      await this.loadLayer("project", projectPath, path.dirname(path.dirname(projectPath)));
+    }
+  }
+
+  getCwd(): string {
+    return this.cwd;
+  }
+
+  getLayers(): PolicyLayer[] {
+    return this.layers;
+  }
+
+  getErrors(): string[] {
+    return this.errors;
+  }
+
+  /**
+   * Rule ids whose blocks may be overridden with --i-know-what-im-doing.
+   */
+  getOverridableRules(): Set<string> {
+    return this.overridableRules;
+  }
+
+  /**
+   * Evaluates each simple command against every layer.
+   */
+  evaluate(commands: SimpleCommand[], context: RuleContext): PolicyEvaluation[] {
+    return commands.map(command => {
+      const matches = this.layers.flatMap(layer =>
+        matchRules([command], layer.rules, context).map(({ rule }) => ({
+          rule,
+          layer: layer.name,
+          command,
+        }))
+      );
+
+      const userAllows = matches.some(
+        m => m.layer === "user" && m.rule.action === "allow"
+      );
+
+      const annotated: PolicyMatch[] = matches.map(match => {
+        if (match.rule.action === "allow" && match.layer === "project") {
+          return { ...match, ignored: "repository policies cannot allow commands" };
+        }
+        if (match.layer === "built-in" && userAllows && match.rule.action !== "block") {
+          return { ...match, ignored: "allowed by user policy" };
+        }
+        return match;
+      });
+
+      const decision = annotated
+        .filter(m => !m.ignored && m.rule.action !== "allow")
+        .reduce<PolicyMatch | null>(
+          (worst, m) =>
+            !worst || SEVERITY[m.rule.action] > SEVERITY[worst.rule.action] ? m : worst,
+          null
+        );
+
+      return { command, matches: annotated, decision };
+    });
+  }
+
+  /**
+   * The most severe decision across all commands, or null when nothing matched.
+   */
+  decide(commands: SimpleCommand[], context: RuleContext): PolicyMatch | null {
+    return this.evaluate(commands, context)
+      .map(e => e.decision)
+      .reduce<PolicyMatch | null>(
+        (worst, m) =>
+          m && (!worst || SEVERITY[m.rule.action] > SEVERITY[worst.rule.action]) ? m : worst,
+        null
+      );
+  }
+
+  /* -------------------- LOADING -------------------- */
+
+  private async findProjectPolicy(userPath: string): Promise<string | null> {
+    for (let dir = path.resolve(this.cwd); ; dir = path.dirname(dir)) {
+      const candidate = path.join(dir, ".ai-cli", POLICY_FILE);
+      if (candidate !== userPath && (await fs.pathExists(candidate))) {
+        return candidate;
+      }
+      if (path.dirname(dir) === dir) return null;
+    }
+  }
+
+  private async loadLayer(
+    name: PolicyLayerName,
+    filePath: string,
+    baseDir: string
+  ): Promise<void> {
+    if (!(await fs.pathExists(filePath))) return;
+
+    let parsed: unknown;
+    try {
+      parsed = parseYaml(await fs.readFile(filePath, "utf8"));
+    } catch (error) {
+      this.report(filePath, error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    // An empty file parses to null and means no rules
+    const document = parsed ?? {};
+    if (!isMapping(document)) {
+      this.report(filePath, 'must be a mapping with a "rules" list');
+      return;
+    }
+
+    if (document.overridable !== undefined) {
+      const ids: unknown[] = Array.isArray(document.overridable) ? document.overridable : [];
+      if (name !== "user") {
+        this.report(filePath, '"overridable" is only honoured in the user policy');
+      } else if (!ids.length || !ids.every((id): id is string => typeof id === "string")) {
+        this.report(filePath, '"overridable" must be a list of rule ids');
+      } else {
+        ids.forEach(id => this.overridableRules.add(id));
+      }
+    }
+
+    const rawRules = document.rules ?? [];
+    if (!Array.isArray(rawRules)) {
+      this.report(filePath, '"rules" must be a list');
+      return;
+    }
+
+    const rules: SafetyRule[] = [];
+    rawRules.forEach((raw: unknown, i: number) => {
+      const result = toRule(raw, `${name}-${i + 1}`, baseDir, this.homeDir);
+      if (typeof result === "string") {
+        this.report(filePath, `rules[${i}]: ${result}`);
+      } else {
+        rules.push(result);
+      }
+    });
+
+    this.layers.push({ name, path: filePath, rules });
+  }
+
+  private report(filePath: string, message: string): void {
+    const error = `${filePath}: ${message}`;
+    this.errors.push(error);
+    console.warn(`Invalid safety policy ${error}`);
+  }
+}
+
+/* -------------------- RULE CONVERSION -------------------- */
+
+function isMapping(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts one YAML rule into a SafetyRule, or returns an error message.
+ * Relative paths and cwd globs are resolved against the policy's base
+ * directory (the repository root, or home for the user policy).
+ */
+function toRule(
+  raw: unknown,
+  defaultId: string,
+  baseDir: string,
+  homeDir: string
+): SafetyRule | string {
+  if (!isMapping(raw)) return "must be a mapping";
+
+  const entry = raw;
+  const unknownKey = Object.keys(entry).find(key => !RULE_KEYS.has(key));
+  if (unknownKey) return `unknown key "${unknownKey}"`;
+
+  const action = entry.action;
+  if (typeof action !== "string" || !(action in SEVERITY)) {
+    return 'action must be one of "block", "confirm", "warn", "allow"';
+  }
+
+  const risk = entry.risk ?? (action === "warn" ? "medium" : "high");
+  if (risk !== "medium" && risk !== "high") {
+    return 'risk must be "medium" or "high"';
+  }
+
+  const lists: { [key: string]: string[] | undefined } = {};
+  for (const key of ["programs", "subcommand", "flags", "anyFlags", "paths", "hosts", "cwd", "os", "source"]) {
+    const value = entry[key];
+    if (value === undefined) continue;
+    const list = Array.isArray(value) ? value : [value];
+    if (!list.every(item => typeof item === "string" || typeof item === "number")) {
+      return `${key} must be a string or a list of strings`;
+    }
+    lists[key] = list.map(String);
+  }
+
+  const badOs = lists.os?.find(name => !OS_NAMES.includes(name));
+  if (badOs) return `unknown os "${badOs}"`;
+
+  const badSource = lists.source?.find(name => !SOURCES.includes(name));
+  if (badSource) return `unknown source "${badSource}"`;
+
+  const toAbsolute = (glob: string) =>
+    path.resolve(baseDir, glob.replace(/^~(?=\/|$)/, homeDir));
+
+  const id = typeof entry.id === "string" ? entry.id : defaultId;
+
+  const rule: SafetyRule = {
+    id,
+    action: action as RuleAction,
+    riskLevel: risk,
+    reason: typeof entry.reason === "string" ? entry.reason : `Matched policy rule ${id}.`,
+    programs: (lists.programs ?? ["*"]).map(program =>
+      /[*?]/.test(program) && program !== "*"
+        ? globToRegExp(program.toLowerCase())
+        : program.toLowerCase()
+    ),
+  };
+
+  if (lists.subcommand) rule.subcommand = lists.subcommand;
+  if (lists.flags) rule.allFlags = lists.flags;
+  if (lists.anyFlags) rule.anyFlags = lists.anyFlags;
+  if (lists.paths) rule.paths = lists.paths.map(toAbsolute);
+  if (lists.hosts) rule.hosts = lists.hosts;
+
+  if (lists.cwd || lists.os || lists.source) {
+    rule.when = {
+      ...(lists.cwd && { cwd: lists.cwd.map(toAbsolute) }),
+      ...(lists.os && { os: lists.os as NonNullable<SafetyRule["when"]>["os"] }),
+      ...(lists.source && { source: lists.source as NonNullable<SafetyRule["when"]>["source"] }),
+    };
+  }
+
+  return rule;
+}
@@ -0,0 +1,670 @@
+import * as path from "path";
+import { SimpleCommand } from "../parser/command-parser";
+import { OS, ResolvedCommand } from "../types";
+
+export type RuleAction = "block" | "confirm" | "warn" | "allow";
+
+/**
+ * A safety rule matches on the normalized program name, normalized flags
+ * (-rf, -fr, -r -f and --recursive --force are all the same) and targets
+ * of one parsed simple command. Built-in rules are defined below; policy
+ * files are loaded into the same shape by PolicyManager.
+ */
+export interface SafetyRule {
+  id: string;
+  action: RuleAction;
+  riskLevel: "medium" | "high";
+  reason: string;
+  programs: Array<string | RegExp>; // "*" matches any program
+  subcommand?: Array<string | string[]>; // Leading positionals; arrays are alternatives
+  subcommandForms?: Array<Array<string | string[]>>; // Other spellings, e.g. docker container rm
+  allFlags?: string[];
+  anyFlags?: string[];
+  targets?: RegExp[]; // At least one positional must match
+  redirectTargets?: RegExp[]; // At least one redirection target must match
+  paths?: string[]; // Absolute path globs, matched against targets and redirections
+  hosts?: string[]; // Host globs, matched against network destinations
+  when?: {
+    cwd?: string[]; // Absolute directory globs
+    os?: OS["platform"][];
+    source?: ResolvedCommand["source"][];
+  };
+}
+
+export interface RuleContext {
+  cwd: string;
+  home: string;
+  os: OS["platform"];
+  source: ResolvedCommand["source"];
+}
+
+export interface NormalizedCommand {
+  program: string;
+  flags: Set<string>;
+  positionals: string[];
+  redirectTargets: string[];
+}
+
+export interface RuleMatch {
+  rule: SafetyRule;
+  command: SimpleCommand;
+}
+
+/* -------------------- FLAG NORMALIZATION -------------------- */
+
+const FLAG_ALIASES: Record<string, Record<string, string>> = {
+  rm: {
+    "-R": "-r",
+    "--recursive": "-r",
+    "-recurse": "-r",
+    "--force": "-f",
+    "-force": "-f",
+  },
+  "remove-item": { "-recurse": "-r", "-force": "-f" },
+  chmod: { "-R": "-r", "--recursive": "-r" },
+  chown: { "-R": "-r", "--recursive": "-r" },
+  kill: { "-KILL": "-9", "-SIGKILL": "-9" },
+  killall: { "-KILL": "-9", "-SIGKILL": "-9" },
+  docker: { "--all": "-a", "--force": "-f", "--volumes": "-v" },
+  git: { "--force": "-f" },
+  crontab: { "--remove": "-r" },
+  shred: { "--remove": "-u" },
+  iptables: { "--flush": "-F" },
+  userdel: { "--remove": "-r" },
+};
+
+// Programs whose single-dash options are words, not bundles of letters
+const SINGLE_DASH_WORDS = new Set(["find", "kill", "killall", "java", "ip"]);
+
+// Windows programs that take /x style switches
+const SLASH_SWITCHES = new Set(["rmdir", "rd", "del", "erase", "format", "taskkill", "bootsect"]);
+
+// PowerShell-style programs accept any unambiguous prefix of a parameter
+const PARAMETER_PREFIXES: Record<string, string[]> = {
+  "remove-item": ["-recurse", "-force"],
+};
+
+function normalizeFlags(program: string, flags: string[]): Set<string> {
+  return normalizeCommand({ program, args: flags, redirections: [] }).flags;
+}
+
+export function normalizeCommand(
+  command: Pick<SimpleCommand, "program" | "args" | "redirections">
+): NormalizedCommand {
+  const { program } = command;
+  const aliases = FLAG_ALIASES[program] ?? {};
+  const flags = new Set<string>();
+  const positionals: string[] = [];
+  let endOfOptions = false;
+
+  const addFlag = (flag: string) => {
+    flags.add(aliases[flag] ?? aliases[flag.toLowerCase()] ?? flag);
+  };
+
+  for (const arg of command.args) {
+    if (endOfOptions || arg === "-" || !/^[-/]/.test(arg)) {
+      positionals.push(arg);
+      continue;
+    }
+
+    if (arg === "--") {
+      endOfOptions = true;
+      continue;
+    }
+
+    if (arg.startsWith("/")) {
+      if (SLASH_SWITCHES.has(program) && /^\/[a-z?]$/i.test(arg)) {
+        flags.add(arg.toLowerCase());
+      } else {
+        positionals.push(arg);
+      }
+      continue;
+    }
+
+    if (arg.startsWith("--")) {
+      addFlag(arg.split("=")[0]);
+      continue;
+    }
+
+    const prefixes = PARAMETER_PREFIXES[program];
+    if (prefixes) {
+      const lower = arg.toLowerCase();
+      const full = prefixes.find(p => p.startsWith(lower));
+      addFlag(full ?? lower);
+      continue;
+    }
+
+    if (/^-\d+$/.test(arg) || arg.length === 2) {
+      addFlag(arg);
+      continue;
+    }
+
+    if (aliases[arg] || aliases[arg.toLowerCase()] || SINGLE_DASH_WORDS.has(program)) {
+      addFlag(arg);
+      continue;
+    }
+
+    // Bundled short options: -rf → -r -f
+    for (const letter of arg.slice(1).split("=")[0]) {
+      addFlag(`-${letter}`);
+    }
+  }
+
+  return {
+    program,
+    flags,
+    positionals,
+    redirectTargets: command.redirections.map(r => r.target).filter(Boolean),
+  };
+}
+
+/* -------------------- RULES -------------------- */
+
+// Root, home and top-level system directories, with or without a trailing /*
+const CRITICAL_PATHS: RegExp[] = [
+  /^\/+\.?\*?$/,
+  /^(~|\$HOME|\$\{HOME\})(\/+\.?\*?)?$/,
+  /^\/(bin|boot|dev|etc|home|lib|lib64|opt|proc|root|sbin|sys|usr|var)\/?\*?$/,
+  /^[a-z]:(\\|\/)?\*?$/i,
+  /^[a-z]:(\\|\/)(windows|users|program files)(\\|\/)?\*?$/i,
+  /^\$env:(userprofile|systemroot|windir)(\\|\/)?\*?$/i,
+];
+
+const SENSITIVE_FILES: RegExp[] = [/^\/etc\/(passwd|shadow|sudoers|group)$/];
+
+const REMOVE_PROGRAMS = ["rm", "remove-item", "ri"];
+
+export const BUILTIN_RULES: SafetyRule[] = [
+  /* Hard blocks */
+  {
+    id: "rm-critical-path",
+    action: "block",
+    riskLevel: "high",
+    reason: "Attempting to recursively delete the root, home or a system directory.",
+    programs: REMOVE_PROGRAMS,
+    allFlags: ["-r"],
+    targets: CRITICAL_PATHS,
+  },
+  {
+    id: "rm-no-preserve-root",
+    action: "block",
+    riskLevel: "high",
+    reason: "--no-preserve-root disables the protection against deleting /.",
+    programs: ["rm"],
+    anyFlags: ["--no-preserve-root"],
+  },
+  {
+    id: "rmdir-drive",
+    action: "block",
+    riskLevel: "high",
+    reason: "Recursively deleting a drive root destroys all its data.",
+    programs: ["rmdir", "rd", "del", "erase"],
+    anyFlags: ["/s"],
+    targets: CRITICAL_PATHS,
+  },
+  {
+    id: "format-drive",
+    action: "block",
+    riskLevel: "high",
+    reason: "Formatting the system drive will destroy all data.",
+    programs: ["format"],
+    targets: [/^[a-z]:\\?$/i],
+  },
+  {
+    id: "mkfs",
+    action: "block",
+    riskLevel: "high",
+    reason: "Creating a filesystem erases the target device.",
+    programs: [/^mkfs(\..+)?$/, "mke2fs"],
+  },
+  {
+    id: "dd-device",
+    action: "block",
+    riskLevel: "high",
+    reason: "Writing directly to a disk device destroys its contents.",
+    programs: ["dd"],
+    targets: [/^of=\/dev\/(sd|hd|vd|xvd|nvme|mmcblk|disk)/],
+  },
+  {
+    id: "kill-init",
+    action: "block",
+    riskLevel: "high",
+    reason: "Killing PID 1 will destabilize the system.",
+    programs: ["kill"],
+    anyFlags: ["-9"],
+    targets: [/^1$/],
+  },
+  {
+    id: "kill-all-processes",
+    action: "block",
+    riskLevel: "high",
+    reason: "Sending SIGKILL to PID -1 kills every process you own.",
+    programs: ["kill"],
+    allFlags: ["-9", "-1"],
+  },
+  {
+    id: "killall-force",
+    action: "block",
+    riskLevel: "high",
+    reason: "Force killing every matching process can take the system down.",
+    programs: ["killall"],
+    anyFlags: ["-9"],
+  },
+  {
+    id: "taskkill-force",
+    action: "block",
+    riskLevel: "high",
+    reason: "Force killing processes can take the system down.",
+    programs: ["taskkill"],
+    anyFlags: ["/f"],
+  },
+  {
+    id: "docker-prune-all",
+    action: "block",
+    riskLevel: "high",
+    reason: "Docker prune with -af removes all containers and images.",
+    programs: ["docker"],
+    subcommand: ["system", "prune"],
+    subcommandForms: [["image", "prune"]],
+    allFlags: ["-a", "-f"],
+  },
+  {
+    id: "docker-rm-volumes",
+    action: "block",
+    riskLevel: "high",
+    reason: "Force removing containers together with their volumes loses data.",
+    programs: ["docker"],
+    subcommand: ["rm"],
+    subcommandForms: [["container", ["rm", "remove"]]],
+    allFlags: ["-v", "-f"],
+  },
+  {
+    id: "docker-rmi-force",
+    action: "block",
+    riskLevel: "high",
+    reason: "Force removing images can break running containers.",
+    programs: ["docker"],
+    subcommand: ["rmi"],
+    subcommandForms: [["image", ["rm", "remove"]]],
+    anyFlags: ["-f"],
+  },
+  {
+    id: "iptables-flush",
+    action: "block",
+    riskLevel: "high",
+    reason: "Flushing firewall rules can lock you out or expose the machine.",
+    programs: ["iptables", "ip6tables"],
+    anyFlags: ["-F"],
+  },
+  {
+    id: "ip-link-down",
+    action: "block",
+    riskLevel: "high",
+    reason: "Taking a network interface down can cut off remote access.",
+    programs: ["ip"],
+    subcommand: ["link", "set"],
+    targets: [/^down$/],
+  },
+  {
+    id: "netsh-reset",
+    action: "block",
+    riskLevel: "high",
+    reason: "Resetting the network stack drops all network configuration.",
+    programs: ["netsh"],
+    targets: [/^reset$/i],
+  },
+  {
+    id: "userdel-remove-home",
+    action: "block",
+    riskLevel: "high",
+    reason: "Deleting a user together with their home directory loses data.",
+    programs: ["userdel"],
+    anyFlags: ["-r"],
+  },
+  {
+    id: "deluser-remove-home",
+    action: "block",
+    riskLevel: "high",
+    reason: "Deleting a user together with their home directory loses data.",
+    programs: ["deluser"],
+    anyFlags: ["--remove-home", "--remove-all-files"],
+  },
+  {
+    id: "overwrite-system-file",
+    action: "block",
+    riskLevel: "high",
+    reason: "Overwriting account or sudo configuration can lock everyone out.",
+    programs: ["*"],
+    redirectTargets: SENSITIVE_FILES,
+  },
+  {
+    id: "tee-system-file",
+    action: "block",
+    riskLevel: "high",
+    reason: "Overwriting account or sudo configuration can lock everyone out.",
+    programs: ["tee"],
+    targets: SENSITIVE_FILES,
+  },
+  {
+    id: "bootloader",
+    action: "block",
+    riskLevel: "high",
+    reason: "Modifying the bootloader can leave the system unbootable.",
+    programs: ["update-grub", "grub-install", "grub2-install", "bootsect"],
+  },
+  {
+    id: "recursive-permissions-critical",
+    action: "block",
+    riskLevel: "high",
+    reason: "Recursively changing ownership or permissions of a system directory breaks the system.",
+    programs: ["chmod", "chown", "chgrp"],
+    allFlags: ["-r"],
+    targets: CRITICAL_PATHS,
+  },
+  {
+    id: "find-delete-critical",
+    action: "block",
+    riskLevel: "high",
+    reason: "Deleting everything find matches under a system directory.",
+    programs: ["find"],
+    anyFlags: ["-delete"],
+    targets: CRITICAL_PATHS,
+  },
+
+  /* Warnings */
+  {
+    id: "rm-recursive",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Recursive deletion can remove large amounts of data.",
+    programs: REMOVE_PROGRAMS,
+    allFlags: ["-r"],
+  },
+  {
+    id: "rmdir-recursive",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Recursive deletion can remove large amounts of data.",
+    programs: ["rmdir", "rd", "del", "erase"],
+    anyFlags: ["/s"],
+  },
+  {
+    id: "find-delete",
+    action: "warn",
+    riskLevel: "high",
+    reason: "find -delete removes every file that matches.",
+    programs: ["find"],
+    anyFlags: ["-delete"],
+  },
+  {
+    id: "git-reset-hard",
+    action: "warn",
+    riskLevel: "high",
+    reason: "git reset --hard throws away uncommitted changes.",
+    programs: ["git"],
+    subcommand: ["reset"],
+    anyFlags: ["--hard"],
+  },
+  {
+    id: "git-clean-force",
+    action: "warn",
+    riskLevel: "high",
+    reason: "git clean -f deletes untracked files, which git cannot restore.",
+    programs: ["git"],
+    subcommand: ["clean"],
+    anyFlags: ["-f"],
+  },
+  {
+    id: "git-push-force",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Force pushing can overwrite commits others have pushed.",
+    programs: ["git"],
+    subcommand: ["push"],
+    anyFlags: ["-f", "--force-with-lease"],
+  },
+  {
+    id: "crontab-remove",
+    action: "warn",
+    riskLevel: "high",
+    reason: "crontab -r deletes every scheduled job without asking.",
+    programs: ["crontab"],
+    anyFlags: ["-r"],
+  },
+  {
+    id: "shred",
+    action: "warn",
+    riskLevel: "high",
+    reason: "shred overwrites files so they cannot be recovered.",
+    programs: ["shred"],
+  },
+  {
+    id: "truncate",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Truncating a file discards its contents.",
+    programs: ["truncate"],
+  },
+  {
+    id: "partitioning",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Disk partitioning tools can destroy data.",
+    programs: ["fdisk", "sfdisk", "parted", "diskpart"],
+  },
+  {
+    id: "kill-force",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Force killing processes can cause instability.",
+    programs: ["kill"],
+    anyFlags: ["-9"],
+  },
+  {
+    id: "taskkill",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Killing processes can lose unsaved work.",
+    programs: ["taskkill", "stop-process"],
+  },
+  {
+    id: "docker-remove",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Docker operations may remove containers or images.",
+    programs: ["docker"],
+    subcommand: [["rm", "rmi", "system"]],
+    subcommandForms: [[["container", "image"], ["rm", "remove", "prune"]]],
+  },
+  {
+    id: "firewall",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Changing firewall or network configuration can cut off access.",
+    programs: ["iptables", "ip6tables", "netsh"],
+  },
+  {
+    id: "recursive-permissions",
+    action: "warn",
+    riskLevel: "high",
+    reason: "Recursive permission changes affect many files.",
+    programs: ["chmod", "chown", "chgrp"],
+    allFlags: ["-r"],
+  },
+];
+
+/* -------------------- MATCHING -------------------- */
+
+const NETWORK_PROGRAMS = new Set([
+  "ssh", "mosh", "ping", "ping6", "nc", "ncat", "telnet", "ftp",
+  "traceroute", "dig", "nslookup", "host", "curl", "wget",
+]);
+
+// Only host:path arguments are destinations for these
+const REMOTE_COPY_PROGRAMS = new Set(["scp", "sftp", "rsync"]);
+
+export function matchRules(
+  commands: SimpleCommand[],
+  rules: SafetyRule[] = BUILTIN_RULES,
+  context?: RuleContext
+): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+
+  for (const command of commands) {
+    const normalized = normalizeCommand(command);
+    for (const rule of rules) {
+      if (ruleMatches(rule, normalized, context)) {
+        matches.push({ rule, command });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Converts a glob to an anchored RegExp. `*` and `?` stay within one path
+ * segment, `**` crosses segments and a trailing `/**` also matches the
+ * directory itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const recursive = glob.endsWith("/**");
+  const body = recursive ? glob.slice(0, -3) : glob;
+  let source = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "*" && body[i + 1] === "*") {
+      i++;
+      if (body[i + 1] === "/") {
+        source += "(?:.*/)?";
+        i++;
+      } else {
+        source += ".*";
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(
+    `^${source}${recursive ? "(?:/.*)?" : ""}$`,
+    process.platform === "win32" ? "i" : ""
+  );
+}
+
+function resolvePath(arg: string, context: RuleContext): string {
+  const expanded = arg.replace(/^(~|\$HOME|\$\{HOME\})(?=\/|$)/, context.home);
+  return path.resolve(context.cwd, expanded);
+}
+
+function extractHosts(command: NormalizedCommand): string[] {
+  const hosts: string[] = [];
+
+  for (const arg of command.positionals) {
+    const url = arg.match(/^[a-z][\w+.-]*:\/\/(?:[^@/]*@)?(\[[^\]]+\]|[^:/?#]+)/i);
+    const userAtHost = arg.match(/^[\w.-]+@([\w.-]+)/);
+    const hostPath = arg.match(/^([\w.-]+):/);
+
+    if (url) hosts.push(url[1]);
+    else if (userAtHost) hosts.push(userAtHost[1]);
+    else if (REMOTE_COPY_PROGRAMS.has(command.program) && hostPath) hosts.push(hostPath[1]);
+    else if (NETWORK_PROGRAMS.has(command.program) && /^[\w.-]+(:\d+)?$/.test(arg)) {
+      hosts.push(arg.split(":")[0]);
+    }
+  }
+
+  return hosts.map(host => host.toLowerCase());
+}
+
+function whenMatches(rule: SafetyRule, context?: RuleContext): boolean {
+  const { when } = rule;
+  if (!when) return true;
+  if (!context) return false;
+
+  if (when.os && !when.os.includes(context.os)) return false;
+  if (when.source && !when.source.includes(context.source)) return false;
+  if (when.cwd && !when.cwd.some(glob => globToRegExp(glob).test(context.cwd))) {
+    return false;
+  }
+
+  return true;
+}
+
+function ruleMatches(
+  rule: SafetyRule,
+  command: NormalizedCommand,
+  context?: RuleContext
+): boolean {
+  const programMatches = rule.programs.some(p =>
+    p === "*" ? true : typeof p === "string" ? p === command.program : p.test(command.program)
+  );
+  if (!programMatches || (!command.program && !rule.programs.includes("*"))) {
+    return false;
+  }
+
+  if (!whenMatches(rule, context)) return false;
+
+  let positionals = command.positionals;
+  if (rule.subcommand) {
+    const form = [rule.subcommand, ...(rule.subcommandForms ?? [])].find(form =>
+      form.every((expected, i) => {
+        const actual = positionals[i];
+        return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+      })
+    );
+    if (!form) return false;
+    positionals = positionals.slice(form.length);
+  }
+
+  // A restriction matches when any target does; an allow only covers a
+  // command when every target is one it lists, so allowing ~/scratch/**
+  // says nothing about the other paths in `rm -rf ~/scratch/x ./y`
+  const anyOrAll = <T>(items: T[], test: (item: T) => boolean) =>
+    rule.action === "allow" ? items.length > 0 && items.every(test) : items.some(test);
+
+  // Rule flags go through the same normalization as the command's
+  const ruleFlags = (flags: string[]) =>
+    [...normalizeFlags(command.program, flags)];
+
+  if (rule.allFlags && !ruleFlags(rule.allFlags).every(f => command.flags.has(f))) {
+    return false;
+  }
+
+  if (rule.anyFlags && !ruleFlags(rule.anyFlags).some(f => command.flags.has(f))) {
+    return false;
+  }
+
+  if (rule.targets && !anyOrAll(positionals, arg => rule.targets!.some(t => t.test(arg)))) {
+    return false;
+  }
+
+  if (
+    rule.redirectTargets &&
+    !command.redirectTargets.some(target => rule.redirectTargets!.some(t => t.test(target)))
+  ) {
+    return false;
+  }
+
+  if (rule.paths) {
+    if (!context) return false;
+    const patterns = rule.paths.map(globToRegExp);
+    const touched = [...positionals, ...command.redirectTargets].map(arg =>
+      resolvePath(arg, context)
+    );
+    if (!anyOrAll(touched, p => patterns.some(pattern => pattern.test(p)))) return false;
+  }
+
+  if (rule.hosts) {
+    const patterns = rule.hosts.map(host => globToRegExp(host.toLowerCase()));
+    if (!anyOrAll(extractHosts(command), host => patterns.some(p => p.test(host)))) {
+      return false;
+    }
+  }
+
+  return true;
+}
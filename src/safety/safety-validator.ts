@@ -1,184 +1,329 @@
-import { ResolvedCommand, SafetyResult } from "../types";
+import { ResolvedCommand, SafetyFinding, SafetyResult } from "../types";
 import { PluginManager } from "../plugins/plugin-manager";
+import {
+  ShellDialect,
+  SimpleCommand,
+  defaultDialect,
+  parseCommandLine,
+} from "../parser/command-parser";
+import { PolicyManager } from "./policy-manager";
+import { RuleContext, normalizeCommand } from "./safety-rules";
+import { OSAdapter } from "../os/os-adapter";
+import { DryRunPreviewer } from "../execution/dry-run-previewer";
+import { substituteVariables } from "../execution/variables";
+import { TargetShell } from "../execution/shell-quoting";
+import * as os from "os";
 
-export class SafetyValidator {
-  private readonly dangerousPatterns: RegExp[] = [
-    /rm\s+-rf\s+\/(\s|$)/i,
-    /rmdir\s*\/s\s*\/q\s+c:\\\\/i,
-    /format\s+c:/i,
-    /mkfs\./i,
-    /dd\s+if=.*of=\/dev\/sd/i,
-
-    /kill\s+-9\s+1(\s|$)/i,
-    /killall\s+-9/i,
-    /taskkill\s*\/f/i,
-
-    /docker\s+system\s+prune\s+-af/i,
-    /docker\s+rm\s+-vf/i,
-    /docker\s+rmi\s+-f/i,
-
-    /iptables\s+-F/i,
-    /ip\s+link\s+set.*down/i,
-    /netsh.*reset/i,
-
-    /userdel\s+-r/i,
-    /deluser.*--remove-home/i,
-
-    />\s*\/etc\/passwd/i,
-    />\s*\/etc\/shadow/i,
-    />\s*\/etc\/sudoers/i,
-
-    /update-grub/i,
-    /grub-install/i,
-    /bootsect/i,
-  ];
-
-  private readonly warningPatterns: RegExp[] = [
-    /rm\s+-rf/i,
-    /rmdir\s*\/s/i,
-    /del.*\/s/i,
-    /fdisk/i,
-    /diskpart/i,
-    /kill\s+-9/i,
-    /taskkill/i,
-    /docker\s+(rm|rmi|system)/i,
-    /iptables/i,
-    /netsh/i,
-    /chmod\s+-r/i,
-  ];
+const SHELL_INTERPRETERS = new Set([
+  "sh", "bash", "zsh", "dash", "ksh", "fish", "powershell", "pwsh",
+  "iex", "invoke-expression", "python", "python3", "perl", "ruby", "node",
+]);
+
+const DOWNLOADERS = new Set(["curl", "wget", "invoke-webrequest", "iwr", "irm", "invoke-restmethod"]);
 
+const ELEVATION = new Set(["sudo", "doas", "runas"]);
+
+export class SafetyValidator {
   private pluginManager: PluginManager;
+  private policyManager: PolicyManager;
+  private dialect: ShellDialect;
   private initialized = false;
 
-  constructor(pluginManager: PluginManager) {
+  constructor(
+    pluginManager: PluginManager,
+    dialect: ShellDialect = defaultDialect(),
+    policyManager: PolicyManager = new PolicyManager()
+  ) {
     this.pluginManager = pluginManager;
+    this.dialect = dialect;
+    this.policyManager = policyManager;
   }
 
   private async init(): Promise<void> {
     if (this.initialized) return;
     this.initialized = true;
     await this.pluginManager.init();
+    await this.policyManager.init();
   }
 
+  getPolicyManager(): PolicyManager {
+    return this.policyManager;
+  }
+
+  getDialect(): ShellDialect {
+    return this.dialect;
+  }
+
+  createRuleContext(source: ResolvedCommand["source"]): RuleContext {
+    return {
+      cwd: this.policyManager.getCwd(),
+      home: os.homedir(),
+      os: new OSAdapter().getOS().platform,
+      source,
+    };
+  }
+
+  /**
+   * Collects every finding across every step (policy rules, contextual
+   * checks and all plugins) and summarizes them: blocked if anything
+   * blocks, risk level is the highest one found.
+   */
   async validate(resolvedCommand: ResolvedCommand): Promise<SafetyResult> {
     await this.init();
 
-    // 1️⃣ Plugin safety rules FIRST
-    const pluginResult =
-      this.pluginManager.getSafetyChecks(resolvedCommand);
-    if (pluginResult) {
-      return pluginResult;
-    }
+    const context = this.createRuleContext(resolvedCommand.source);
+    const findings: SafetyFinding[] = [];
 
-    // 2️⃣ Built-in hard blocks
-    for (const command of resolvedCommand.commands) {
-      const cmd = command.toLowerCase().trim();
-
-      for (const pattern of this.dangerousPatterns) {
-        if (pattern.test(cmd)) {
-          return {
-            blocked: true,
-            reason: this.getBlockReason(cmd),
-            riskLevel: "high",
-          };
-        }
+    resolvedCommand.commands.forEach((command, step) => {
+      const parsed = parseCommandLine(command, this.dialect);
+
+      // 1️⃣ Policy rules (built-in defaults, user and project policies)
+      findings.push(...this.policyFindings(parsed.commands, step, context));
+
+      // 2️⃣ Contextual checks
+      findings.push(...this.contextualFindings(parsed.commands, parsed.errors, step));
+    });
+
+    // 3️⃣ Plugins add findings; only trusted plugins may suppress others
+    for (const { plugin, trusted, result } of this.pluginManager.getSafetyChecks(resolvedCommand)) {
+      if (result.blocked || result.warning || result.riskLevel !== "low") {
+        findings.push({
+          step: null,
+          severity: result.blocked ? "block" : result.requiresConfirmation ? "confirm" : "warn",
+          riskLevel: result.blocked ? "high" : result.riskLevel,
+          reason: result.reason ?? result.warning ?? `Flagged by plugin ${plugin}.`,
+          ruleId: result.ruleId,
+          source: "plugin",
+          origin: plugin,
+        });
       }
 
-      // 3️⃣ Built-in warnings
-      for (const pattern of this.warningPatterns) {
-        if (pattern.test(cmd)) {
-          return {
-            blocked: false,
-            warning: this.getWarningReason(cmd),
-            riskLevel: "high",
-          };
-        }
+      if (trusted && result.suppresses?.length) {
+        findings.forEach(finding => {
+          if (finding.source !== "plugin" && finding.ruleId && result.suppresses!.includes(finding.ruleId)) {
+            finding.suppressedBy = plugin;
+          }
+        });
       }
     }
 
-    // 4️⃣ Contextual checks
-    const contextual = this.checkContextualDangers(resolvedCommand);
-    if (contextual) {
-      return contextual;
-    }
+    return summarize(findings);
+  }
 
-    return {
-      blocked: false,
-      riskLevel: "low",
-    };
+  /**
+   * validate() for the commands as they will run, with the values in
+   * their {placeholders}, plus a finding for each value that changes the
+   * shell syntax of a step: adds an operator, a redirection or a nested
+   * command the template did not have. Quoted values never should, so
+   * one that does is treated as an injection attempt.
+   */
+  async validateSubstituted(
+    resolvedCommand: ResolvedCommand,
+    values: { [name: string]: string },
+    shell: TargetShell
+  ): Promise<SafetyResult> {
+    const commands = resolvedCommand.commands.map(command => substituteVariables(command, values, shell));
+    const result = await this.validate({ ...resolvedCommand, commands });
+
+    return summarize([
+      ...(result.findings ?? []),
+      ...this.injectionFindings(resolvedCommand, values, shell),
+    ]);
   }
 
-  private getBlockReason(cmd: string): string {
-    if (/rm\s+-rf\s+\/(\s|$)/i.test(cmd)) {
-      return "Attempting to delete the root directory.";
-    }
-    if (/format\s+c:/i.test(cmd)) {
-      return "Formatting the system drive will destroy all data.";
-    }
-    if (/kill\s+-9\s+1/i.test(cmd)) {
-      return "Killing PID 1 will destabilize the system.";
-    }
-    if (/docker\s+system\s+prune\s+-af/i.test(cmd)) {
-      return "Docker prune with -af removes all containers and images.";
+  private injectionFindings(
+    resolvedCommand: ResolvedCommand,
+    values: { [name: string]: string },
+    shell: TargetShell
+  ): SafetyFinding[] {
+    const findings: SafetyFinding[] = [];
+
+    resolvedCommand.commands.forEach((template, step) => {
+      const shape = this.syntaxShape(template);
+
+      for (const [name, value] of Object.entries(values)) {
+        const filled = substituteVariables(template, { [name]: value }, shell);
+        if (filled === template || this.syntaxShape(filled) === shape) continue;
+
+        const secret = resolvedCommand.variables?.[name]?.type === "secret";
+        const shown = value.length > 60 ? `${value.slice(0, 57)}...` : value;
+        findings.push({
+          step,
+          severity: "confirm",
+          riskLevel: "high",
+          reason: `The value of {${name}}${secret ? "" : ` (${shown})`} adds shell syntax to the command.`,
+          ruleId: "variable-injection",
+          source: "contextual",
+        });
+      }
+    });
+
+    return findings;
+  }
+
+  /**
+   * What the shell makes of a command line apart from the words: how it
+   * splits into commands, how those are joined and nested, redirections.
+   */
+  private syntaxShape(command: string): string {
+    const parsed = parseCommandLine(command, this.dialect);
+
+    return JSON.stringify([
+      parsed.errors.length,
+      parsed.commands.map(cmd => [
+        cmd.operator,
+        cmd.nested,
+        cmd.parent ?? null,
+        cmd.redirections.map(r => r.op),
+      ]),
+    ]);
+  }
+
+  private policyFindings(
+    commands: SimpleCommand[],
+    step: number,
+    context: RuleContext
+  ): SafetyFinding[] {
+    const findings: SafetyFinding[] = [];
+
+    for (const { decision } of this.policyManager.evaluate(commands, context)) {
+      if (!decision) continue;
+      const { rule, layer } = decision;
+      if (rule.action === "allow" || findings.some(f => f.ruleId === rule.id)) continue;
+
+      findings.push({
+        step,
+        severity: rule.action,
+        riskLevel: rule.action === "block" ? "high" : rule.riskLevel,
+        reason: rule.reason,
+        ruleId: rule.id,
+        target: normalizeCommand(decision.command).positionals.slice(-1)[0],
+        source: "policy",
+        origin: layer,
+      });
     }
-    return "Command contains dangerous operations.";
+
+    return findings;
   }
 
-  private getWarningReason(cmd: string): string {
-    if (/rm\s+-rf/i.test(cmd)) {
-      return "Recursive deletion can remove large amounts of data.";
+  private contextualFindings(
+    commands: SimpleCommand[],
+    errors: string[],
+    step: number
+  ): SafetyFinding[] {
+    const findings: SafetyFinding[] = [];
+    const add = (ruleId: string, riskLevel: "medium" | "high", reason: string) =>
+      findings.push({ step, severity: "warn", riskLevel, reason, ruleId, source: "contextual" });
+
+    const remoteScript = commands.some((cmd, i) =>
+      SHELL_INTERPRETERS.has(cmd.program) && this.runsDownloadedCode(commands, i)
+    );
+    if (remoteScript) {
+      add("remote-script", "high", "Piping remote scripts directly into a shell is dangerous.");
     }
-    if (/kill\s+-9/i.test(cmd)) {
-      return "Force killing processes can cause instability.";
+
+    const elevated = commands.some(
+      cmd =>
+        ELEVATION.has(cmd.program) ||
+        cmd.wrappers.some(w => ELEVATION.has(w)) ||
+        (cmd.program === "start-process" &&
+          cmd.args.some(arg => arg.toLowerCase() === "runas"))
+    );
+    if (elevated) {
+      add("elevated-privileges", "medium", "This command requires elevated privileges.");
     }
-    if (/chmod\s+-r/i.test(cmd)) {
-      return "Recursive permission changes affect many files.";
+
+    const dynamic = commands.find(cmd => cmd.dynamicProgram);
+    if (dynamic) {
+      add(
+        "dynamic-program",
+        "medium",
+        `The program "${dynamic.programRaw}" is only known at runtime and cannot be checked.`
+      );
     }
-    if (/docker/i.test(cmd)) {
-      return "Docker operations may remove containers or images.";
+
+    if (errors.length) {
+      add(
+        "unparsed-command",
+        "medium",
+        `Command could not be fully parsed (${errors[0].toLowerCase()}); review it carefully.`
+      );
     }
-    return "This command may have destructive side effects.";
+
+    return findings;
   }
 
-  private checkContextualDangers(
-    resolvedCommand: ResolvedCommand
-  ): SafetyResult | null {
-    for (const command of resolvedCommand.commands) {
-      const cmd = command.toLowerCase().trim();
-
-      if (cmd.includes("sudo") || cmd.includes("runas")) {
-        return {
-          blocked: false,
-          warning:
-            "This command requires elevated privileges.",
-          riskLevel: "medium",
-        };
-      }
+  /**
+   * True when the interpreter at `index` reads a downloaded script: piped
+   * from curl/wget, or fed through $(...) / <(...) / -c "$(curl ...)".
+   */
+  private runsDownloadedCode(commands: SimpleCommand[], index: number): boolean {
+    const current = commands[index];
 
-      if (
-        (cmd.includes("curl") || cmd.includes("wget")) &&
-        cmd.includes("|") &&
-        (cmd.includes("sh") || cmd.includes("bash") || cmd.includes("powershell"))
-      ) {
-        return {
-          blocked: false,
-          warning:
-            "Piping remote scripts directly into a shell is dangerous.",
-          riskLevel: "high",
-        };
+    if (current.operator === "|") {
+      for (let i = index - 1; i >= 0; i--) {
+        const candidate = commands[i];
+        if (candidate.parent !== current.parent || candidate.nested !== current.nested) continue;
+        if (DOWNLOADERS.has(candidate.program)) return true;
+        if (candidate.operator !== "|") break;
       }
     }
 
-    return null;
+    return commands.some(
+      cmd => cmd.parent === index && DOWNLOADERS.has(cmd.program)
+    );
   }
 
-  isDryRunPossible(): boolean {
-    // Explicitly disabled — no false safety guarantees
-    return false;
+  isDryRunPossible(command: string): boolean {
+    return new DryRunPreviewer(this.policyManager.getCwd(), this.dialect).isSupported(command);
   }
 
-  addDryRunFlag(command: string): string {
-    // No fake dry-runs
-    return `echo "[DRY RUN] ${command}"`;
+  /**
+   * Native dry-run form of a command (git clean -n, rsync --dry-run,
+   * apt-get -s, ...), or null when the tool has none.
+   */
+  addDryRunFlag(command: string): string | null {
+    return new DryRunPreviewer(this.policyManager.getCwd(), this.dialect).nativeDryRun(command);
   }
 }
+
+/* -------------------- HELPERS -------------------- */
+
+const SEVERITY_ORDER: Record<SafetyFinding["severity"], number> = {
+  warn: 0,
+  confirm: 1,
+  block: 2,
+};
+
+const RISK_ORDER: Record<SafetyResult["riskLevel"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+function summarize(findings: SafetyFinding[]): SafetyResult {
+  const active = findings
+    .filter(f => !f.suppressedBy)
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity] ||
+        RISK_ORDER[b.riskLevel] - RISK_ORDER[a.riskLevel]
+    );
+
+  const block = active.find(f => f.severity === "block");
+  const warning = active.find(f => f.severity !== "block");
+  const riskLevel = active.reduce<SafetyResult["riskLevel"]>(
+    (max, f) => (RISK_ORDER[f.riskLevel] > RISK_ORDER[max] ? f.riskLevel : max),
+    "low"
+  );
+
+  return {
+    blocked: !!block,
+    ...(block && { reason: block.reason }),
+    ...(warning && { warning: warning.reason }),
+    riskLevel,
+    ...((block ?? warning)?.ruleId && { ruleId: (block ?? warning)!.ruleId }),
+    ...(active.some(f => f.severity === "confirm") && { requiresConfirmation: true }),
+    findings,
+  };
+}
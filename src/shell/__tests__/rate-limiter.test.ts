@@ -0,0 +1,39 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RateLimiter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-limit-'));
+    file = path.join(dir, 'state', 'not-found.json');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should allow the limit per window, across instances', async () => {
+    expect(await new RateLimiter(file, 2, 1000).tryAcquire(0)).toBe(true);
+    expect(await new RateLimiter(file, 2, 1000).tryAcquire(100)).toBe(true);
+    expect(await new RateLimiter(file, 2, 1000).tryAcquire(200)).toBe(false);
+    expect(await new RateLimiter(file, 2, 1000).tryAcquire(1000)).toBe(true);
+  });
+
+  it('should count every attempt made at the same time', async () => {
+    const limiter = new RateLimiter(file, 3, 1000);
+    const results = await Promise.all([0, 1, 2, 3, 4].map(() => limiter.tryAcquire(0)));
+
+    expect(results.filter(Boolean)).toHaveLength(3);
+    expect(await fs.readJson(file)).toEqual([0, 0, 0]);
+  });
+
+  it('should start over when the file is unreadable', async () => {
+    await fs.outputFile(file, '{ broken');
+    expect(await new RateLimiter(file, 1, 1000).tryAcquire(0)).toBe(true);
+    expect(await fs.readJson(file)).toEqual([0]);
+  });
+});
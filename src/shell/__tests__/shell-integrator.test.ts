@@ -0,0 +1,97 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { ShellIntegrator } from '../shell-integrator';
+
+jest.mock('os', () => ({ ...jest.requireActual('os'), homedir: jest.fn() }));
+
+const mockedHomedir = os.homedir as jest.MockedFunction<typeof os.homedir>;
+
+describe('ShellIntegrator', () => {
+  let home: string;
+  let log: jest.SpyInstance;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-shell-'));
+    mockedHomedir.mockReturnValue(home);
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    log.mockRestore();
+    await fs.remove(home);
+  });
+
+  // Sources the installed .bashrc with `ai` replaced by a stub, then runs the Ctrl+T function
+  const pressCtrlT = (stub: string, line: string) =>
+    execFileSync(
+      'bash',
+      [
+        '-c',
+        `source ~/.bashrc; ai() { ${stub}; }; READLINE_LINE=$1; _ai_suggest_readline; printf '%s|%s' "$READLINE_LINE" "$READLINE_POINT"`,
+        'bash',
+        line,
+      ],
+      { encoding: 'utf8', env: { ...process.env, HOME: home } }
+    );
+
+  it('should replace the bash command line with the suggestion', async () => {
+    await new ShellIntegrator().install('bash');
+
+    expect(pressCtrlT(`printf '%s,' "$@"`, 'list files')).toBe('suggest,--print-only,--,list files,|35');
+    expect(pressCtrlT(`echo 'ls -la'`, 'list files')).toBe('ls -la|6');
+    expect(pressCtrlT('return 4', 'delete everything')).toBe('delete everything|');
+  });
+
+  it('should chain to the command-not-found handler that was there before', async () => {
+    await new ShellIntegrator().install('bash');
+
+    // Sourced twice, as when .bashrc is reloaded; without a terminal ai is not asked
+    const output = execFileSync(
+      'bash',
+      [
+        '-c',
+        `command_not_found_handle() { echo "try: apt install $1"; return 100; }
+        source ~/.bashrc; source ~/.bashrc; ai() { echo asked; }
+        gti status; echo "status $?"`,
+      ],
+      { encoding: 'utf8', env: { ...process.env, HOME: home } }
+    );
+
+    expect(output).toBe('try: apt install gti\nstatus 100\n');
+  });
+
+  it('should put a suggestion to edit in bash history before the next prompt', async () => {
+    await new ShellIntegrator().install('bash');
+
+    const output = execFileSync(
+      'bash',
+      [
+        '-c',
+        `set -o history; source ~/.bashrc; mkdir -p ~/.ai-cli; echo 'git status' > ~/.ai-cli/insert.$$
+        eval "$PROMPT_COMMAND"; history 1; [ -f ~/.ai-cli/insert.$$ ] || echo removed`,
+      ],
+      { encoding: 'utf8', env: { ...process.env, HOME: home } }
+    );
+
+    expect(output).toMatch(/^\s*\d+\s+git status\nremoved\n$/);
+  });
+
+  it('should update an earlier install instead of adding another', async () => {
+    const zshrc = path.join(home, '.zshrc');
+    await fs.writeFile(
+      zshrc,
+      'export A=1\n# AI CLI Assistant Integration START\nold\n# AI CLI Assistant Integration END\nexport B=2\n'
+    );
+
+    await new ShellIntegrator().install('zsh');
+
+    const content = await fs.readFile(zshrc, 'utf8');
+    expect(content.match(/Integration START/g)).toHaveLength(1);
+    expect(content).not.toContain('old');
+    expect(content).toContain(`suggestion=$(ai suggest --print-only -- "$BUFFER")`);
+    expect(content).toMatch(/^export A=1\n/);
+    expect(content).toMatch(/\nexport B=2\n$/);
+  });
+});
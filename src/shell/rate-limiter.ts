@@ -0,0 +1,47 @@
+import * as fs from 'fs-extra';
+import { LockTimeoutError, withFileLock, writeJsonAtomic } from '../storage/atomic-file';
+
+// The shell waits for the hook; rather skip this attempt than hang
+const LOCK_TIMEOUT_MS = 2_000;
+
+/**
+ * Allows at most `limit` attempts per `windowMs`, counted across processes
+ * in a small JSON file of attempt times, read and rewritten under its
+ * lock. The shell hooks start a new ai for every event, so the count
+ * cannot live in memory. A file that cannot be read counts as no attempts.
+ */
+export class RateLimiter {
+  constructor(
+    private readonly filePath: string,
+    private readonly limit: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Records an attempt when it is within the limit; false when it is not,
+   * or when the file stays locked by another process.
+   */
+  async tryAcquire(now: number = Date.now()): Promise<boolean> {
+    try {
+      return await withFileLock(
+        this.filePath,
+        async () => {
+          const recent = (await this.attempts()).filter(time => now - time < this.windowMs);
+          if (recent.length >= this.limit) return false;
+
+          await writeJsonAtomic(this.filePath, [...recent, now]);
+          return true;
+        },
+        { timeoutMs: LOCK_TIMEOUT_MS }
+      );
+    } catch (error) {
+      if (error instanceof LockTimeoutError) return false;
+      throw error;
+    }
+  }
+
+  private async attempts(): Promise<number[]> {
+    const data = await fs.readJson(this.filePath).catch(() => []);
+    return Array.isArray(data) ? data.filter((time): time is number => typeof time === 'number') : [];
+  }
+}
@@ -70,11 +70,62 @@ export class ShellIntegrator {
     const bashrc = path.join(this.homeDir, '.bashrc');
     const script = `
 ${START_MARKER}
-ai_suggest_missing_command() {
-  if ! command -v "$1" >/dev/null 2>&1; then
-    ai suggest "$*" --explain
-    return 127
+# Unknown commands: after the usual message (or the handler that was here
+# before, e.g. the distro's package suggester), ask ai what was meant.
+# Only at a terminal; AI_CLI_NO_NOT_FOUND=1 turns it off
+if declare -F command_not_found_handle >/dev/null &&
+  [[ $(declare -f command_not_found_handle) != *"ai not-found"* ]]; then
+  eval "_ai_previous_$(declare -f command_not_found_handle)"
+fi
+command_not_found_handle() {
+  local ret=127
+  if declare -F _ai_previous_command_not_found_handle >/dev/null; then
+    _ai_previous_command_not_found_handle "$@"
+    ret=$?
+  else
+    printf 'bash: %s: command not found\\n' "$1" >&2
   fi
+  if [ -z "\${AI_CLI_NO_NOT_FOUND-}" ] && [ -t 0 ] && [ -t 1 ] && [ -t 2 ] && command -v ai >/dev/null; then
+    # 127 means nothing ran; anything else is the status of what did
+    ai not-found --insert-file "$HOME/.ai-cli/insert.$$" -- "$@"
+    local ai_ret=$?
+    [ -f "$HOME/.ai-cli/insert.$$" ] && echo "Press Up to edit it"
+    [ "$ai_ret" -eq 127 ] || return "$ai_ret"
+  fi
+  return "$ret"
+}
+
+# The handler runs in a subshell, so a suggestion to edit is passed
+# through a file and put in history before the next prompt
+_ai_insert_suggestion() {
+  local file="$HOME/.ai-cli/insert.$$"
+  [ -f "$file" ] || return 0
+  history -s "$(<"$file")"
+  rm -f "$file"
+}
+if [[ $PROMPT_COMMAND != *_ai_insert_suggestion* ]]; then
+  PROMPT_COMMAND="_ai_insert_suggestion\${PROMPT_COMMAND:+;$PROMPT_COMMAND}"
+fi
+
+# Ctrl+T: replace the command line with the command ai suggests for it,
+# to edit and run from here (and keep in history)
+_ai_suggest_readline() {
+  [ -n "$READLINE_LINE" ] || return
+  local suggestion
+  suggestion=$(ai suggest --print-only -- "$READLINE_LINE") || return
+  READLINE_LINE=$suggestion
+  READLINE_POINT=\${#READLINE_LINE}
+}
+if [[ $- == *i* ]]; then
+  bind -x '"\\C-t": _ai_suggest_readline'
+fi
+
+# Run right after a failed command: ai_fix
+ai_fix() {
+  local exit_code=$?
+  local last_command
+  last_command=$(fc -ln -2 -2 2>/dev/null | sed 's/^[[:space:]]*//')
+  ai fix --exit-code "$exit_code" -- "$last_command"
 }
 ${END_MARKER}
 `;
@@ -86,11 +137,62 @@ ${END_MARKER}
     const zshrc = path.join(this.homeDir, '.zshrc');
     const script = `
 ${START_MARKER}
+# Ctrl+T: replace the command line with the command ai suggests for it,
+# to edit and run from here (and keep in history)
 _ai_suggest_widget() {
-  zle -M "Press Enter to get AI suggestion"
+  [[ -n $BUFFER ]] || return
+  local suggestion
+  # Let warnings from ai print above the prompt
+  zle -I
+  suggestion=$(ai suggest --print-only -- "$BUFFER") || return 1
+  BUFFER=$suggestion
+  CURSOR=\${#BUFFER}
 }
 zle -N _ai_suggest_widget
 bindkey '^T' _ai_suggest_widget
+
+# Unknown commands: after the usual message (or the handler that was here
+# before), ask ai what was meant. Only at a terminal; AI_CLI_NO_NOT_FOUND=1
+# turns it off
+if (( $+functions[command_not_found_handler] )) &&
+  [[ $functions[command_not_found_handler] != *"ai not-found"* ]]; then
+  functions[_ai_previous_command_not_found_handler]=$functions[command_not_found_handler]
+fi
+command_not_found_handler() {
+  local ret=127
+  if (( $+functions[_ai_previous_command_not_found_handler] )); then
+    _ai_previous_command_not_found_handler "$@"
+    ret=$?
+  else
+    print -u2 -r -- "zsh: command not found: $1"
+  fi
+  if [[ -z \${AI_CLI_NO_NOT_FOUND-} && -t 0 && -t 1 && -t 2 ]] && (( $+commands[ai] )); then
+    # 127 means nothing ran; anything else is the status of what did
+    ai not-found --insert-file "$HOME/.ai-cli/insert.$$" -- "$@"
+    local ai_ret=$?
+    (( ai_ret == 127 )) || return $ai_ret
+  fi
+  return $ret
+}
+
+# The handler runs in a subshell, so a suggestion to edit is passed
+# through a file and put on the command line at the next prompt
+_ai_insert_suggestion() {
+  local file="$HOME/.ai-cli/insert.$$"
+  [[ -f $file ]] || return 0
+  print -rz -- "$(<$file)"
+  rm -f -- "$file"
+}
+autoload -Uz add-zsh-hook
+add-zsh-hook precmd _ai_insert_suggestion
+
+# Run right after a failed command: ai_fix
+ai_fix() {
+  local exit_code=$?
+  local last_command
+  last_command=$(fc -ln -2 -2 2>/dev/null)
+  ai fix --exit-code "$exit_code" -- "$last_command"
+}
 ${END_MARKER}
 `;
     await this.appendBlock(zshrc, script);
@@ -101,17 +203,28 @@ ${END_MARKER}
     const profilePath = await this.getPowerShellProfilePath();
     const script = `
 ${START_MARKER}
-function Invoke-AICommandSuggestion {
-  param([string]$CommandLine)
-  ai suggest -- "$CommandLine" --explain
-}
-
-Set-PSReadLineKeyHandler -Key "Ctrl+t" -ScriptBlock {
+# Ctrl+T: replace the command line with the command ai suggests for it,
+# to edit and run from here (and keep in history)
+Set-PSReadLineKeyHandler -Chord "Ctrl+t" -BriefDescription "AISuggest" -ScriptBlock {
   param($key, $arg)
   $line = $null
   $cursor = $null
   [Microsoft.PowerShell.PSConsoleReadLine]::GetBufferState([ref]$line, [ref]$cursor)
-  Invoke-AICommandSuggestion -CommandLine $line
+  if (-not $line) { return }
+
+  $suggestion = ai suggest --print-only -- "$line"
+  # Redraw the line under whatever ai printed
+  [Microsoft.PowerShell.PSConsoleReadLine]::InvokePrompt()
+  if ($LASTEXITCODE -eq 0 -and $suggestion) {
+    [Microsoft.PowerShell.PSConsoleReadLine]::Replace(0, $line.Length, ($suggestion -join "; "))
+  }
+}
+
+# Run right after a failed command: Invoke-AIFix
+function Invoke-AIFix {
+  $exitCode = $LASTEXITCODE
+  $last = (Get-History -Count 1).CommandLine
+  ai fix --exit-code $exitCode -- "$last"
 }
 ${END_MARKER}
 `;
@@ -146,11 +259,21 @@ ${END_MARKER}
     return stdout.trim();
   }
 
+  /**
+   * Appends the block, or replaces the one an earlier install added so
+   * installing again updates it.
+   */
   private async appendBlock(filePath: string, block: string): Promise<void> {
     await fs.ensureFile(filePath);
     const content = await fs.readFile(filePath, 'utf8');
 
-    if (content.includes(START_MARKER)) return;
+    const start = content.indexOf(START_MARKER);
+    const end = content.indexOf(END_MARKER);
+    if (start !== -1 && end !== -1) {
+      const updated = content.slice(0, start) + block.trim() + content.slice(end + END_MARKER.length);
+      await fs.writeFile(filePath, updated);
+      return;
+    }
 
     await fs.appendFile(filePath, '\n' + block + '\n');
   }
@@ -0,0 +1,168 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import {
+  LockTimeoutError,
+  backupPath,
+  readJsonWithRecovery,
+  withFileLock,
+  writeJsonAtomic,
+} from '../atomic-file';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('atomic-file', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-atomic-'));
+    file = path.join(dir, 'data.json');
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  describe('withFileLock', () => {
+    it('should run holders one at a time', async () => {
+      const events: string[] = [];
+      const holder = (name: string) =>
+        withFileLock(file, async () => {
+          events.push(`${name} in`);
+          await sleep(20);
+          events.push(`${name} out`);
+        });
+
+      await Promise.all([holder('a'), holder('b'), holder('c')]);
+
+      for (let i = 0; i < events.length; i += 2) {
+        expect(events[i + 1]).toBe(events[i].replace('in', 'out'));
+      }
+      expect(await fs.pathExists(`${file}.lock`)).toBe(false);
+    });
+
+    it('should release the lock when the holder throws', async () => {
+      await expect(withFileLock(file, async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+
+      await expect(withFileLock(file, async () => 'again')).resolves.toBe('again');
+    });
+
+    it('should time out while another holder keeps the lock', async () => {
+      await fs.mkdir(`${file}.lock`);
+
+      await expect(withFileLock(file, async () => undefined, { timeoutMs: 50 })).rejects.toBeInstanceOf(
+        LockTimeoutError
+      );
+    });
+
+    it('should break a stale lock left by a crashed process', async () => {
+      await fs.mkdir(`${file}.lock`);
+      const old = new Date(Date.now() - 60_000);
+      await fs.utimes(`${file}.lock`, old, old);
+
+      await expect(withFileLock(file, async () => 'taken')).resolves.toBe('taken');
+    });
+  });
+
+  describe('writeJsonAtomic', () => {
+    it('should keep rolling backups of the previous content', async () => {
+      for (let version = 1; version <= 4; version++) {
+        await writeJsonAtomic(file, { version }, { backups: 2 });
+      }
+
+      expect(await fs.readJson(file)).toEqual({ version: 4 });
+      expect(await fs.readJson(backupPath(file, 1))).toEqual({ version: 3 });
+      expect(await fs.readJson(backupPath(file, 2))).toEqual({ version: 2 });
+      expect(await fs.pathExists(backupPath(file, 3))).toBe(false);
+      expect((await fs.readdir(dir)).filter(f => f.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+
+  describe('readJsonWithRecovery', () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it('should return the fallback for a missing file', async () => {
+      expect(await readJsonWithRecovery(file, [], 3)).toEqual([]);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should restore the newest readable backup and keep the damaged file', async () => {
+      await fs.writeFile(file, '{"version": ');
+      await fs.writeFile(backupPath(file, 1), 'also broken');
+      await fs.writeJson(backupPath(file, 2), { version: 2 });
+
+      expect(await readJsonWithRecovery(file, {}, 3)).toEqual({ version: 2 });
+      expect(await fs.readJson(file)).toEqual({ version: 2 });
+
+      const corrupt = (await fs.readdir(dir)).filter(f => f.startsWith('data.json.corrupt-'));
+      expect(corrupt).toHaveLength(1);
+      expect(await fs.readFile(path.join(dir, corrupt[0]), 'utf8')).toBe('{"version": ');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(backupPath(file, 2)));
+    });
+
+    it('should start from the fallback when no backup can be read', async () => {
+      await fs.writeFile(file, '');
+
+      expect(await readJsonWithRecovery(file, [], 3)).toEqual([]);
+      expect(await fs.readJson(file)).toEqual([]);
+    });
+  });
+
+  describe('across processes', () => {
+    const WORKERS = 4;
+    const INCREMENTS = 25;
+
+    // Each worker increments a shared counter; any lost update or torn
+    // write shows up as a wrong total or a restore warning
+    const worker = `
+      const { withFileLock, readJsonWithRecovery, writeJsonAtomic } = require(${JSON.stringify(
+        path.join(__dirname, '..', 'atomic-file')
+      )});
+      const file = process.argv[1];
+      (async () => {
+        for (let i = 0; i < ${INCREMENTS}; i++) {
+          await withFileLock(file, async () => {
+            const data = await readJsonWithRecovery(file, { count: 0 }, 2);
+            await writeJsonAtomic(file, { count: data.count + 1 }, { backups: 2 });
+          });
+        }
+      })().catch(error => {
+        console.error(error);
+        process.exit(1);
+      });
+    `;
+
+    const runWorker = () =>
+      new Promise<string>((resolve, reject) => {
+        const child = spawn(
+          process.execPath,
+          ['-r', 'ts-node/register/transpile-only', '-e', worker, file],
+          { stdio: ['ignore', 'pipe', 'pipe'] }
+        );
+        let output = '';
+        child.stdout?.on('data', chunk => (output += chunk));
+        child.stderr?.on('data', chunk => (output += chunk));
+        child.on('error', reject);
+        child.on('close', code =>
+          code === 0 ? resolve(output) : reject(new Error(`worker exited with ${code}: ${output}`))
+        );
+      });
+
+    it('should not lose increments from parallel processes', async () => {
+      const outputs = await Promise.all(Array.from({ length: WORKERS }, runWorker));
+
+      expect(outputs.join('')).toBe('');
+      expect(await fs.readJson(file)).toEqual({ count: WORKERS * INCREMENTS });
+    }, 60_000);
+  });
+});
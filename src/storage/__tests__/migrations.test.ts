@@ -0,0 +1,158 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { MIGRATIONS, Migration, SCHEMA_VERSION, SchemaVersionError, migrateDataDir } from '../migrations';
+
+describe('migrateDataDir', () => {
+  let dir: string;
+  const vaultPath = () => path.join(dir, 'vault.json');
+  const metadataPath = () => path.join(dir, 'metadata.json');
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-migrate-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  const runOnly = (version: number) => migrateDataDir(dir, MIGRATIONS, version);
+
+  it('should mark a new data directory as current without migrating', async () => {
+    expect(await migrateDataDir(dir)).toEqual([]);
+
+    expect(await fs.readJson(metadataPath())).toMatchObject({ schemaVersion: SCHEMA_VERSION });
+    expect(await fs.pathExists(path.join(dir, 'backups'))).toBe(false);
+  });
+
+  it('should treat the 1.0.0 metadata as schema 1 and migrate it to the latest', async () => {
+    await fs.writeJson(metadataPath(), { version: '1.0.0', created: '2024-01-01T00:00:00.000Z' });
+    await fs.writeJson(vaultPath(), [{ id: 'a', command: 'echo {who}' }]);
+
+    const applied = await migrateDataDir(dir);
+
+    expect(applied.map(m => m.version)).toEqual([2, 3, 4]);
+    const metadata = await fs.readJson(metadataPath());
+    expect(metadata).toEqual({ created: '2024-01-01T00:00:00.000Z', schemaVersion: SCHEMA_VERSION });
+    expect(await migrateDataDir(dir)).toEqual([]);
+  });
+
+  it('should turn single commands into lists and fill in missing fields (v2)', async () => {
+    await fs.writeJson(vaultPath(), [
+      { id: 'a', command: 'ls -la', createdAt: '2024-01-01T00:00:00.000Z' },
+      { commands: ['git status'], description: 'Status', tags: ['git'], usageCount: 4 },
+    ]);
+
+    await runOnly(2);
+
+    const [a, b] = await fs.readJson(vaultPath());
+    expect(a).toEqual({
+      id: 'a',
+      commands: ['ls -la'],
+      description: 'Command: ls -la',
+      tags: [],
+      usageCount: 0,
+      lastUsed: '2024-01-01T00:00:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      confidence: 0.7,
+      source: 'user',
+    });
+    expect(a).not.toHaveProperty('command');
+    expect(b).toMatchObject({ id: expect.any(String), commands: ['git status'], tags: ['git'], usageCount: 4 });
+    expect(b).not.toHaveProperty('variables');
+  });
+
+  it('should detect variables in entries that have none yet (v3)', async () => {
+    await fs.writeJson(metadataPath(), { schemaVersion: 2 });
+    await fs.writeJson(vaultPath(), [
+      { id: 'a', commands: ['ssh {user}@{host}'] },
+      { id: 'b', commands: ['echo {kept}'], variables: { kept: 'Described' } },
+      { id: 'c', commands: ['ls'] },
+    ]);
+
+    await runOnly(3);
+
+    const entries = await fs.readJson(vaultPath());
+    expect(entries.map((e: { variables?: object }) => e.variables)).toEqual([
+      { user: '', host: '' },
+      { kept: 'Described' },
+      undefined,
+    ]);
+  });
+
+  it('should turn variable descriptions into specs (v4)', async () => {
+    await fs.writeJson(metadataPath(), { schemaVersion: 3 });
+    await fs.writeJson(vaultPath(), [
+      { id: 'a', commands: ['ssh {user}@{host}'], variables: { user: 'Login', host: '' } },
+      { id: 'b', commands: ['echo {n}'], variables: { n: { type: 'int' } } },
+      { id: 'c', commands: ['ls'] },
+    ]);
+
+    await runOnly(4);
+
+    const entries = await fs.readJson(vaultPath());
+    expect(entries.map((e: { variables?: object }) => e.variables)).toEqual([
+      { user: { description: 'Login' }, host: {} },
+      { n: { type: 'int' } },
+      undefined,
+    ]);
+  });
+
+  it('should run every migration idempotently', async () => {
+    await fs.writeJson(vaultPath(), [{ id: 'a', command: 'echo {x}', lastUsed: 'x', createdAt: 'y' }]);
+    await migrateDataDir(dir);
+    const once = await fs.readFile(vaultPath(), 'utf8');
+
+    for (const migration of MIGRATIONS) {
+      await migration.up(dir);
+    }
+
+    expect(await fs.readFile(vaultPath(), 'utf8')).toBe(once);
+  });
+
+  it('should back up the files before each migration', async () => {
+    await fs.writeJson(metadataPath(), { version: '1.0.0' });
+    await fs.writeJson(vaultPath(), [{ id: 'a', command: 'ls' }]);
+
+    await migrateDataDir(dir);
+
+    const backups = (await fs.readdir(path.join(dir, 'backups'))).sort();
+    expect(backups).toEqual([
+      expect.stringMatching(/^schema-v1-\d+$/),
+      expect.stringMatching(/^schema-v2-\d+$/),
+      expect.stringMatching(/^schema-v3-\d+$/),
+    ]);
+    expect(await fs.readJson(path.join(dir, 'backups', backups[0], 'vault.json'))).toEqual([{ id: 'a', command: 'ls' }]);
+    expect(await fs.readJson(path.join(dir, 'backups', backups[0], 'metadata.json'))).toEqual({ version: '1.0.0' });
+  });
+
+  it('should stop at a failing migration and resume from it next time', async () => {
+    await fs.writeJson(metadataPath(), { schemaVersion: 1 });
+    let fail = true;
+    const migrations: Migration[] = [
+      { version: 2, description: 'ok', files: [], up: async () => undefined },
+      {
+        version: 3,
+        description: 'flaky',
+        files: [],
+        up: async () => {
+          if (fail) throw new Error('disk full');
+        },
+      },
+    ];
+
+    await expect(migrateDataDir(dir, migrations, 3)).rejects.toThrow('disk full');
+    expect((await fs.readJson(metadataPath())).schemaVersion).toBe(2);
+
+    fail = false;
+    expect((await migrateDataDir(dir, migrations, 3)).map(m => m.version)).toEqual([3]);
+  });
+
+  it('should refuse a schema newer than it understands', async () => {
+    await fs.writeJson(metadataPath(), { schemaVersion: SCHEMA_VERSION + 1 });
+    await fs.writeJson(vaultPath(), []);
+
+    await expect(migrateDataDir(dir)).rejects.toBeInstanceOf(SchemaVersionError);
+    expect(await fs.readJson(metadataPath())).toEqual({ schemaVersion: SCHEMA_VERSION + 1 });
+  });
+});
@@ -0,0 +1,193 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DATABASE_FILE, closeSqliteStores, openSqliteStore } from '../sqlite-store';
+import { SchemaVersionError } from '../migrations';
+import { CommandEntry } from '../../types';
+import { HistoryEntry } from '../../audit/history-log';
+
+const entry = (id: string, overrides: Partial<CommandEntry> = {}): CommandEntry => ({
+  id,
+  commands: [`echo ${id}`],
+  description: id,
+  tags: [],
+  usageCount: 0,
+  lastUsed: new Date(1000),
+  createdAt: new Date(1000),
+  confidence: 0.7,
+  source: 'user',
+  ...overrides,
+});
+
+const historyEntry = (id: string): HistoryEntry => ({
+  id,
+  timestamp: new Date(0).toISOString(),
+  cwd: '/',
+  input: id,
+  source: 'vault',
+  explanation: '',
+  commands: ['ls'],
+  findings: [],
+  steps: [],
+});
+
+describe('SqliteStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-sqlite-'));
+  });
+
+  afterEach(async () => {
+    await closeSqliteStores();
+    await fs.remove(dir);
+  });
+
+  it('should keep vault entries in insertion order and update them in place', async () => {
+    const { vault } = await openSqliteStore(dir);
+
+    await vault.transaction(tx => {
+      tx.put(entry('a'));
+      tx.put(entry('b', { commands: ['Git Status'] }));
+      tx.put({ ...entry('a'), usageCount: 3 });
+    });
+
+    expect((await vault.list()).map(e => [e.id, e.usageCount])).toEqual([
+      ['a', 3],
+      ['b', 0],
+    ]);
+    expect((await vault.list())[0].lastUsed).toEqual(new Date(1000));
+
+    const found = await vault.transaction(tx => tx.findByCommands(['git status']));
+    expect(found?.id).toBe('b');
+  });
+
+  it('should roll back a transaction that throws', async () => {
+    const { vault } = await openSqliteStore(dir);
+    await vault.transaction(tx => tx.put(entry('a')));
+
+    await expect(
+      vault.transaction(tx => {
+        tx.remove('a');
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect((await vault.list()).map(e => e.id)).toEqual(['a']);
+  });
+
+  it('should evict the oldest cache entries', async () => {
+    const { cache } = await openSqliteStore(dir);
+
+    for (let i = 1; i <= 3; i++) {
+      await cache.set(`k${i}`, { response: `r${i}`, timestamp: i, expiresAt: Infinity }, 2);
+    }
+
+    expect(await cache.get('k1')).toBeUndefined();
+    expect(await cache.get('k3')).toEqual({ response: 'r3', timestamp: 3, expiresAt: Infinity });
+  });
+
+  it('should import the JSON files once', async () => {
+    await fs.writeJson(path.join(dir, 'vault.json'), [entry('a'), entry('b')]);
+    await fs.writeJson(path.join(dir, 'metadata.json'), { created: '2020-01-01T00:00:00.000Z' });
+    await fs.writeJson(path.join(dir, 'cache.json'), {
+      fresh: { response: 'yes', timestamp: 1, expiresAt: Date.now() + 60_000 },
+      stale: { response: 'no', timestamp: 1, expiresAt: 1 },
+    });
+    await fs.writeFile(
+      path.join(dir, 'history.log.1'),
+      JSON.stringify(historyEntry('h1')) + '\n{"partial'
+    );
+    await fs.writeFile(path.join(dir, 'history.log'), JSON.stringify(historyEntry('h2')) + '\n');
+
+    let store = await openSqliteStore(dir);
+    expect((await store.vault.list()).map(e => e.id)).toEqual(['a', 'b']);
+    expect(await store.cache.get('fresh')).toMatchObject({ response: 'yes' });
+    expect(await store.cache.get('stale')).toBeUndefined();
+    expect((await store.history.list()).map(e => e.id)).toEqual(['h1', 'h2']);
+
+    // Changes made afterwards are not overwritten by a second import
+    await store.vault.transaction(tx => tx.remove('a'));
+    await closeSqliteStores();
+    store = await openSqliteStore(dir);
+    expect((await store.vault.list()).map(e => e.id)).toEqual(['b']);
+  });
+
+  it('should bring imported entries up to the current schema', async () => {
+    // Opened by the cache before StorageManager migrated vault.json
+    await fs.writeJson(path.join(dir, 'metadata.json'), { version: '1.0.0' });
+    await fs.writeJson(path.join(dir, 'vault.json'), [{ id: 'a', command: 'ls' }]);
+
+    const { vault } = await openSqliteStore(dir);
+
+    expect(await vault.list()).toEqual([
+      expect.objectContaining({ id: 'a', commands: ['ls'], tags: [], usageCount: 0, source: 'user' }),
+    ]);
+    expect(await fs.readJson(path.join(dir, 'vault.json'))).toEqual([{ id: 'a', command: 'ls' }]);
+  });
+
+  it('should turn variable descriptions imported before schema 4 into specs', async () => {
+    let store = await openSqliteStore(dir);
+    await store.vault.transaction(tx =>
+      tx.put({ ...entry('a'), variables: { user: 'Login', host: '' } as unknown as CommandEntry['variables'] })
+    );
+    await closeSqliteStores();
+
+    // As a schema 3 build left it: imported once, variables still strings
+    const db = new Database(path.join(dir, DATABASE_FILE));
+    db.prepare("UPDATE meta SET value = '3' WHERE key = 'schemaVersion'").run();
+    db.close();
+
+    store = await openSqliteStore(dir);
+    expect((await store.vault.list())[0].variables).toEqual({ user: { description: 'Login' }, host: {} });
+  });
+
+  it('should narrow vault searches down to entries sharing a word with the query', async () => {
+    const { vault } = await openSqliteStore(dir);
+    await vault.transaction(tx => {
+      tx.put(entry('status', { commands: ['git status --porcelain'], description: 'Show the working tree' }));
+      tx.put(entry('logs', { commands: ['find . -name "*.log" -delete'], description: 'Delete log files', usageCount: 2 }));
+      tx.put(entry('prune', { commands: ['docker system prune'], description: 'Remove unused data', usageCount: 5 }));
+    });
+
+    expect((await vault.search('git stauts')).map(e => e.id)).toEqual(['status']);
+    expect((await vault.search('remove logs')).map(e => e.id)).toEqual(['prune', 'logs']);
+    expect(await vault.search('make coffee')).toEqual([]);
+
+    await vault.transaction(tx => tx.remove('prune'));
+    expect((await vault.search('remove logs')).map(e => e.id)).toEqual(['logs']);
+  });
+
+  it('should rebuild the full-text index of older databases', async () => {
+    let store = await openSqliteStore(dir);
+    await store.vault.transaction(tx => tx.put(entry('a', { description: 'Restart nginx' })));
+    await closeSqliteStores();
+
+    // Version 1 indexed trigrams
+    let db = new Database(path.join(dir, DATABASE_FILE));
+    db.exec('DROP TABLE commands_vocab; DROP TABLE commands_fts;');
+    db.exec("CREATE VIRTUAL TABLE commands_fts USING fts5(name, description, commands, tags, tokenize = 'trigram')");
+    db.pragma('user_version = 1');
+    db.close();
+
+    store = await openSqliteStore(dir);
+    expect((await store.vault.search('restart')).map(e => e.id)).toEqual(['a']);
+    await closeSqliteStores();
+
+    db = new Database(path.join(dir, DATABASE_FILE));
+    expect(db.prepare("SELECT sql FROM sqlite_master WHERE name = 'commands_fts'").get()).toEqual({
+      sql: expect.stringContaining('unicode61'),
+    });
+    expect(db.pragma('user_version', { simple: true })).toBe(3);
+    db.close();
+  });
+
+  it('should refuse a database written by a newer version', async () => {
+    const db = new Database(path.join(dir, DATABASE_FILE));
+    db.pragma('user_version = 99');
+    db.close();
+
+    await expect(openSqliteStore(dir)).rejects.toBeInstanceOf(SchemaVersionError);
+  });
+});
@@ -0,0 +1,143 @@
+import { execFileSync } from 'child_process';
+import { exportVault, formatFromPath, parseVariables, parseVault } from '../vault-format';
+import { CommandEntry } from '../../types';
+
+const entry = (overrides: Partial<CommandEntry>): CommandEntry => ({
+  id: '0123456789abcdef',
+  commands: ['ls'],
+  description: 'List',
+  tags: [],
+  usageCount: 0,
+  lastUsed: new Date(0),
+  createdAt: new Date(0),
+  confidence: 0.7,
+  source: 'user',
+  ...overrides,
+});
+
+describe('exportVault', () => {
+  it('should export editable fields only to YAML', () => {
+    const variables = { name: { description: 'Who' }, times: { type: 'int' as const, default: '2' } };
+    const yaml = exportVault([entry({ name: 'greet', commands: ['echo {name} {times}'], variables })], 'yaml');
+
+    expect(yaml).toContain('name: greet');
+    expect(yaml).toContain('name: Who');
+    expect(yaml).not.toContain('usageCount');
+    expect(parseVault(yaml, 'yaml').commands).toEqual([
+      { name: 'greet', description: 'List', commands: ['echo {name} {times}'], variables },
+    ]);
+  });
+
+  it('should turn variables into parameters of bash functions', () => {
+    const script = exportVault(
+      [
+        entry({ name: 'greet', commands: ['echo Hello {name}, "welcome to {place}!"', "echo '{name} said hi'"] }),
+        entry({ name: 'greet', commands: ['echo second'] }),
+      ],
+      'bash'
+    );
+
+    expect(script).toContain('greet() {');
+    expect(script).toContain('greet_2() {');
+
+    const run = (call: string) =>
+      execFileSync('bash', ['-c', `${script}\n${call}`], { encoding: 'utf8' });
+    expect(run("greet 'Ada  Lovelace' 'the *lab*'")).toBe(
+      'Hello Ada  Lovelace, welcome to the *lab*!\nAda  Lovelace said hi\n'
+    );
+    expect(() => run('greet only-one 2>/dev/null')).toThrow();
+  });
+
+  it('should stop a bash function at the first failing step', () => {
+    const script = exportVault([entry({ name: 'steps', commands: ['false', 'echo unreachable'] })], 'bash');
+
+    expect(script).toContain('  false || return\n  echo unreachable\n');
+  });
+
+  it('should declare mandatory PowerShell parameters', () => {
+    const script = exportVault([entry({ name: 'greet', commands: ["Write-Output 'Hi {name}, it''s $5'"] })], 'powershell');
+
+    expect(script).toContain('function greet {');
+    expect(script).toContain('param([Parameter(Mandatory = $true)][string]$name)');
+    expect(script).toContain('Write-Output "Hi ${name}, it\'s `$5"');
+  });
+});
+
+describe('parseVault', () => {
+  it('should read the native JSON export', () => {
+    const json = exportVault([entry({ name: 'list', tags: ['fs'] })], 'json');
+
+    expect(parseVault(json, 'json').commands).toEqual([
+      expect.objectContaining({ name: 'list', commands: ['ls'], tags: ['fs'], source: 'user' }),
+    ]);
+  });
+
+  it('should skip invalid entries and report them', () => {
+    const { commands, errors } = parseVault('- commands: ls\n- name: nothing\n- commands: [1]\n', 'yaml');
+
+    expect(commands).toEqual([{ commands: ['ls'] }]);
+    expect(errors).toEqual([
+      'entry 2: commands must be a command or a non-empty list of commands',
+      'entry 3: commands must be a command or a non-empty list of commands',
+    ]);
+  });
+
+  it('should reject entries with invalid variable specs', () => {
+    const { commands, errors } = parseVault('- commands: ["echo {n}"]\n  variables: { n: { type: number } }\n', 'yaml');
+
+    expect(commands).toEqual([]);
+    expect(errors).toEqual(['entry 1: variables.n: type must be one of string, int, path, file, enum, secret']);
+  });
+
+  it('should refuse shell function formats', () => {
+    expect(parseVault('', 'bash').errors).toEqual(['cannot import bash, use json or yaml']);
+  });
+});
+
+describe('parseVariables', () => {
+  it('should read descriptions and specs', () => {
+    const { variables, errors } = parseVariables({
+      plain: 'Just a description',
+      empty: null,
+      port: { type: 'int', default: 8080, pattern: '\\d{2,5}' },
+      env: { description: 'Target', choices: ['dev', 'prod'] },
+      branch: { type: 'enum', choicesCommand: '  git branch  ' },
+    });
+
+    expect(errors).toEqual([]);
+    expect(variables).toEqual({
+      plain: { description: 'Just a description' },
+      empty: {},
+      port: { type: 'int', default: '8080', pattern: '\\d{2,5}' },
+      env: { description: 'Target', type: 'enum', choices: ['dev', 'prod'] },
+      branch: { type: 'enum', choicesCommand: 'git branch' },
+    });
+  });
+
+  it('should leave out and report invalid specs', () => {
+    const { variables, errors } = parseVariables({
+      ok: 'fine',
+      list: ['a'],
+      regex: { pattern: '(' },
+      choice: { type: 'enum' },
+      mixed: { type: 'int', choices: [1, 2] },
+    });
+
+    expect(Object.keys(variables)).toEqual(['ok']);
+    expect(errors).toEqual([
+      'variables.list: must be a description or a mapping',
+      'variables.regex: pattern ( is not a valid regular expression',
+      'variables.choice: an enum needs choices or a choicesCommand',
+      'variables.mixed: choices and choicesCommand are only for enum variables',
+    ]);
+    expect(parseVariables(['x']).errors).toEqual(['variables must be a mapping of name to description or spec']);
+  });
+});
+
+describe('formatFromPath', () => {
+  it('should pick the format from the extension', () => {
+    expect(formatFromPath('vault.yml')).toBe('yaml');
+    expect(formatFromPath('aliases.ps1')).toBe('powershell');
+    expect(formatFromPath('vault')).toBeUndefined();
+  });
+});
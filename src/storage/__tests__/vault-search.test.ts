@@ -0,0 +1,103 @@
+import { editDistance, rankEntries, tokenize } from '../vault-search';
+import { CommandEntry } from '../../types';
+
+const entry = (id: string, overrides: Partial<CommandEntry> = {}): CommandEntry => ({
+  id,
+  commands: [`echo ${id}`],
+  description: id,
+  tags: [],
+  usageCount: 0,
+  lastUsed: new Date(0),
+  createdAt: new Date(0),
+  confidence: 0.7,
+  source: 'user',
+  ...overrides,
+});
+
+const vault = [
+  entry('status', { commands: ['git status --porcelain'], description: 'git status, porcelain', tags: ['git'] }),
+  entry('logs', { commands: ['find . -name "*.log" -delete'], description: 'Delete log files', tags: ['cleanup'] }),
+  entry('deploy', { name: 'deploy-app', commands: ['npm run build', 'npm run deploy'], description: 'Ship it' }),
+  entry('docker', { commands: ['docker ps -a'], description: 'List all containers', tags: ['docker'] }),
+];
+
+const ids = (query: string) => rankEntries(vault, query).map(match => match.id);
+const score = (query: string, id: string) => rankEntries(vault, query).find(match => match.id === id)?.score ?? 0;
+
+describe('rankEntries', () => {
+  it('should match requests word by word instead of as one substring', () => {
+    expect(ids('show git status')[0]).toBe('status');
+    expect(score('show git status', 'status')).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('should score a full exact match 1 and leave unrelated entries out', () => {
+    expect(score('git status', 'status')).toBe(1);
+    expect(ids('make coffee')).toEqual([]);
+  });
+
+  it('should tolerate typos and partial words', () => {
+    expect(ids('stauts')).toEqual(['status']);
+    expect(ids('dpeloy app')).toEqual(['deploy']);
+    expect(ids('porcel')).toEqual(['status']);
+    expect(score('stauts', 'status')).toBeLessThan(1);
+  });
+
+  it('should expand synonyms', () => {
+    expect(ids('remove log files')[0]).toBe('logs');
+    expect(score('remove log files', 'logs')).toBeGreaterThan(0.6);
+    expect(score('delete log files', 'logs')).toBeGreaterThan(score('remove log files', 'logs'));
+  });
+
+  it('should weigh rare words above common ones', () => {
+    const entries = [
+      entry('a', { description: 'git push' }),
+      entry('b', { description: 'git pull' }),
+      entry('c', { description: 'git fetch' }),
+    ];
+
+    const [best, ...rest] = rankEntries(entries, 'git pull');
+    expect(best.id).toBe('b');
+    expect(rest.every(match => match.score < 0.5)).toBe(true);
+  });
+
+  it('should keep requests that only partly match an entry below the vault threshold', () => {
+    const entries = [
+      entry('prune', { commands: ['docker system prune -af'], description: 'Remove unused docker data', tags: ['docker'] }),
+      entry('pod', { commands: ['kubectl delete pod {pod}'], description: 'Delete a pod', tags: ['kubernetes'] }),
+      entry('clean', { commands: ['rm -rf {dir}'], description: 'Remove a directory' }),
+    ];
+    const best = (query: string) => rankEntries(entries, query)[0]?.score ?? 0;
+
+    expect(best('stop docker')).toBeLessThan(0.6);
+    expect(best('delete all pods in prod namespace')).toBeLessThan(0.6);
+    expect(best('remove file')).toBeLessThan(0.6);
+    expect(best('remove unused docker data')).toBeGreaterThan(0.9);
+  });
+
+  it('should break ties by usage', () => {
+    const entries = [entry('rare', { description: 'backup' }), entry('often', { description: 'backup', usageCount: 9 })];
+
+    expect(rankEntries(entries, 'backup').map(match => match.id)).toEqual(['often', 'rare']);
+  });
+
+  it('should ignore filler words unless nothing else is left', () => {
+    expect(score('show me all the status', 'status')).toBe(score('show status', 'status'));
+    expect(ids('the')).toEqual([]);
+    expect(rankEntries([entry('x', { description: 'The end' })], 'the').map(match => match.id)).toEqual(['x']);
+  });
+});
+
+describe('tokenize', () => {
+  it('should split on anything but letters and digits', () => {
+    expect(tokenize('git status --porcelain; Deploy-App v2')).toEqual(['git', 'status', 'porcelain', 'deploy', 'app', 'v2']);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count an adjacent swap as one edit', () => {
+    expect(editDistance('status', 'stauts')).toBe(1);
+    expect(editDistance('deploy', 'dpeloy')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('abcdef', 'uvwxyz', 1)).toBeGreaterThan(1);
+  });
+});
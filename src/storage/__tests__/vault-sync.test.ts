@@ -0,0 +1,165 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { SyncStore, VaultSync, mergeEntries } from '../vault-sync';
+import { CommandEntry } from '../../types';
+
+const entry = (id: string, overrides: Partial<CommandEntry> = {}): CommandEntry => ({
+  id,
+  commands: [`echo ${id}`],
+  description: id,
+  tags: [],
+  usageCount: 0,
+  lastUsed: new Date(1000),
+  createdAt: new Date(1000),
+  confidence: 0.7,
+  source: 'user',
+  ...overrides,
+});
+
+class MemoryStore implements SyncStore {
+  entries: CommandEntry[] = [];
+
+  async updateCommands(update: (commands: CommandEntry[]) => CommandEntry[]): Promise<void> {
+    this.entries = update(this.entries.map(e => ({ ...e, tags: [...e.tags] })));
+  }
+
+  update(id: string, changes: Partial<CommandEntry>): void {
+    this.entries = this.entries.map(e => (e.id === id ? { ...e, ...changes } : e));
+  }
+}
+
+describe('VaultSync', () => {
+  let dir: string;
+  let remote: string;
+  let alice: MemoryStore;
+  let bob: MemoryStore;
+  let aliceSync: VaultSync;
+  let bobSync: VaultSync;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-cli-sync-'));
+    remote = path.join(dir, 'remote.git');
+    execFileSync('git', ['init', '--quiet', '--bare', remote]);
+
+    alice = new MemoryStore();
+    bob = new MemoryStore();
+    aliceSync = new VaultSync(path.join(dir, 'alice'), alice);
+    bobSync = new VaultSync(path.join(dir, 'bob'), bob);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('should share entries through a bare repository, one file per command', async () => {
+    alice.entries = [entry('a'), entry('b')];
+
+    expect(await aliceSync.sync(remote)).toMatchObject({ pushed: true, pulled: 0, conflicts: [] });
+    expect(await fs.readdir(path.join(dir, 'alice', 'commands'))).toEqual(['a.json', 'b.json']);
+
+    expect(await bobSync.sync(remote)).toMatchObject({ pushed: false, pulled: 2 });
+    expect(bob.entries.map(e => e.id).sort()).toEqual(['a', 'b']);
+    expect(bob.entries[0].author).toEqual(expect.any(String));
+  });
+
+  it('should leave the choices commands of synced entries out but keep our own', async () => {
+    const variables = { branch: { type: 'enum' as const, choicesCommand: 'git branch' } };
+    alice.entries = [entry('a', { commands: ['git checkout {branch}'], variables })];
+
+    await aliceSync.sync(remote);
+    await bobSync.sync(remote);
+    await aliceSync.sync(remote);
+
+    expect(bob.entries[0].variables).toEqual({ branch: {} });
+    expect(alice.entries[0].variables).toEqual(variables);
+  });
+
+  it('should merge concurrent edits of the same entry', async () => {
+    alice.entries = [entry('a', { usageCount: 1, tags: ['x'] })];
+    await aliceSync.sync(remote);
+    await bobSync.sync(remote);
+
+    alice.update('a', { usageCount: 3, description: 'Alice wrote this' });
+    bob.update('a', { usageCount: 4, tags: ['x', 'y'] });
+
+    await aliceSync.sync();
+    const result = await bobSync.sync();
+    await aliceSync.sync();
+
+    expect(result.conflicts).toEqual([]);
+    for (const store of [alice, bob]) {
+      expect(store.entries[0]).toMatchObject({
+        usageCount: 6,
+        description: 'Alice wrote this',
+        tags: ['x', 'y'],
+      });
+    }
+  });
+
+  it('should keep the local description and report the remote one on conflict', async () => {
+    alice.entries = [entry('a')];
+    await aliceSync.sync(remote);
+    await bobSync.sync(remote);
+
+    alice.update('a', { description: 'from alice' });
+    bob.update('a', { description: 'from bob' });
+
+    await aliceSync.sync();
+    const result = await bobSync.sync();
+
+    expect(result.conflicts).toEqual([
+      { id: 'a', field: 'description', local: 'from bob', remote: 'from alice' },
+    ]);
+    expect(bob.entries[0].description).toBe('from bob');
+  });
+
+  it('should keep commands saved by another process while git was busy', async () => {
+    alice.entries = [entry('a')];
+    // Saved after the fetch, before the sync writes the merge back
+    const update = alice.updateCommands.bind(alice);
+    jest.spyOn(alice, 'updateCommands').mockImplementation(async fn => {
+      alice.entries.push(entry('b'));
+      return update(fn);
+    });
+
+    await aliceSync.sync(remote);
+    await bobSync.sync(remote);
+
+    expect(alice.entries.map(e => e.id)).toEqual(['a', 'b']);
+    expect(bob.entries.map(e => e.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should propagate deletions', async () => {
+    alice.entries = [entry('a'), entry('b')];
+    await aliceSync.sync(remote);
+    await bobSync.sync(remote);
+
+    alice.entries = alice.entries.filter(e => e.id !== 'a');
+    await aliceSync.sync();
+    await bobSync.sync();
+
+    expect(bob.entries.map(e => e.id)).toEqual(['b']);
+  });
+
+  it('should ask for a remote the first time', async () => {
+    await expect(aliceSync.sync()).rejects.toThrow('No sync repository yet');
+  });
+});
+
+describe('mergeEntries', () => {
+  it('should keep a change made on one side when the other side deleted the entry', () => {
+    const base = [entry('a')];
+    const { entries, conflicts } = mergeEntries(base, [entry('a', { description: 'edited' })], [], 'me');
+
+    expect(entries.map(e => e.description)).toEqual(['edited']);
+    expect(conflicts).toEqual([expect.objectContaining({ id: 'a', field: 'entry' })]);
+  });
+
+  it('should sign new local entries with the author', () => {
+    const { entries } = mergeEntries([], [entry('a'), entry('b', { author: 'sam' })], [], 'me');
+
+    expect(entries.map(e => e.author)).toEqual(['me', 'sam']);
+  });
+});
@@ -0,0 +1,181 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface LockOptions {
+  timeoutMs?: number; // Give up waiting for the lock after this long
+  staleMs?: number; // A lock older than this was left by a crashed process
+}
+
+export interface AtomicWriteOptions {
+  spaces?: number;
+  backups?: number; // Rolling copies kept as <file>.bak.1 (newest) ... .bak.N
+}
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const RETRY_BASE_MS = 5;
+const RETRY_MAX_MS = 200;
+
+export class LockTimeoutError extends Error {
+  readonly file: string;
+
+  constructor(file: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for the lock on ${file}`);
+    this.name = 'LockTimeoutError';
+    this.file = file;
+  }
+}
+
+/**
+ * Runs `fn` while holding an exclusive lock on `file`, shared by every
+ * process. The lock is a `<file>.lock` directory because mkdir is atomic
+ * everywhere. Contention is retried with jittered exponential backoff, and
+ * locks left behind by crashed processes are broken once they are stale.
+ */
+export async function withFileLock<T>(
+  file: string,
+  fn: () => Promise<T>,
+  options: LockOptions = {}
+): Promise<T> {
+  const lockPath = `${file}.lock`;
+  const timeoutMs = options.timeoutMs ?? LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? LOCK_STALE_MS;
+  const started = Date.now();
+
+  await fs.ensureDir(path.dirname(file));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await fs.mkdir(lockPath);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (await isStale(lockPath, staleMs)) {
+      // Rename first so only one waiting process breaks the lock
+      const broken = `${lockPath}.stale-${process.pid}`;
+      await fs.rename(lockPath, broken).then(
+        () => fs.remove(broken),
+        () => undefined
+      );
+      continue;
+    }
+
+    if (Date.now() - started > timeoutMs) {
+      throw new LockTimeoutError(file, timeoutMs);
+    }
+
+    const backoff = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+    await sleep(backoff / 2 + Math.random() * backoff);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.remove(lockPath);
+  }
+}
+
+/**
+ * Writes JSON to a temporary file next to `file` and renames it over the
+ * original, so readers see either the old or the new content, never half
+ * of it. With `backups`, the previous content is kept first.
+ */
+export async function writeJsonAtomic(
+  file: string,
+  data: unknown,
+  options: AtomicWriteOptions = {}
+): Promise<void> {
+  const backups = options.backups ?? 0;
+  if (backups > 0 && (await fs.pathExists(file))) {
+    await rotateBackups(file, backups);
+  }
+
+  await replaceFile(file, tmpPath => fs.writeJson(tmpPath, data, { spaces: options.spaces }));
+}
+
+/**
+ * Writes text to `file` through a temporary file, like writeJsonAtomic.
+ */
+export async function writeFileAtomic(file: string, text: string): Promise<void> {
+  await replaceFile(file, tmpPath => fs.outputFile(tmpPath, text));
+}
+
+async function replaceFile(file: string, write: (tmpPath: string) => Promise<void>): Promise<void> {
+  const tmpPath = `${file}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+  try {
+    await write(tmpPath);
+    await fs.rename(tmpPath, file);
+  } catch (error) {
+    await fs.remove(tmpPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Reads JSON, returning `fallback` when the file does not exist. A file
+ * that no longer parses is moved aside and replaced by the newest backup
+ * that does; with no usable backup, `fallback` is returned.
+ */
+export async function readJsonWithRecovery<T>(
+  file: string,
+  fallback: T,
+  backups = 0
+): Promise<T> {
+  if (!(await fs.pathExists(file))) return fallback;
+
+  try {
+    return await fs.readJson(file);
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+  }
+
+  const corruptPath = `${file}.corrupt-${Date.now()}`;
+  await fs.copy(file, corruptPath);
+
+  let restored = fallback;
+  let source = 'no backup could be read; starting empty';
+  for (let n = 1; n <= backups; n++) {
+    const backup = backupPath(file, n);
+    if (!(await fs.pathExists(backup))) continue;
+
+    try {
+      restored = await fs.readJson(backup);
+      source = `restored it from ${backup}`;
+      break;
+    } catch {
+      // This backup is damaged too, try an older one
+    }
+  }
+
+  await writeJsonAtomic(file, restored, { spaces: 2 });
+  console.warn(`${file} was corrupted; ${source} (damaged copy kept as ${corruptPath}).`);
+  return restored;
+}
+
+export function backupPath(file: string, n: number): string {
+  return `${file}.bak.${n}`;
+}
+
+async function rotateBackups(file: string, backups: number): Promise<void> {
+  for (let n = backups - 1; n >= 1; n--) {
+    if (await fs.pathExists(backupPath(file, n))) {
+      await fs.rename(backupPath(file, n), backupPath(file, n + 1));
+    }
+  }
+  await fs.copy(file, backupPath(file, 1));
+}
+
+async function isStale(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const { mtimeMs } = await fs.stat(lockPath);
+    return Date.now() - mtimeMs > staleMs;
+  } catch {
+    return false; // Released in the meantime
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
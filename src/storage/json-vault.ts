@@ -0,0 +1,105 @@
+import * as fs from 'fs-extra';
+import { CommandEntry } from '../types';
+import { VaultBackend, VaultTransaction, commandsKey } from './storage-backend';
+import { readJsonWithRecovery, withFileLock, writeJsonAtomic } from './atomic-file';
+import { SCHEMA_VERSION } from './migrations';
+
+const VAULT_BACKUPS = 3;
+
+/**
+ * The vault as one JSON file (vault.json) plus metadata.json. Every
+ * transaction reads and rewrites the whole file under its lock.
+ */
+export class JsonVault implements VaultBackend {
+  private readonly vaultPath: string;
+  private readonly metadataPath: string;
+
+  constructor(vaultPath: string, metadataPath: string) {
+    this.vaultPath = vaultPath;
+    this.metadataPath = metadataPath;
+  }
+
+  async init(): Promise<void> {
+    await withFileLock(this.vaultPath, async () => {
+      if (!(await fs.pathExists(this.vaultPath))) {
+        await writeJsonAtomic(this.vaultPath, [], { spaces: 2 });
+      }
+
+      if (!(await fs.pathExists(this.metadataPath))) {
+        await writeJsonAtomic(
+          this.metadataPath,
+          {
+            schemaVersion: SCHEMA_VERSION,
+            created: new Date().toISOString(),
+            lastUpdated: new Date().toISOString(),
+            totalCommands: 0,
+          },
+          { spaces: 2 }
+        );
+      }
+    });
+  }
+
+  async list(): Promise<CommandEntry[]> {
+    const data = await readJsonWithRecovery<CommandEntry[]>(this.vaultPath, [], VAULT_BACKUPS);
+    return data.map(reviveDates);
+  }
+
+  async search(): Promise<CommandEntry[]> {
+    return this.list();
+  }
+
+  async transaction<T>(fn: (vault: VaultTransaction) => T): Promise<T> {
+    return withFileLock(this.vaultPath, async () => {
+      const list = await this.list();
+      let changed = false;
+
+      const indexOf = (id: string) => list.findIndex(c => c.id === id);
+      const result = fn({
+        list: () => [...list],
+        get: id => list.find(c => c.id === id),
+        findByCommands: commands => list.find(c => commandsKey(c.commands) === commandsKey(commands)),
+        put: entry => {
+          const index = indexOf(entry.id);
+          if (index === -1) list.push(entry);
+          else list[index] = entry;
+          changed = true;
+        },
+        remove: id => {
+          const index = indexOf(id);
+          if (index === -1) return;
+          list.splice(index, 1);
+          changed = true;
+        },
+        replaceAll: entries => {
+          list.splice(0, list.length, ...entries);
+          changed = true;
+        },
+      });
+
+      if (changed) {
+        await writeJsonAtomic(this.vaultPath, list, { spaces: 2, backups: VAULT_BACKUPS });
+        await this.updateMetadata(list.length);
+      }
+      return result;
+    });
+  }
+
+  // Only called under the vault lock, which also guards the metadata
+  private async updateMetadata(totalCommands: number): Promise<void> {
+    const meta = await readJsonWithRecovery(this.metadataPath, { schemaVersion: SCHEMA_VERSION }, 0);
+    await writeJsonAtomic(
+      this.metadataPath,
+      { ...meta, lastUpdated: new Date().toISOString(), totalCommands },
+      { spaces: 2 }
+    );
+  }
+}
+
+export function reviveDates(cmd: CommandEntry): CommandEntry {
+  return {
+    ...cmd,
+    lastUsed: new Date(cmd.lastUsed),
+    createdAt: new Date(cmd.createdAt),
+  };
+}
@@ -0,0 +1,210 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { CommandEntry, VariableSpec } from '../types';
+import { readJsonWithRecovery, withFileLock, writeJsonAtomic } from './atomic-file';
+
+/**
+ * Schema of the files in ~/.ai-cli this build reads and writes. Bump it
+ * together with a new entry in MIGRATIONS.
+ *
+ * The vault is not always vault.json: with the sqlite engine it lives in
+ * ai-cli.db, which SqliteStore brings up to date with `updateEntry` when
+ * it opens. A migration that changes vault entries must therefore do it in
+ * `updateEntry` (see entryMigration); `up` only ever sees the JSON files.
+ */
+export const SCHEMA_VERSION = 4;
+
+export interface Migration {
+  version: number; // Schema version after this migration
+  description: string;
+  files: string[]; // Files it rewrites, relative to the data directory; backed up first
+  up(dataDir: string): Promise<void>; // Must be safe to run twice
+  updateEntry?(entry: StoredEntry): StoredEntry; // The same change for one vault entry, wherever it is stored
+}
+
+export interface Metadata {
+  schemaVersion?: number;
+  version?: string; // Before schemaVersion existed: always '1.0.0'
+  created?: string;
+  lastUpdated?: string;
+  totalCommands?: number;
+}
+
+export class SchemaVersionError extends Error {
+  readonly found: number;
+
+  constructor(found: number, supported: number, where: string) {
+    super(
+      `${where} uses schema version ${found}, but this version of ai only understands up to ${supported}. ` +
+        'Upgrade ai-cli-assistant to use it.'
+    );
+    this.name = 'SchemaVersionError';
+    this.found = found;
+  }
+}
+
+// An entry as any earlier schema may have stored it
+export type StoredEntry = Partial<Omit<CommandEntry, 'lastUsed' | 'createdAt' | 'variables'>> & {
+  command?: string;
+  lastUsed?: string;
+  createdAt?: string;
+  variables?: { [name: string]: string | VariableSpec }; // Descriptions before schema 4
+};
+
+export const MIGRATIONS: Migration[] = [
+  entryMigration(2, 'Store commands as a list of steps and fill in missing fields', entry => {
+    const { command, ...rest } = entry;
+    const commands = rest.commands ?? (command !== undefined ? [command] : []);
+    const now = new Date().toISOString();
+
+    return {
+      ...rest,
+      id: rest.id ?? randomUUID(),
+      commands,
+      description: rest.description ?? `Command: ${commands.join('; ')}`,
+      tags: rest.tags ?? [],
+      usageCount: rest.usageCount ?? 0,
+      lastUsed: rest.lastUsed ?? rest.createdAt ?? now,
+      createdAt: rest.createdAt ?? now,
+      confidence: rest.confidence ?? 0.7,
+      source: rest.source ?? 'user',
+    };
+  }),
+  entryMigration(3, 'Detect {variables} in commands saved before they were detected automatically', entry => {
+    if (entry.variables !== undefined || !entry.commands) return entry;
+
+    // The placeholder pattern as it was in schema 3
+    const names = entry.commands.flatMap(command =>
+      [...command.matchAll(/(?<!\$)\{([A-Za-z_][\w-]*)\}/g)].map(match => match[1])
+    );
+    // Schema 3 described variables with a string, empty until edited
+    return names.length ? { ...entry, variables: Object.fromEntries(names.map(name => [name, ''])) } : entry;
+  }),
+  entryMigration(4, 'Turn variable descriptions into variable specs with a type, default and choices', entry => {
+    if (!entry.variables) return entry;
+
+    const variables = Object.fromEntries(
+      Object.entries(entry.variables).map(([name, spec]) => [
+        name,
+        typeof spec === 'string' ? (spec ? { description: spec } : {}) : spec,
+      ])
+    );
+    return { ...entry, variables };
+  }),
+];
+
+/**
+ * Vault entries stored at schema `from`, with the `updateEntry` of every
+ * later migration applied in order. For vaults outside vault.json.
+ */
+export function migrateEntries(
+  entries: StoredEntry[],
+  from: number,
+  migrations: Migration[] = MIGRATIONS,
+  target: number = SCHEMA_VERSION
+): StoredEntry[] {
+  return migrations
+    .filter(m => m.updateEntry && m.version > from && m.version <= target)
+    .sort((a, b) => a.version - b.version)
+    .reduce((list, migration) => list.map(entry => migration.updateEntry!(entry)), entries);
+}
+
+/**
+ * Brings the data directory up to SCHEMA_VERSION, one migration at a time,
+ * under the vault lock. Each migration's files are copied to
+ * backups/schema-v<from>-<time>/ before it runs, and the version is saved
+ * after each step so an interrupted upgrade resumes where it stopped.
+ * Returns the migrations applied.
+ */
+export async function migrateDataDir(
+  dataDir: string,
+  migrations: Migration[] = MIGRATIONS,
+  target: number = SCHEMA_VERSION
+): Promise<Migration[]> {
+  const vaultPath = path.join(dataDir, 'vault.json');
+  const metadataPath = path.join(dataDir, 'metadata.json');
+
+  return withFileLock(vaultPath, async () => {
+    const metadata = await readJsonWithRecovery<Metadata>(metadataPath, {});
+    const stored = await storedVersion(metadata, vaultPath, target);
+
+    if (stored > target) {
+      throw new SchemaVersionError(stored, target, dataDir);
+    }
+
+    const pending = migrations
+      .filter(m => m.version > stored && m.version <= target)
+      .sort((a, b) => a.version - b.version);
+
+    let current = stored;
+    for (const migration of pending) {
+      await backupFiles(dataDir, migration, current);
+      await migration.up(dataDir);
+      current = migration.version;
+      await saveVersion(metadataPath, current);
+    }
+
+    if (!pending.length && metadata.schemaVersion !== current) {
+      await saveVersion(metadataPath, current);
+    }
+    return pending;
+  });
+}
+
+/**
+ * metadata.json's schemaVersion. Files from before it existed are version
+ * 1; a directory without any data is new and already current.
+ */
+export async function storedVersion(metadata: Metadata, vaultPath: string, target: number): Promise<number> {
+  if (typeof metadata.schemaVersion === 'number') return metadata.schemaVersion;
+  if (metadata.version || (await fs.pathExists(vaultPath))) return 1;
+  return target;
+}
+
+async function saveVersion(metadataPath: string, schemaVersion: number): Promise<void> {
+  const metadata = await readJsonWithRecovery<Metadata>(metadataPath, {});
+  delete metadata.version;
+  await writeJsonAtomic(
+    metadataPath,
+    { created: new Date().toISOString(), ...metadata, schemaVersion },
+    { spaces: 2 }
+  );
+}
+
+async function backupFiles(dataDir: string, migration: Migration, from: number): Promise<void> {
+  const dir = path.join(dataDir, 'backups', `schema-v${from}-${Date.now()}`);
+
+  for (const file of [...migration.files, 'metadata.json']) {
+    const source = path.join(dataDir, file);
+    if (await fs.pathExists(source)) {
+      await fs.copy(source, path.join(dir, file));
+    }
+  }
+}
+
+/**
+ * A migration that only changes vault entries: `update` is applied to
+ * vault.json here and to ai-cli.db by SqliteStore.
+ */
+function entryMigration(
+  version: number,
+  description: string,
+  update: (entry: StoredEntry) => StoredEntry
+): Migration {
+  return {
+    version,
+    description,
+    files: ['vault.json'],
+    up: dataDir => updateVault(dataDir, update),
+    updateEntry: update,
+  };
+}
+
+async function updateVault(dataDir: string, update: (entry: StoredEntry) => StoredEntry): Promise<void> {
+  const vaultPath = path.join(dataDir, 'vault.json');
+  if (!(await fs.pathExists(vaultPath))) return;
+
+  const entries = await readJsonWithRecovery<StoredEntry[]>(vaultPath, [], 3);
+  await writeJsonAtomic(vaultPath, entries.map(update), { spaces: 2 });
+}
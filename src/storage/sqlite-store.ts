@@ -0,0 +1,476 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { CommandEntry } from '../types';
+import { HistoryEntry } from '../audit/history-log';
+import {
+  CacheBackend,
+  CacheEntry,
+  HistoryBackend,
+  VaultBackend,
+  VaultTransaction,
+  commandsKey,
+} from './storage-backend';
+import { reviveDates } from './json-vault';
+import { readJsonWithRecovery } from './atomic-file';
+import { matchingTokens } from './vault-search';
+import {
+  Metadata,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+  StoredEntry,
+  migrateEntries,
+  storedVersion,
+} from './migrations';
+
+export const DATABASE_FILE = 'ai-cli.db';
+const DATABASE_VERSION = 3; // PRAGMA user_version of the layout below
+
+const BUSY_TIMEOUT_MS = 10_000;
+const MAX_HISTORY_ENTRIES = 10_000;
+
+// Entries are stored as JSON; the columns next to them exist for lookups
+// and ordering, and the full-text index narrows vault searches down to the
+// entries sharing a word with the query. Version 1 indexed trigrams and
+// version 2 had no index.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS commands (
+    position INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    commands_key TEXT NOT NULL,
+    usage_count INTEGER NOT NULL,
+    last_used INTEGER NOT NULL,
+    entry TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS commands_by_key ON commands (commands_key);
+  CREATE INDEX IF NOT EXISTS commands_by_usage ON commands (usage_count DESC);
+  CREATE INDEX IF NOT EXISTS commands_by_last_used ON commands (last_used DESC);
+  CREATE VIRTUAL TABLE IF NOT EXISTS commands_fts USING fts5(
+    name, description, commands, tags,
+    tokenize = 'unicode61 remove_diacritics 0'
+  );
+  CREATE VIRTUAL TABLE IF NOT EXISTS commands_vocab USING fts5vocab(commands_fts, 'row');
+
+  CREATE TABLE IF NOT EXISTS cache (
+    key TEXT PRIMARY KEY,
+    response TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS cache_by_timestamp ON cache (timestamp);
+
+  CREATE TABLE IF NOT EXISTS history (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    timestamp TEXT NOT NULL,
+    entry TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS history_by_timestamp ON history (timestamp);
+`;
+
+const stores = new Map<string, Promise<SqliteStore>>();
+
+/**
+ * The store in `dataDir`, opened once per process and shared by the vault,
+ * the cache and the history.
+ */
+export function openSqliteStore(dataDir: string): Promise<SqliteStore> {
+  const file = path.join(dataDir, DATABASE_FILE);
+
+  let store = stores.get(file);
+  if (!store) {
+    store = SqliteStore.open(dataDir);
+    stores.set(file, store);
+    store.catch(() => stores.delete(file));
+  }
+  return store;
+}
+
+export async function closeSqliteStores(): Promise<void> {
+  const open = [...stores.values()];
+  stores.clear();
+
+  for (const store of open) {
+    (await store.catch(() => null))?.close();
+  }
+}
+
+/**
+ * Vault, cache and history in one SQLite database (~/.ai-cli/ai-cli.db),
+ * using the optional better-sqlite3 package. WAL mode and a busy timeout
+ * let several ai processes use it at once.
+ */
+export class SqliteStore {
+  readonly vault: SqliteVault;
+  readonly cache: SqliteCache;
+  readonly history: SqliteHistory;
+  private readonly db: BetterSqlite3.Database;
+
+  private constructor(db: BetterSqlite3.Database) {
+    this.db = db;
+    this.vault = new SqliteVault(db);
+    this.cache = new SqliteCache(db);
+    this.history = new SqliteHistory(db);
+  }
+
+  static async open(dataDir: string): Promise<SqliteStore> {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error(
+        'The sqlite storage engine needs the better-sqlite3 package (npm install better-sqlite3); ' +
+          'set "storage" back to "json" to use the JSON files instead.'
+      );
+    }
+
+    await fs.ensureDir(dataDir);
+    const file = path.join(dataDir, DATABASE_FILE);
+    const db = new Database(file, { timeout: BUSY_TIMEOUT_MS });
+
+    const found = db.pragma('user_version', { simple: true }) as number;
+    if (found > DATABASE_VERSION) {
+      db.close();
+      throw new SchemaVersionError(found, DATABASE_VERSION, file);
+    }
+
+    db.pragma('journal_mode = WAL');
+    db.transaction(() => upgradeSchema(db)).immediate();
+
+    const store = new SqliteStore(db);
+    try {
+      await store.importJsonFiles(dataDir);
+      store.migrateVault(file);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+    return store;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * One-time migration of vault.json, cache.json, metadata.json and the
+   * history log. The JSON files are left in place untouched; the imported
+   * vault entries are brought up to SCHEMA_VERSION on the way in.
+   */
+  private async importJsonFiles(dataDir: string): Promise<void> {
+    if (this.getMeta('importedJsonAt')) return;
+
+    const file = (name: string) => path.join(dataDir, name);
+    const metadata = await readJsonWithRecovery<Metadata>(file('metadata.json'), {});
+    // vault.json may not be migrated yet, e.g. when the cache opens the store first
+    const version = await storedVersion(metadata, file('vault.json'), SCHEMA_VERSION);
+    if (version > SCHEMA_VERSION) throw new SchemaVersionError(version, SCHEMA_VERSION, dataDir);
+    const commands = toEntries(await readJsonWithRecovery<StoredEntry[]>(file('vault.json'), [], 3), version);
+    const cache = await readJsonWithRecovery<Record<string, CacheEntry>>(file('cache.json'), {});
+    const history = await readHistoryLog(file('history.log'));
+
+    this.db
+      .transaction(() => {
+        // Another process may have imported while we were reading
+        if (this.getMeta('importedJsonAt')) return;
+
+        this.vault.insertAll(commands);
+        for (const [key, entry] of Object.entries(cache)) {
+          if (entry.expiresAt > Date.now()) this.cache.insert(key, entry);
+        }
+        history.forEach(entry => this.history.insert(entry));
+
+        this.setMeta('created', metadata.created ?? new Date().toISOString());
+        this.setMeta('schemaVersion', String(SCHEMA_VERSION));
+        this.setMeta('importedJsonAt', new Date().toISOString());
+      })
+      .immediate();
+  }
+
+  /**
+   * Applies the vault entry migrations (see MIGRATIONS) the commands table
+   * has not had yet. Databases from before the version was recorded count
+   * as schema 1; migrations are safe to run twice.
+   */
+  private migrateVault(file: string): void {
+    this.db
+      .transaction(() => {
+        const stored = Number(this.getMeta('schemaVersion') ?? 1);
+        if (stored > SCHEMA_VERSION) throw new SchemaVersionError(stored, SCHEMA_VERSION, file);
+        if (stored === SCHEMA_VERSION) return;
+
+        const entries = this.db
+          .prepare('SELECT entry FROM commands ORDER BY position')
+          .all()
+          .map(row => JSON.parse((row as { entry: string }).entry) as StoredEntry);
+
+        this.vault.replaceAll(toEntries(entries, stored));
+        this.setMeta('schemaVersion', String(SCHEMA_VERSION));
+      })
+      .immediate();
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db
+      .prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+      .run(key, value);
+  }
+}
+
+/**
+ * Creates the tables, and rebuilds the full-text index of databases from
+ * before this version. Runs in a transaction so that only one process
+ * upgrades.
+ */
+function upgradeSchema(db: BetterSqlite3.Database): void {
+  const found = db.pragma('user_version', { simple: true }) as number;
+  if (found === DATABASE_VERSION) {
+    db.exec(SCHEMA);
+    return;
+  }
+
+  db.exec('DROP TABLE IF EXISTS commands_vocab; DROP TABLE IF EXISTS commands_fts;');
+  db.exec(SCHEMA);
+
+  // Entries still of an older schema are indexed as migrateVault() will store them
+  const meta = db.prepare("SELECT value FROM meta WHERE key = 'schemaVersion'").get() as { value: string } | undefined;
+  const stored = Number(meta?.value ?? 1);
+  if (stored <= SCHEMA_VERSION) {
+    const rows = db.prepare('SELECT position, entry FROM commands ORDER BY position').all() as {
+      position: number;
+      entry: string;
+    }[];
+    const entries = toEntries(rows.map(row => JSON.parse(row.entry)), stored);
+    rows.forEach((row, i) => indexEntry(db, row.position, entries[i]));
+  }
+  db.pragma(`user_version = ${DATABASE_VERSION}`);
+}
+
+/* -------------------- VAULT -------------------- */
+
+class SqliteVault implements VaultBackend {
+  private readonly db: BetterSqlite3.Database;
+  private readonly tx: VaultTransaction;
+
+  constructor(db: BetterSqlite3.Database) {
+    this.db = db;
+
+    const all = db.prepare('SELECT entry FROM commands ORDER BY position');
+    const get = db.prepare('SELECT entry FROM commands WHERE id = ?');
+    const byKey = db.prepare('SELECT entry FROM commands WHERE commands_key = ? ORDER BY position LIMIT 1');
+    const remove = db.prepare('DELETE FROM commands WHERE id = ? RETURNING position');
+    const removeText = db.prepare('DELETE FROM commands_fts WHERE rowid = ?');
+
+    this.tx = {
+      list: () => all.all().map(row => rowToEntry(row)!),
+      get: id => rowToEntry(get.get(id)),
+      findByCommands: commands => rowToEntry(byKey.get(commandsKey(commands))),
+      put: entry => this.put(entry),
+      remove: id => {
+        const row = remove.get(id) as { position: number } | undefined;
+        if (row) removeText.run(row.position);
+      },
+      replaceAll: entries => this.replaceAll(entries),
+    };
+  }
+
+  async list(): Promise<CommandEntry[]> {
+    return this.tx.list();
+  }
+
+  /**
+   * The entries containing a word that matches the query, see
+   * matchingTokens(), most used first; rankEntries() scores the others 0.
+   */
+  async search(query: string): Promise<CommandEntry[]> {
+    const vocabulary = this.db
+      .prepare('SELECT term FROM commands_vocab')
+      .all()
+      .map(row => (row as { term: string }).term);
+    const tokens = matchingTokens(query, vocabulary);
+    if (!tokens.length) return [];
+
+    return this.db
+      .prepare(
+        `SELECT c.entry FROM commands_fts f JOIN commands c ON c.position = f.rowid
+         WHERE commands_fts MATCH ? ORDER BY c.usage_count DESC, c.last_used DESC`
+      )
+      .all(tokens.map(token => `"${token}"`).join(' OR '))
+      .map(row => rowToEntry(row)!);
+  }
+
+  /**
+   * `fn` must be synchronous; it runs inside BEGIN IMMEDIATE ... COMMIT.
+   */
+  async transaction<T>(fn: (vault: VaultTransaction) => T): Promise<T> {
+    return this.db.transaction(() => fn(this.tx)).immediate();
+  }
+
+  insertAll(entries: CommandEntry[]): void {
+    entries.forEach(entry => this.put(entry));
+  }
+
+  replaceAll(entries: CommandEntry[]): void {
+    this.db.exec('DELETE FROM commands; DELETE FROM commands_fts;');
+    this.insertAll(entries);
+  }
+
+  private put(entry: CommandEntry): void {
+    const { position } = this.db
+      .prepare(
+        `INSERT INTO commands (id, commands_key, usage_count, last_used, entry) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET commands_key = excluded.commands_key,
+           usage_count = excluded.usage_count, last_used = excluded.last_used, entry = excluded.entry
+         RETURNING position`
+      )
+      .get(
+        entry.id,
+        commandsKey(entry.commands),
+        entry.usageCount,
+        new Date(entry.lastUsed).getTime(),
+        JSON.stringify(entry)
+      ) as { position: number };
+
+    this.db.prepare('DELETE FROM commands_fts WHERE rowid = ?').run(position);
+    indexEntry(this.db, position, entry);
+  }
+}
+
+function indexEntry(db: BetterSqlite3.Database, position: number, entry: CommandEntry): void {
+  db.prepare('INSERT INTO commands_fts (rowid, name, description, commands, tags) VALUES (?, ?, ?, ?, ?)').run(
+    position,
+    entry.name ?? '',
+    entry.description,
+    entry.commands.join('\n'),
+    entry.tags.join(' ')
+  );
+}
+
+// Stored entries of schema `from`, migrated and with their dates revived
+function toEntries(entries: StoredEntry[], from: number): CommandEntry[] {
+  return migrateEntries(entries, from).map(entry => reviveDates(entry as unknown as CommandEntry));
+}
+
+function rowToEntry(row: unknown): CommandEntry | undefined {
+  return row ? reviveDates(JSON.parse((row as { entry: string }).entry)) : undefined;
+}
+
+/* -------------------- CACHE -------------------- */
+
+class SqliteCache implements CacheBackend {
+  private readonly db: BetterSqlite3.Database;
+
+  constructor(db: BetterSqlite3.Database) {
+    this.db = db;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.db
+      .prepare('SELECT response, timestamp, expires_at AS expiresAt FROM cache WHERE key = ?')
+      .get(key) as CacheEntry | undefined;
+  }
+
+  async set(key: string, entry: CacheEntry, maxEntries: number): Promise<void> {
+    this.db
+      .transaction(() => {
+        this.insert(key, entry);
+        this.db
+          .prepare('DELETE FROM cache WHERE key IN (SELECT key FROM cache ORDER BY timestamp DESC LIMIT -1 OFFSET ?)')
+          .run(maxEntries);
+      })
+      .immediate();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM cache WHERE key = ?').run(key);
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM cache');
+  }
+
+  insert(key: string, entry: CacheEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO cache (key, response, timestamp, expires_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET response = excluded.response,
+           timestamp = excluded.timestamp, expires_at = excluded.expires_at`
+      )
+      .run(key, entry.response, entry.timestamp, entry.expiresAt);
+  }
+}
+
+/* -------------------- HISTORY -------------------- */
+
+class SqliteHistory implements HistoryBackend {
+  private readonly db: BetterSqlite3.Database;
+
+  constructor(db: BetterSqlite3.Database) {
+    this.db = db;
+  }
+
+  /**
+   * Keeps the newest MAX_HISTORY_ENTRIES entries, like the rotating log.
+   */
+  async append(entry: HistoryEntry): Promise<void> {
+    this.db
+      .transaction(() => {
+        this.insert(entry);
+        this.db
+          .prepare('DELETE FROM history WHERE seq <= (SELECT MAX(seq) FROM history) - ?')
+          .run(MAX_HISTORY_ENTRIES);
+      })
+      .immediate();
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    return this.db
+      .prepare('SELECT entry FROM history ORDER BY seq')
+      .all()
+      .map(row => JSON.parse((row as { entry: string }).entry));
+  }
+
+  insert(entry: HistoryEntry): void {
+    this.db
+      .prepare('INSERT OR IGNORE INTO history (id, timestamp, entry) VALUES (?, ?, ?)')
+      .run(entry.id, entry.timestamp, JSON.stringify(entry));
+  }
+}
+
+/**
+ * Entries of history.log and its rotated files, oldest first.
+ */
+async function readHistoryLog(logPath: string): Promise<HistoryEntry[]> {
+  const files = (await fs.pathExists(path.dirname(logPath))) ? await fs.readdir(path.dirname(logPath)) : [];
+  const rotated = files
+    .map(name => /^history\.log\.(\d+)$/.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .sort((a, b) => Number(b[1]) - Number(a[1]))
+    .map(match => path.join(path.dirname(logPath), match[0]));
+
+  const entries: HistoryEntry[] = [];
+  for (const file of [...rotated, logPath]) {
+    if (!(await fs.pathExists(file))) continue;
+
+    for (const line of (await fs.readFile(file, 'utf8')).split('\n')) {
+      try {
+        if (line.trim()) entries.push(JSON.parse(line));
+      } catch {
+        // A partial line from an interrupted write
+      }
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,74 @@
+import { CommandEntry } from '../types';
+import { HistoryEntry } from '../audit/history-log';
+import { loadConfig } from '../core/config';
+
+export type StorageEngine = 'json' | 'sqlite';
+
+export const STORAGE_ENGINES: StorageEngine[] = ['json', 'sqlite'];
+
+/**
+ * The personal vault as stored on disk.
+ */
+export interface VaultBackend {
+  list(): Promise<CommandEntry[]>; // In insertion order
+
+  /**
+   * Entries that may match `query`, see rankEntries(). A backend without
+   * an index returns every entry and leaves the matching to the ranking.
+   */
+  search(query: string): Promise<CommandEntry[]>;
+
+  /**
+   * Runs `fn` atomically: other processes see all of its changes or none.
+   * Nothing is written when `fn` throws.
+   */
+  transaction<T>(fn: (vault: VaultTransaction) => T): Promise<T>;
+}
+
+export interface VaultTransaction {
+  list(): CommandEntry[]; // In insertion order
+  get(id: string): CommandEntry | undefined;
+  findByCommands(commands: string[]): CommandEntry | undefined; // Case-insensitive
+  put(entry: CommandEntry): void; // Adds, or replaces the entry with the same id
+  remove(id: string): void;
+  replaceAll(entries: CommandEntry[]): void;
+}
+
+export interface CacheEntry {
+  response: string;
+  timestamp: number;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry, maxEntries: number): Promise<void>; // Evicts the oldest
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface HistoryBackend {
+  append(entry: HistoryEntry): Promise<void>;
+  list(): Promise<HistoryEntry[]>; // Oldest first
+}
+
+/**
+ * Two commands lists are duplicates when their keys are equal.
+ */
+export function commandsKey(commands: string[]): string {
+  return commands.join(';').toLowerCase();
+}
+
+/**
+ * The engine picked by AI_CLI_STORAGE or "storage" in config.json; JSON
+ * files unless configured otherwise.
+ */
+export async function resolveStorageEngine(): Promise<StorageEngine> {
+  const configured = process.env.AI_CLI_STORAGE || (await loadConfig()).storage || 'json';
+
+  if (!STORAGE_ENGINES.includes(configured as StorageEngine)) {
+    console.warn(`Unknown storage engine "${configured}", using json. Expected one of: ${STORAGE_ENGINES.join(', ')}`);
+    return 'json';
+  }
+  return configured as StorageEngine;
+}
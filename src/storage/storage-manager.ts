@@ -1,51 +1,64 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as os from 'os';
-import { CommandEntry } from '../types';
-import { randomUUID } from 'crypto';
+import { CommandEntry, FailedCommand, Variables } from '../types';
+import { ImportedCommand, detectVariables, parseVault, withoutChoicesCommands } from './vault-format';
+import { SyncResult, VaultSync } from './vault-sync';
+import { withFileLock, writeFileAtomic, writeJsonAtomic } from './atomic-file';
+import { VaultBackend, VaultTransaction, commandsKey, resolveStorageEngine } from './storage-backend';
+import { JsonVault } from './json-vault';
+import { openSqliteStore } from './sqlite-store';
+import { migrateDataDir } from './migrations';
+import { VaultMatch, rankEntries } from './vault-search';
+import { createHash, randomUUID } from 'crypto';
+import { isSeq, parseDocument } from 'yaml';
+
+const PROJECT_VAULT = path.join('.ai-cli', 'vault.yaml');
+
+export type CommandChanges = Partial<
+  Pick<CommandEntry, 'name' | 'description' | 'tags' | 'commands' | 'variables'>
+>;
 
 export class StorageManager {
   private readonly dataDir: string;
   private readonly vaultPath: string;
   private readonly metadataPath: string;
-  private initialized = false;
+  private readonly lastFailurePath: string;
+  private readonly cwd: string;
+  private backend: Promise<VaultBackend> | null = null;
 
-  constructor() {
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd;
     this.dataDir = path.join(os.homedir(), '.ai-cli');
     this.vaultPath = path.join(this.dataDir, 'vault.json');
     this.metadataPath = path.join(this.dataDir, 'metadata.json');
+    this.lastFailurePath = path.join(this.dataDir, 'last-failure.json');
   }
 
-  private async init(): Promise<void> {
-    if (this.initialized) return;
-    this.initialized = true;
-
-    await fs.ensureDir(this.dataDir);
-
-    if (!(await fs.pathExists(this.vaultPath))) {
-      await fs.writeJson(this.vaultPath, [], { spaces: 2 });
-    }
-
-    if (!(await fs.pathExists(this.metadataPath))) {
-      await fs.writeJson(
-        this.metadataPath,
-        {
-          version: '1.0.0',
-          created: new Date().toISOString(),
-          lastUpdated: new Date().toISOString(),
-          totalCommands: 0,
-        },
-        { spaces: 2 }
-      );
-    }
+  /**
+   * The vault backend picked by resolveStorageEngine(), opened on first use
+   * after the data files are migrated to the current schema.
+   */
+  private vault(): Promise<VaultBackend> {
+    this.backend ??= (async () => {
+      await fs.ensureDir(this.dataDir);
+      await migrateDataDir(this.dataDir);
+
+      if ((await resolveStorageEngine()) === 'sqlite') {
+        return (await openSqliteStore(this.dataDir)).vault;
+      }
+
+      const vault = new JsonVault(this.vaultPath, this.metadataPath);
+      await vault.init();
+      return vault;
+    })();
+    return this.backend;
   }
 
   /* -------------------- CORE -------------------- */
 
   async getAllCommands(): Promise<CommandEntry[]> {
-    await this.init();
-    const data = await fs.readJson(this.vaultPath);
-    return data.map((cmd: CommandEntry) => this.reviveDates(cmd));
+    return (await this.vault()).list();
   }
 
   async addCommand(
@@ -54,13 +67,11 @@ export class StorageManager {
     tags: string[] = [],
     source: 'rule' | 'ai' | 'user' = 'user',
     confidence: number = 0.7,
-    variables?: { [key: string]: string },
+    variables?: Variables,
     name?: string
   ): Promise<void> {
-    await this.init();
-
-    const list = await this.getAllCommands();
     const cmdArray = Array.isArray(commands) ? commands : [commands];
+    variables = variables ?? detectVariables(cmdArray);
 
     const newEntry: CommandEntry = {
       id: randomUUID(),
@@ -76,118 +87,325 @@ export class StorageManager {
       variables,
     };
 
-    const existing = list.find(
-      c =>
-        c.commands.join(';').toLowerCase() ===
-        newEntry.commands.join(';').toLowerCase()
-    );
+    await this.transaction(vault => {
+      const existing = vault.findByCommands(newEntry.commands);
+
+      if (existing) {
+        existing.usageCount++;
+        existing.lastUsed = new Date();
+        this.mergeInto(existing, { name, description, variables });
+        vault.put(existing);
+      } else {
+        vault.put(newEntry);
+      }
+    });
+  }
 
-    if (existing) {
-      existing.usageCount++;
-      existing.lastUsed = new Date();
-      if (description) existing.description = description;
-      if (name) existing.name = name;
-      if (variables) existing.variables = variables;
-    } else {
-      list.push(newEntry);
-    }
+  /**
+   * Merges imported commands into the vault. Duplicates are detected the
+   * same way as in addCommand(); their tags are combined, usage is untouched.
+   * Choices commands are left out, see withoutChoicesCommands().
+   */
+  async importCommands(entries: ImportedCommand[]): Promise<{ added: number; merged: number }> {
+    let added = 0;
+    let merged = 0;
+
+    await this.transaction(vault => {
+      for (const entry of entries) {
+        const commands = entry.commands.map(c => c.trim());
+        const { variables, dropped } = withoutChoicesCommands(entry.variables);
+        warnDropped(dropped, `imported command "${commands.join('; ')}"`);
+        const incoming: CommandEntry = {
+          id: randomUUID(),
+          name: entry.name,
+          commands,
+          description: entry.description || `Command: ${commands.join('; ')}`,
+          tags: entry.tags ?? [],
+          usageCount: 0,
+          lastUsed: new Date(),
+          createdAt: new Date(),
+          confidence: entry.confidence ?? 0.7,
+          source: entry.source ?? 'user',
+          variables: variables ?? detectVariables(commands),
+        };
+
+        const existing = vault.findByCommands(commands);
+        if (existing) {
+          this.mergeInto(existing, { ...incoming, description: entry.description });
+          existing.tags = [...existing.tags, ...incoming.tags.filter(t => !existing.tags.includes(t))];
+          vault.put(existing);
+          merged++;
+        } else {
+          vault.put(incoming);
+          added++;
+        }
+      }
+    });
 
-    await this.saveCommands(list);
-    await this.updateMetadata(list.length);
+    return { added, merged };
   }
 
-  /* -------------------- SEARCH -------------------- */
+  /**
+   * Looks a command up by id, then by name, then by unique id prefix,
+   * in both the project and the personal vault.
+   */
+  async getCommand(idOrName: string): Promise<CommandEntry | null> {
+    const commands = await this.getCommands();
+    const prefixed = commands.filter(c => c.id.startsWith(idOrName));
+
+    return (
+      commands.find(c => c.id === idOrName) ||
+      commands.find(c => c.name === idOrName) ||
+      (prefixed.length === 1 ? prefixed[0] : null)
+    );
+  }
 
-  async searchCommands(query: string, limit = 10): Promise<CommandEntry[]> {
-    const commands = await this.getAllCommands();
-    const q = query.toLowerCase().trim();
+  async updateCommand(id: string, changes: CommandChanges): Promise<CommandEntry | null> {
+    return this.transaction(vault => {
+      const current = vault.get(id);
+      if (!current) return null;
 
-    const scored = commands
-      .map(cmd => ({
-        ...cmd,
-        score: this.calculateRelevanceScore(cmd, q),
-      }))
-      .filter(c => c.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+      const updated: CommandEntry = { ...current, ...changes };
+      if (!updated.name) delete updated.name;
+      if (!updated.variables || !Object.keys(updated.variables).length) delete updated.variables;
 
-    return scored;
+      vault.put(updated);
+      return updated;
+    });
   }
 
-  private calculateRelevanceScore(
-    command: CommandEntry,
-    query: string
-  ): number {
-    let score = 0;
+  /* -------------------- PROJECT VAULT -------------------- */
 
-    if (command.commands.join(' ').toLowerCase().includes(query)) {
-      score += 100;
-    }
+  /**
+   * Project and personal commands together. A project command replaces a
+   * personal one with the same commands or name.
+   */
+  async getCommands(): Promise<CommandEntry[]> {
+    const project = await this.getProjectCommands();
+    return withProject(project, await this.getAllCommands());
+  }
 
-    if (command.description.toLowerCase().includes(query)) {
-      score += 50;
+  /**
+   * The nearest .ai-cli/vault.yaml in the working directory or a parent,
+   * ignoring the one in the personal data directory.
+   */
+  async findProjectVault(): Promise<string | null> {
+    for (let dir = path.resolve(this.cwd); ; dir = path.dirname(dir)) {
+      const candidate = path.join(dir, PROJECT_VAULT);
+      if (path.dirname(candidate) !== this.dataDir && (await fs.pathExists(candidate))) {
+        return candidate;
+      }
+      if (path.dirname(dir) === dir) return null;
     }
+  }
 
-    command.tags.forEach(tag => {
-      if (tag.toLowerCase().includes(query)) score += 25;
+  /**
+   * Commands from the project vault. They are checked in and shared, so
+   * usage is not tracked, their ids are derived from the commands and
+   * choices commands are left out (see withoutChoicesCommands()).
+   */
+  async getProjectCommands(): Promise<CommandEntry[]> {
+    const file = await this.findProjectVault();
+    if (!file) return [];
+
+    const { mtime } = await fs.stat(file);
+    const { commands, errors } = parseVault(await fs.readFile(file, 'utf8'), 'yaml');
+    errors.forEach(error => console.warn(`Invalid project vault ${file}: ${error}`));
+
+    return commands.map(entry => {
+      const { variables, dropped } = withoutChoicesCommands(entry.variables);
+      warnDropped(dropped, file);
+
+      return {
+        id: projectId(entry.commands),
+        name: entry.name,
+        commands: entry.commands.map(c => c.trim()),
+        description: entry.description || `Command: ${entry.commands.join('; ')}`,
+        tags: entry.tags ?? [],
+        usageCount: 0,
+        lastUsed: mtime,
+        createdAt: mtime,
+        confidence: entry.confidence ?? 0.7,
+        source: entry.source ?? 'user',
+        variables: variables ?? detectVariables(entry.commands),
+        scope: 'project',
+      };
     });
+  }
 
-    score += Math.min(command.usageCount * 5, 50);
+  /**
+   * Adds a command to the project vault, creating .ai-cli/vault.yaml at the
+   * repository root when there is none yet. Existing comments are kept.
+   * Returns the file written.
+   */
+  async addProjectCommand(
+    commands: string[],
+    description?: string,
+    tags: string[] = [],
+    name?: string
+  ): Promise<string> {
+    const file = (await this.findProjectVault()) ?? path.join(await this.projectRoot(), PROJECT_VAULT);
+    await withFileLock(file, async () => {
+      const text = (await fs.pathExists(file)) ? await fs.readFile(file, 'utf8') : '';
+      await writeFileAtomic(file, addToProjectVault(file, text, commands, description, tags, name));
+    });
+    return file;
+  }
 
-    const days =
-      (Date.now() - command.lastUsed.getTime()) /
-      (1000 * 60 * 60 * 24);
+  /**
+   * The nearest parent with a .git directory, or the working directory.
+   */
+  private async projectRoot(): Promise<string> {
+    for (let dir = path.resolve(this.cwd); ; dir = path.dirname(dir)) {
+      if (await fs.pathExists(path.join(dir, '.git'))) return dir;
+      if (path.dirname(dir) === dir) return path.resolve(this.cwd);
+    }
+  }
 
-    if (days < 7) score += 10;
-    else if (days < 30) score += 5;
+  /* -------------------- SEARCH -------------------- */
 
-    score += command.confidence * 10;
+  /**
+   * Project and personal commands ranked by relevance to the query, see
+   * rankEntries(). Entries matching none of its words are left out.
+   */
+  async searchCommands(query: string, limit = 10): Promise<VaultMatch[]> {
+    const personal = await (await this.vault()).search(query);
+    const commands = withProject(await this.getProjectCommands(), personal);
 
-    return score;
+    return rankEntries(commands, query).slice(0, limit);
   }
 
   /* -------------------- UTIL -------------------- */
 
   async incrementUsage(id: string): Promise<void> {
-    const commands = await this.getAllCommands();
-    const cmd = commands.find(c => c.id === id);
-    if (!cmd) return;
+    await this.transaction(vault => {
+      const cmd = vault.get(id);
+      if (!cmd) return;
+
+      cmd.usageCount++;
+      cmd.lastUsed = new Date();
+      vault.put(cmd);
+    });
+  }
 
-    cmd.usageCount++;
-    cmd.lastUsed = new Date();
-    await this.saveCommands(commands);
+  /**
+   * Replaces the whole personal vault with `update` of its current entries,
+   * in one transaction so that no write from another process is lost in
+   * between, e.g. with the result of a sync merge.
+   */
+  async updateCommands(update: (commands: CommandEntry[]) => CommandEntry[]): Promise<void> {
+    await this.transaction(vault => vault.replaceAll(update(vault.list())));
+  }
+
+  /**
+   * Shares the personal vault through a git repository, see VaultSync.
+   */
+  async sync(remote?: string): Promise<SyncResult> {
+    return new VaultSync(path.join(this.dataDir, 'sync'), this).sync(remote);
   }
 
   async deleteCommand(id: string): Promise<void> {
-    const cmds = (await this.getAllCommands()).filter(c => c.id !== id);
-    await this.saveCommands(cmds);
-    await this.updateMetadata(cmds.length);
+    await this.transaction(vault => vault.remove(id));
   }
 
   async clearVault(): Promise<void> {
-    await this.init();
-    await fs.writeJson(this.vaultPath, [], { spaces: 2 });
-    await this.updateMetadata(0);
+    await this.transaction(vault => vault.replaceAll([]));
+  }
+
+  /* -------------------- LAST FAILURE -------------------- */
+
+  async saveLastFailure(failure: FailedCommand): Promise<void> {
+    await fs.ensureDir(this.dataDir);
+    await writeJsonAtomic(this.lastFailurePath, failure, { spaces: 2 });
+  }
+
+  async getLastFailure(): Promise<FailedCommand | null> {
+    if (!(await fs.pathExists(this.lastFailurePath))) return null;
+    try {
+      return await fs.readJson(this.lastFailurePath);
+    } catch {
+      return null;
+    }
   }
 
   /* -------------------- INTERNAL -------------------- */
 
-  private reviveDates(cmd: CommandEntry): CommandEntry {
-    return {
-      ...cmd,
-      lastUsed: new Date(cmd.lastUsed),
-      createdAt: new Date(cmd.createdAt),
-    };
+  private async transaction<T>(fn: (vault: VaultTransaction) => T): Promise<T> {
+    return (await this.vault()).transaction(fn);
   }
 
-  private async saveCommands(commands: CommandEntry[]): Promise<void> {
-    await fs.writeJson(this.vaultPath, commands, { spaces: 2 });
+  private mergeInto(
+    existing: CommandEntry,
+    incoming: Pick<CommandEntry, 'name' | 'variables'> & { description?: string }
+  ): void {
+    if (incoming.description) existing.description = incoming.description;
+    if (incoming.name) existing.name = incoming.name;
+    if (incoming.variables) existing.variables = incoming.variables;
   }
+}
+
+/**
+ * Project commands followed by the personal ones they don't replace: a
+ * project command wins over a personal one with the same commands or name.
+ */
+function withProject(project: CommandEntry[], personal: CommandEntry[]): CommandEntry[] {
+  const keys = new Set(project.map(c => commandsKey(c.commands)));
+  const names = new Set(project.map(c => c.name).filter(Boolean));
+
+  return [
+    ...project,
+    ...personal
+      .filter(c => !keys.has(commandsKey(c.commands)) && !(c.name && names.has(c.name)))
+      .map(c => ({ ...c, scope: 'personal' as const })),
+  ];
+}
 
-  private async updateMetadata(totalCommands: number): Promise<void> {
-    const meta = await fs.readJson(this.metadataPath);
-    meta.lastUpdated = new Date().toISOString();
-    meta.totalCommands = totalCommands;
-    await fs.writeJson(this.metadataPath, meta, { spaces: 2 });
+/**
+ * The project vault text with the command added, or its description, name
+ * and tags updated when the vault already has it. Comments are kept.
+ */
+function addToProjectVault(
+  file: string,
+  text: string,
+  commands: string[],
+  description: string | undefined,
+  tags: string[],
+  name: string | undefined
+): string {
+  const doc = parseDocument(text || '[]');
+  if (!isSeq(doc.contents)) {
+    throw new Error(`${file} must contain a list of commands`);
+  }
+
+  const trimmed = commands.map(c => c.trim());
+  const key = commandsKey(trimmed);
+  const index = (doc.toJS() as ImportedCommand[]).findIndex(entry => {
+    const list = typeof entry?.commands === 'string' ? [entry.commands] : entry?.commands;
+    return Array.isArray(list) && commandsKey(list) === key;
+  });
+
+  if (index === -1) {
+    doc.add({
+      ...(name && { name }),
+      description: description || `Command: ${trimmed.join('; ')}`,
+      commands: trimmed,
+      ...(tags.length && { tags }),
+    });
+  } else {
+    if (description) doc.setIn([index, 'description'], description);
+    if (name) doc.setIn([index, 'name'], name);
+    if (tags.length) doc.setIn([index, 'tags'], tags);
   }
+
+  return doc.toString();
+}
+
+function warnDropped(dropped: string[], where: string): void {
+  for (const name of dropped) {
+    console.warn(`Ignoring the choicesCommand of {${name}} in ${where}: only your own vault may list choices with a command`);
+  }
+}
+
+function projectId(commands: string[]): string {
+  return createHash('sha1').update(commands.join('\n')).digest('hex');
 }
@@ -0,0 +1,481 @@
+import * as path from 'path';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { CommandEntry, VariableSpec, VariableType, Variables } from '../types';
+
+export type VaultFormat = 'json' | 'yaml' | 'bash' | 'zsh' | 'powershell';
+
+export const VAULT_FORMATS: VaultFormat[] = ['json', 'yaml', 'bash', 'zsh', 'powershell'];
+export const IMPORT_FORMATS: VaultFormat[] = ['json', 'yaml'];
+export const VARIABLE_TYPES: VariableType[] = ['string', 'int', 'path', 'file', 'enum', 'secret'];
+
+/**
+ * A command read from an export file. Only `commands` is required.
+ */
+export interface ImportedCommand {
+  commands: string[];
+  name?: string;
+  description?: string;
+  tags?: string[];
+  variables?: Variables;
+  source?: CommandEntry['source'];
+  confidence?: number;
+}
+
+const EXTENSIONS: { [ext: string]: VaultFormat } = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.sh': 'bash',
+  '.bash': 'bash',
+  '.zsh': 'zsh',
+  '.ps1': 'powershell',
+};
+
+// {name} placeholders and {step2.stdout} step outputs; ${VAR}, {a,b} and
+// find's {} are shell syntax, not variables
+export const VARIABLE_PATTERN = /(?<!\$)\{(step\d+\.(?:stdout|stderr)|[A-Za-z_][\w-]*)\}/g;
+
+// What an earlier step printed, filled in when the step that uses it runs
+export const STEP_OUTPUT_PATTERN = /^step(\d+)\.(stdout|stderr)$/;
+
+export const isStepOutput = (name: string) => STEP_OUTPUT_PATTERN.test(name);
+
+const hasVariable = (text: string) => new RegExp(VARIABLE_PATTERN.source).test(text);
+
+/**
+ * Finds `{variable}` placeholders in commands. Their specs start empty.
+ * Step outputs are not variables.
+ */
+export function detectVariables(commands: string[]): Variables | undefined {
+  const variables: Variables = {};
+  for (const command of commands) {
+    for (const match of command.matchAll(VARIABLE_PATTERN)) {
+      if (!isStepOutput(match[1])) variables[match[1]] = {};
+    }
+  }
+  return Object.keys(variables).length ? variables : undefined;
+}
+
+/**
+ * Reads variable specs as written in vault files and AI responses. A
+ * string is shorthand for the description; numbers are accepted where
+ * YAML reads a value like `8080` as one. Invalid variables are left out
+ * and reported.
+ */
+export function parseVariables(raw: unknown): { variables: Variables; errors: string[] } {
+  if (raw == null) return { variables: {}, errors: [] };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { variables: {}, errors: ['variables must be a mapping of name to description or spec'] };
+  }
+
+  const variables: Variables = {};
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(raw)) {
+    const spec = parseSpec(value);
+    if (typeof spec === 'string') errors.push(`variables.${name}: ${spec}`);
+    else variables[name] = spec;
+  }
+  return { variables, errors };
+}
+
+function parseSpec(value: unknown): VariableSpec | string {
+  if (value == null) return {};
+  if (typeof value === 'string') return value ? { description: value } : {};
+  if (typeof value !== 'object' || Array.isArray(value)) return 'must be a description or a mapping';
+
+  const raw = value as { [key: string]: unknown };
+  const text = (v: unknown) => (['string', 'number', 'boolean'].includes(typeof v) ? String(v) : undefined);
+  const spec: VariableSpec = {};
+
+  if (raw.description != null) {
+    if (typeof raw.description !== 'string') return 'description must be a string';
+    if (raw.description) spec.description = raw.description;
+  }
+  if (raw.type != null) {
+    if (!VARIABLE_TYPES.includes(raw.type as VariableType)) {
+      return `type must be one of ${VARIABLE_TYPES.join(', ')}`;
+    }
+    spec.type = raw.type as VariableType;
+  }
+  if (raw.default != null) {
+    if (text(raw.default) === undefined) return 'default must be a string';
+    spec.default = text(raw.default);
+  }
+  if (raw.pattern != null) {
+    if (typeof raw.pattern !== 'string') return 'pattern must be a string';
+    try {
+      new RegExp(raw.pattern);
+    } catch {
+      return `pattern ${raw.pattern} is not a valid regular expression`;
+    }
+    spec.pattern = raw.pattern;
+  }
+  if (raw.choices != null) {
+    if (!Array.isArray(raw.choices) || raw.choices.some(c => text(c) === undefined)) {
+      return 'choices must be a list of values';
+    }
+    spec.choices = raw.choices.map(c => text(c) as string);
+  }
+  if (raw.choicesCommand != null) {
+    if (typeof raw.choicesCommand !== 'string' || !raw.choicesCommand.trim()) {
+      return 'choicesCommand must be a command';
+    }
+    spec.choicesCommand = raw.choicesCommand.trim();
+  }
+
+  const listed = spec.choices !== undefined || spec.choicesCommand !== undefined;
+  if (listed && !spec.type) spec.type = 'enum';
+  if (listed && spec.type !== 'enum') return 'choices and choicesCommand are only for enum variables';
+  if (spec.type === 'enum' && !spec.choices?.length && !spec.choicesCommand) {
+    return 'an enum needs choices or a choicesCommand';
+  }
+  return spec;
+}
+
+/**
+ * The variables without their choicesCommands, for entries someone else
+ * wrote: the command runs while prompting, before anything is confirmed.
+ * An enum left without choices is prompted for as text. `dropped` names
+ * the variables that had one.
+ */
+export function withoutChoicesCommands(variables: Variables | undefined): {
+  variables: Variables | undefined;
+  dropped: string[];
+} {
+  if (!variables) return { variables, dropped: [] };
+
+  const dropped = Object.keys(variables).filter(name => variables[name].choicesCommand !== undefined);
+  if (!dropped.length) return { variables, dropped };
+
+  const kept = { ...variables };
+  for (const name of dropped) {
+    const spec = { ...kept[name] };
+    delete spec.choicesCommand;
+    if (spec.type === 'enum' && !spec.choices?.length) delete spec.type;
+    kept[name] = spec;
+  }
+  return { variables: kept, dropped };
+}
+
+/**
+ * Variables for files people edit: one that only has a description is
+ * written as that description.
+ */
+export function compactVariables(variables: Variables): { [name: string]: string | VariableSpec } {
+  return Object.fromEntries(
+    Object.entries(variables).map(([name, spec]) => [
+      name,
+      Object.keys(spec).every(key => key === 'description') ? spec.description ?? '' : spec,
+    ])
+  );
+}
+
+export function formatFromPath(file: string): VaultFormat | undefined {
+  return EXTENSIONS[path.extname(file).toLowerCase()];
+}
+
+/* -------------------- EXPORT -------------------- */
+
+export function exportVault(entries: CommandEntry[], format: VaultFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(entries, null, 2) + '\n';
+    case 'yaml':
+      return stringifyYaml(entries.map(toEditable));
+    case 'bash':
+    case 'zsh':
+      return toShellFunctions(entries, format);
+    case 'powershell':
+      return toPowerShellFunctions(entries);
+  }
+}
+
+type EditableCommand = Omit<ImportedCommand, 'variables'> & {
+  variables?: ReturnType<typeof compactVariables>;
+};
+
+/**
+ * The human-editable fields of an entry; ids, usage and dates stay local.
+ */
+function toEditable(entry: CommandEntry): EditableCommand {
+  return {
+    ...(entry.name && { name: entry.name }),
+    description: entry.description,
+    commands: entry.commands,
+    ...(entry.tags.length && { tags: entry.tags }),
+    ...(entry.variables &&
+      Object.keys(entry.variables).length && { variables: compactVariables(entry.variables) }),
+  };
+}
+
+/**
+ * One function per entry; {variables} become positional parameters in the
+ * order they first appear, and each step stops the function when it fails.
+ */
+function toShellFunctions(entries: CommandEntry[], shell: 'bash' | 'zsh'): string {
+  const names = functionNames(entries);
+  const lines = [`# Vault commands exported by ai for ${shell}. Source this file to use them.`, ''];
+
+  entries.forEach((entry, i) => {
+    const params = parameters(entry);
+    const usage = [names[i], ...params.map(p => `<${p.name}>`)].join(' ');
+
+    lines.push(`# ${names[i]}: ${oneLine(entry.description)}`);
+    params.forEach(p => p.description && lines.push(`#   ${p.name}: ${oneLine(p.description)}`));
+    lines.push(`${names[i]}() {`);
+    if (params.length) {
+      lines.push(`  if [ $# -lt ${params.length} ]; then echo "usage: ${usage}" >&2; return 2; fi`);
+      params.forEach((p, n) => lines.push(`  local ${p.name}="$${n + 1}"`));
+    }
+    entry.commands.forEach((command, n) => {
+      const body = substitutePosix(command, params);
+      lines.push(`  ${body}${n < entry.commands.length - 1 ? ' || return' : ''}`);
+    });
+    lines.push('}', '');
+  });
+
+  return lines.join('\n');
+}
+
+function toPowerShellFunctions(entries: CommandEntry[]): string {
+  const names = functionNames(entries);
+  const lines = ['# Vault commands exported by ai for PowerShell. Dot-source this file to use them.', ''];
+
+  entries.forEach((entry, i) => {
+    const params = parameters(entry);
+
+    lines.push(`# ${names[i]}: ${oneLine(entry.description)}`);
+    params.forEach(p => p.description && lines.push(`#   ${p.name}: ${oneLine(p.description)}`));
+    lines.push(`function ${names[i]} {`);
+    if (params.length) {
+      const declared = params.map(p => `[Parameter(Mandatory = $true)][string]$${p.name}`);
+      lines.push(`  param(${declared.join(', ')})`);
+    }
+    entry.commands.forEach((command, n) => {
+      lines.push(`  ${substitutePowerShell(command, params)}`);
+      if (n < entry.commands.length - 1) lines.push('  if (-not $?) { return }');
+    });
+    lines.push('}', '');
+  });
+
+  return lines.join('\n');
+}
+
+interface Parameter {
+  variable: string; // As written in the command
+  name: string; // Valid shell identifier
+  description: string;
+}
+
+function parameters(entry: CommandEntry): Parameter[] {
+  const seen = new Map<string, Parameter>();
+  for (const command of entry.commands) {
+    for (const match of command.matchAll(VARIABLE_PATTERN)) {
+      if (seen.has(match[1]) || isStepOutput(match[1])) continue;
+      seen.set(match[1], {
+        variable: match[1],
+        name: match[1].replace(/-/g, '_'),
+        description: entry.variables?.[match[1]]?.description ?? '',
+      });
+    }
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Function names from entry names, made unique. Unnamed entries use their id.
+ */
+function functionNames(entries: CommandEntry[]): string[] {
+  const used = new Set<string>();
+  return entries.map(entry => {
+    const base = (entry.name || `vault_${entry.id.slice(0, 8)}`).replace(/[^\w-]/g, '_');
+    let name = /^[A-Za-z_]/.test(base) ? base : `_${base}`;
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    return name;
+  });
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Replaces {variables} with parameter expansions that stay a single word:
+ * quoted when bare, closing and reopening single quotes around them.
+ */
+function substitutePosix(command: string, params: Parameter[]): string {
+  const expand = (text: string, quoted: boolean) =>
+    text.replace(VARIABLE_PATTERN, (whole, variable) => {
+      const param = params.find(p => p.variable === variable);
+      if (!param) return whole;
+      return quoted ? `\${${param.name}}` : `"\${${param.name}}"`;
+    });
+
+  let result = '';
+  let i = 0;
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === '\\') {
+      result += command.slice(i, i + 2);
+      i += 2;
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      const close = end === -1 ? command.length : end + 1;
+      const inner = command.slice(i + 1, end === -1 ? command.length : end);
+      result += hasVariable(inner)
+        ? `'${inner.replace(VARIABLE_PATTERN, (whole, variable) => {
+            const param = params.find(p => p.variable === variable);
+            return param ? `'"\${${param.name}}"'` : whole;
+          })}'`
+        : command.slice(i, close);
+      i = close;
+    } else if (ch === '"') {
+      let end = i + 1;
+      while (end < command.length && command[end] !== '"') {
+        end += command[end] === '\\' ? 2 : 1;
+      }
+      result += expand(command.slice(i, end + 1), true);
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < command.length && !`\\'"`.includes(command[end])) end++;
+      result += expand(command.slice(i, end), false);
+      i = end;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * PowerShell does not join adjacent quoted strings into one argument, so
+ * single-quoted text holding variables is rewritten as a double-quoted string.
+ */
+function substitutePowerShell(command: string, params: Parameter[]): string {
+  const expand = (text: string, escapeLiteral: (s: string) => string) => {
+    let out = '';
+    let last = 0;
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      const param = params.find(p => p.variable === match[1]);
+      if (!param) continue;
+      out += escapeLiteral(text.slice(last, match.index)) + `\${${param.name}}`;
+      last = match.index! + match[0].length;
+    }
+    return out + escapeLiteral(text.slice(last));
+  };
+  const asIs = (s: string) => s;
+
+  let result = '';
+  let i = 0;
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (ch === '`') {
+      result += command.slice(i, i + 2);
+      i += 2;
+    } else if (ch === "'") {
+      let end = i + 1;
+      while (end < command.length && !(command[end] === "'" && command[end + 1] !== "'")) {
+        end += command[end] === "'" ? 2 : 1;
+      }
+      const inner = command.slice(i + 1, end);
+      result += hasVariable(inner)
+        ? `"${expand(inner.replace(/''/g, "'"), s => s.replace(/[`$"]/g, c => '`' + c))}"`
+        : command.slice(i, end + 1);
+      i = end + 1;
+    } else if (ch === '"') {
+      let end = i + 1;
+      while (end < command.length && command[end] !== '"') {
+        end += command[end] === '`' ? 2 : 1;
+      }
+      result += expand(command.slice(i, end + 1), asIs);
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < command.length && !"`'\"".includes(command[end])) end++;
+      result += expand(command.slice(i, end), asIs);
+      i = end;
+    }
+  }
+
+  return result;
+}
+
+/* -------------------- IMPORT -------------------- */
+
+/**
+ * Reads the JSON (native) or YAML (editable) export format. Invalid entries
+ * are reported and skipped so one bad entry does not stop an import.
+ */
+export function parseVault(
+  text: string,
+  format: VaultFormat
+): { commands: ImportedCommand[]; errors: string[] } {
+  if (!IMPORT_FORMATS.includes(format)) {
+    return { commands: [], errors: [`cannot import ${format}, use json or yaml`] };
+  }
+
+  let document: unknown;
+  try {
+    document = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    return { commands: [], errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  if (!Array.isArray(document)) {
+    return { commands: [], errors: ['expected a list of commands'] };
+  }
+
+  const commands: ImportedCommand[] = [];
+  const errors: string[] = [];
+  document.forEach((raw, i) => {
+    const result = toImported(raw);
+    if (typeof result === 'string') errors.push(`entry ${i + 1}: ${result}`);
+    else commands.push(result);
+  });
+
+  return { commands, errors };
+}
+
+function toImported(raw: unknown): ImportedCommand | string {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return 'must be a mapping';
+  const entry = raw as { [key: string]: unknown };
+
+  const commands = typeof entry.commands === 'string' ? [entry.commands] : entry.commands;
+  if (
+    !Array.isArray(commands) ||
+    !commands.length ||
+    !commands.every(c => typeof c === 'string' && c.trim())
+  ) {
+    return 'commands must be a command or a non-empty list of commands';
+  }
+
+  const isStringList = (value: unknown) =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  if (entry.name != null && typeof entry.name !== 'string') return 'name must be a string';
+  if (entry.description != null && typeof entry.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (entry.tags != null && !isStringList(entry.tags)) return 'tags must be a list of strings';
+  const { variables, errors } = parseVariables(entry.variables);
+  if (errors.length) return errors[0];
+  if (entry.source != null && !['rule', 'ai', 'user'].includes(entry.source as string)) {
+    return 'source must be rule, ai or user';
+  }
+  if (entry.confidence != null && typeof entry.confidence !== 'number') {
+    return 'confidence must be a number';
+  }
+
+  return {
+    commands: commands as string[],
+    ...(entry.name ? { name: entry.name as string } : {}),
+    ...(entry.description ? { description: entry.description as string } : {}),
+    ...(entry.tags ? { tags: entry.tags as string[] } : {}),
+    ...(entry.variables ? { variables } : {}),
+    ...(entry.source ? { source: entry.source as CommandEntry['source'] } : {}),
+    ...(entry.confidence != null ? { confidence: entry.confidence as number } : {}),
+  };
+}
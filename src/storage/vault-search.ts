@@ -0,0 +1,222 @@
+import { CommandEntry } from '../types';
+
+export interface VaultMatch extends CommandEntry {
+  score: number; // Relevance to the query, 0 (nothing matched) to 1 (every term matched exactly)
+}
+
+/**
+ * Words treated as the same term. A word may belong to several groups.
+ */
+export const SYNONYMS: string[][] = [
+  ['remove', 'delete', 'rm', 'del', 'erase', 'unlink'],
+  ['list', 'ls', 'dir', 'show', 'display'],
+  ['copy', 'cp', 'duplicate'],
+  ['move', 'mv', 'rename'],
+  ['find', 'search', 'locate', 'grep'],
+  ['create', 'make', 'new'],
+  ['directory', 'folder', 'dir'],
+  ['kill', 'stop', 'terminate'],
+  ['start', 'run', 'launch', 'execute'],
+  ['download', 'fetch', 'curl', 'wget'],
+  ['install', 'setup'],
+  ['process', 'processes', 'ps'],
+  ['size', 'space', 'usage', 'du'],
+  ['compress', 'zip', 'archive', 'tar'],
+  ['extract', 'unzip', 'decompress', 'untar'],
+  ['permission', 'permissions', 'chmod'],
+  ['status', 'state'],
+];
+
+// Filler words in requests like "show me all the logs"; dropped from queries only
+const STOPWORDS = new Set([
+  'a', 'all', 'an', 'and', 'do', 'for', 'from', 'how', 'i', 'in', 'into',
+  'it', 'me', 'my', 'of', 'on', 'please', 'that', 'the', 'this', 'to', 'with',
+]);
+
+const FIELD_WEIGHTS = { name: 1.5, tags: 1.2, description: 1, commands: 1 };
+
+// Quality of a term match, by kind
+const EXACT = 1;
+const PREFIX = 0.85;
+const TYPO = 0.75;
+const SYNONYM = 0.9; // Multiplies the quality of the synonym's match
+
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.5;
+
+interface IndexedEntry {
+  entry: CommandEntry;
+  terms: Map<string, number>; // Token -> field-weighted frequency
+  length: number;
+}
+
+interface TermMatch {
+  quality: number;
+  frequency: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Ranks entries against the query, best first, leaving out entries that
+ * match none of its terms. Filler words are dropped from the query unless
+ * nothing else is left.
+ *
+ * Each query term counts by its BM25 inverse document frequency and is
+ * scored by how well it matches (exact, prefix, one or two typos, or a
+ * synonym) and how often, saturated BM25-style so that one match in an
+ * entry of average length scores fully. The score is the weighted share
+ * of the query matched, so it is comparable across queries.
+ */
+export function rankEntries(entries: CommandEntry[], query: string): VaultMatch[] {
+  const terms = queryTokens(query);
+  if (!terms.length || !entries.length) return [];
+
+  const indexed = entries.map(index);
+  const averageLength = indexed.reduce((sum, doc) => sum + doc.length, 0) / indexed.length || 1;
+  const matches = indexed.map(doc => terms.map(term => matchTerm(term, doc)));
+
+  const weights = termWeights(terms, matches, indexed.length);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return indexed
+    .map((doc, i) => {
+      const saturation = (frequency: number) =>
+        Math.min(1, (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * doc.length) / averageLength)));
+
+      const score = matches[i].reduce(
+        (sum, match, t) => sum + (match ? weights[t] * match.quality * saturation(match.frequency) : 0),
+        0
+      );
+      return { ...doc.entry, score: score / totalWeight };
+    })
+    .filter(match => match.score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.usageCount - a.usageCount ||
+        b.lastUsed.getTime() - a.lastUsed.getTime()
+    );
+}
+
+/**
+ * 1 + the term's inverse document frequency relative to the rarest term
+ * that occurs, so rare terms count up to twice as much as common ones.
+ * Terms no entry matches get the full weight of 2: a word the vault has
+ * never seen is as telling as the rarest one, and a request like "stop
+ * docker" must not be answered by the one entry that mentions docker.
+ */
+function termWeights(terms: string[], matches: (TermMatch | null)[][], total: number): number[] {
+  const idf = terms.map((_, t) => {
+    const found = matches.filter(doc => doc[t]).length;
+    return found ? Math.log(1 + (total - found + 0.5) / (found + 0.5)) : 0;
+  });
+  const maxIdf = Math.max(...idf);
+
+  return idf.map(value => (value ? 1 + value / maxIdf : 2));
+}
+
+/**
+ * The words of `vocabulary` that a query term matches, directly or through
+ * a synonym. rankEntries() scores an entry above 0 only when it contains
+ * one of them, so an index of entry words can pick the entries to rank.
+ */
+export function matchingTokens(query: string, vocabulary: string[]): string[] {
+  const terms = queryTokens(query).map(term => [term, ...synonymsOf(term)]);
+  return vocabulary.filter(token => terms.some(words => words.some(word => tokenMatch(word, token))));
+}
+
+function matchTerm(term: string, doc: IndexedEntry): TermMatch | null {
+  let best: TermMatch | null = null;
+
+  const consider = (quality: number, frequency: number) => {
+    if (!best || quality > best.quality) best = { quality, frequency };
+    else if (quality === best.quality) best.frequency += frequency;
+  };
+
+  for (const [token, frequency] of doc.terms) {
+    const quality = tokenMatch(term, token);
+    if (quality) consider(quality, frequency);
+
+    for (const synonym of synonymsOf(term)) {
+      const viaSynonym = tokenMatch(synonym, token) * SYNONYM;
+      if (viaSynonym) consider(viaSynonym, frequency);
+    }
+  }
+
+  return best;
+}
+
+function tokenMatch(term: string, token: string): number {
+  if (token === term) return EXACT;
+  if (term.length >= 3 && token.startsWith(term)) return PREFIX;
+
+  const allowed = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (allowed && Math.abs(term.length - token.length) <= allowed && editDistance(term, token, allowed) <= allowed) {
+    return TYPO;
+  }
+  return 0;
+}
+
+function index(entry: CommandEntry): IndexedEntry {
+  const terms = new Map<string, number>();
+  let length = 0;
+
+  const add = (text: string, weight: number) => {
+    for (const token of tokenize(text)) {
+      terms.set(token, (terms.get(token) ?? 0) + weight);
+      length += weight;
+    }
+  };
+
+  add(entry.name ?? '', FIELD_WEIGHTS.name);
+  add(entry.tags.join(' '), FIELD_WEIGHTS.tags);
+  add(entry.description, FIELD_WEIGHTS.description);
+  add(entry.commands.join(' '), FIELD_WEIGHTS.commands);
+
+  return { entry, terms, length };
+}
+
+function queryTokens(query: string): string[] {
+  const tokens = [...new Set(tokenize(query))];
+  const meaningful = tokens.filter(token => !STOPWORDS.has(token));
+  return meaningful.length ? meaningful : tokens;
+}
+
+function synonymsOf(term: string): string[] {
+  const found = SYNONYMS.filter(group => group.includes(term)).flat();
+  return [...new Set(found)].filter(word => word !== term);
+}
+
+/**
+ * Optimal string alignment distance (an adjacent swap counts as one edit),
+ * giving up once it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) return rowMin;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,374 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import { CommandEntry } from '../types';
+import { withoutChoicesCommands } from './vault-format';
+
+const BRANCH = 'main';
+const COMMANDS_DIR = 'commands';
+const PUSH_ATTEMPTS = 3;
+
+/**
+ * The part of StorageManager the sync needs: the personal vault, replaced
+ * atomically with `update` of its current entries.
+ */
+export interface SyncStore {
+  updateCommands(update: (commands: CommandEntry[]) => CommandEntry[]): Promise<void>;
+}
+
+export interface SyncConflict {
+  id: string;
+  name?: string;
+  field: keyof CommandEntry | 'entry';
+  local: unknown; // Kept
+  remote: unknown; // Not applied, shown so it can be resolved by hand
+}
+
+export interface SyncResult {
+  pulled: number; // Entries added, changed or removed by teammates
+  pushed: boolean; // Whether local changes were committed and pushed
+  conflicts: SyncConflict[];
+}
+
+export class GitError extends Error {
+  readonly args: string[];
+  readonly stderr: string;
+
+  constructor(args: string[], code: number | null, stderr: string) {
+    super(`git ${args[0]} failed (${code}): ${stderr.trim()}`);
+    this.name = 'GitError';
+    this.args = args;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * Shares the personal vault through a git repository, one JSON file per
+ * command under commands/<id>.json, using the local git binary.
+ *
+ * A sync fetches, three-way merges the vault with the remote branch (the
+ * last synced commit is the base), rewrites the working tree on top of the
+ * remote tip and pushes. Any git remote works, including a local bare repo.
+ */
+export class VaultSync {
+  private readonly dir: string;
+  private readonly store: SyncStore;
+
+  constructor(dir: string, store: SyncStore) {
+    this.dir = dir;
+    this.store = store;
+  }
+
+  /**
+   * Syncs with the configured remote. `remote` is only needed the first
+   * time, or to point the vault at another repository.
+   */
+  async sync(remote?: string): Promise<SyncResult> {
+    await this.ensureRepository(remote);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.syncOnce();
+      } catch (error) {
+        // Someone pushed between our fetch and push: merge again on top of theirs
+        const rejected = error instanceof GitError && error.args[0] === 'push';
+        if (!rejected || attempt >= PUSH_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  private async syncOnce(): Promise<SyncResult> {
+    await this.git(['fetch', 'origin']);
+
+    const remoteRef = `refs/remotes/origin/${BRANCH}`;
+    const hasHead = await this.refExists('HEAD');
+    const hasRemote = await this.refExists(remoteRef);
+
+    // The last state both sides agreed on; an unpushed commit from a failed
+    // push is ours only and must not count as shared
+    const baseRef = hasHead && hasRemote ? await this.mergeBase('HEAD', remoteRef) : null;
+    const base = baseRef ? await this.readTree(baseRef) : [];
+    const remote = hasRemote ? await this.readTree(remoteRef) : [];
+    const author = await this.authorName();
+
+    // Merged under the vault's lock, so commands saved by another ai while
+    // git was fetching are part of the merge instead of being overwritten
+    let local: CommandEntry[] = [];
+    let merged: ReturnType<typeof mergeEntries> = { entries: [], conflicts: [] };
+    await this.store.updateCommands(current => {
+      local = current;
+      merged = mergeEntries(base, current, remote, author);
+      return merged.entries;
+    });
+    const { entries, conflicts } = merged;
+
+    if (hasRemote) {
+      await this.git(['checkout', '--quiet', '--force', '-B', BRANCH, remoteRef]);
+    }
+
+    await this.writeTree(entries);
+    await this.git(['add', '-A', COMMANDS_DIR]);
+
+    const changed = (await this.git(['status', '--porcelain', COMMANDS_DIR])).trim() !== '';
+    if (changed) {
+      await this.commit(`Sync vault (${entries.length} commands) from ${author}`);
+      await this.git(['push', 'origin', `HEAD:refs/heads/${BRANCH}`]);
+    }
+
+    return {
+      pulled: countChanges(local, entries),
+      pushed: changed,
+      conflicts,
+    };
+  }
+
+  /* -------------------- REPOSITORY -------------------- */
+
+  private async ensureRepository(remote?: string): Promise<void> {
+    if (!(await fs.pathExists(path.join(this.dir, '.git')))) {
+      if (!remote) {
+        throw new Error('No sync repository yet; run `ai vault:sync <remote>` once with a git URL or path.');
+      }
+      await fs.ensureDir(this.dir);
+      await this.git(['init', '--quiet']);
+      await this.git(['symbolic-ref', 'HEAD', `refs/heads/${BRANCH}`]);
+      await this.git(['remote', 'add', 'origin', remote]);
+      return;
+    }
+
+    if (remote) {
+      await this.git(['remote', 'set-url', 'origin', remote]);
+    }
+  }
+
+  private async mergeBase(a: string, b: string): Promise<string | null> {
+    try {
+      return (await this.git(['merge-base', a, b])).trim() || null;
+    } catch {
+      return null; // Unrelated histories
+    }
+  }
+
+  private async refExists(ref: string): Promise<boolean> {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', ref]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Every entry stored under commands/ at a ref, read in one git process.
+   */
+  private async readTree(ref: string): Promise<CommandEntry[]> {
+    const files = (await this.git(['ls-tree', '-r', '--name-only', ref, '--', COMMANDS_DIR]))
+      .split('\n')
+      .filter(file => file.endsWith('.json'));
+    if (!files.length) return [];
+
+    const output = await this.gitRaw(
+      ['cat-file', '--batch'],
+      files.map(file => `${ref}:${file}`).join('\n') + '\n'
+    );
+
+    const entries: CommandEntry[] = [];
+    let offset = 0;
+    for (const file of files) {
+      const headerEnd = output.indexOf('\n', offset);
+      const [, , size] = output.subarray(offset, headerEnd).toString().split(' ');
+      const body = output.subarray(headerEnd + 1, headerEnd + 1 + Number(size)).toString();
+      offset = headerEnd + 1 + Number(size) + 1;
+
+      try {
+        entries.push(reviveEntry(JSON.parse(body)));
+      } catch {
+        console.warn(`Skipping unreadable synced command ${file}`);
+      }
+    }
+
+    return entries;
+  }
+
+  private async writeTree(entries: CommandEntry[]): Promise<void> {
+    const dir = path.join(this.dir, COMMANDS_DIR);
+    await fs.emptyDir(dir);
+
+    for (const entry of entries) {
+      await fs.writeFile(path.join(dir, `${entry.id}.json`), JSON.stringify(entry, null, 2) + '\n');
+    }
+  }
+
+  private async authorName(): Promise<string> {
+    try {
+      const name = (await this.git(['config', 'user.name'])).trim();
+      if (name) return name;
+    } catch {
+      // Not configured
+    }
+    return os.userInfo().username;
+  }
+
+  private async commit(message: string): Promise<void> {
+    let identity: string[] = [];
+    try {
+      await this.git(['config', 'user.email']);
+    } catch {
+      const name = await this.authorName();
+      identity = ['-c', `user.name=${name}`, '-c', `user.email=${name}@${os.hostname()}`];
+    }
+
+    await this.git([...identity, 'commit', '--quiet', '-m', message]);
+  }
+
+  private async git(args: string[]): Promise<string> {
+    return (await this.gitRaw(args)).toString();
+  }
+
+  private gitRaw(args: string[], input?: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, {
+        cwd: this.dir,
+        stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      });
+      const stdout: Buffer[] = [];
+      let stderr = '';
+
+      child.stdout?.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+      child.on('error', reject);
+      child.on('close', code => {
+        // -c options come first; report the git subcommand that failed
+        const command = args.filter((arg, i) => arg !== '-c' && args[i - 1] !== '-c');
+        if (code === 0) resolve(Buffer.concat(stdout));
+        else reject(new GitError(command, code, stderr));
+      });
+
+      if (child.stdin) {
+        child.stdin.on('error', () => undefined); // git exited early; reported on close
+        child.stdin.end(input);
+      }
+    });
+  }
+}
+
+/* -------------------- MERGE -------------------- */
+
+const MERGED_FIELDS: (keyof CommandEntry)[] = [
+  'name',
+  'description',
+  'commands',
+  'variables',
+  'source',
+  'confidence',
+];
+
+/**
+ * Three-way merge by entry id. Usage counts add up both sides' increments,
+ * tags merge as sets, and a field changed differently on both sides keeps
+ * the local value and is reported as a conflict. New entries without an
+ * author get `author`.
+ */
+export function mergeEntries(
+  base: CommandEntry[],
+  local: CommandEntry[],
+  remote: CommandEntry[],
+  author: string
+): { entries: CommandEntry[]; conflicts: SyncConflict[] } {
+  const byId = (list: CommandEntry[]) => new Map(list.map(entry => [entry.id, entry]));
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+
+  const ids = [...new Set([...localById.keys(), ...remoteById.keys(), ...baseById.keys()])];
+  const entries: CommandEntry[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+
+    if (!l && !r) continue; // Deleted on both sides
+
+    if (!l || !r) {
+      const kept = (l ?? r)!;
+      if (!b) {
+        entries.push(l ? { ...l, author: l.author ?? author } : r!);
+      } else if (!same(b, kept)) {
+        // Changed on one side, deleted on the other: keep the change
+        entries.push(kept);
+        conflicts.push({ id, name: kept.name, field: 'entry', local: l ?? null, remote: r ?? null });
+      }
+      continue;
+    }
+
+    entries.push(mergeEntry(b, l, r, conflicts));
+  }
+
+  return { entries, conflicts };
+}
+
+function mergeEntry(
+  base: CommandEntry | undefined,
+  local: CommandEntry,
+  remote: CommandEntry,
+  conflicts: SyncConflict[]
+): CommandEntry {
+  const merged: CommandEntry = { ...local };
+
+  for (const field of MERGED_FIELDS) {
+    const l = local[field];
+    const r = remote[field];
+    if (equal(l, r)) continue;
+
+    if (base && equal(l, base[field])) {
+      Object.assign(merged, { [field]: r });
+    } else if (!base || !equal(r, base[field])) {
+      conflicts.push({ id: local.id, name: local.name, field, local: l, remote: r });
+    }
+  }
+
+  const baseUsage = base?.usageCount ?? 0;
+  merged.usageCount = baseUsage + (local.usageCount - baseUsage) + (remote.usageCount - baseUsage);
+  merged.lastUsed = new Date(Math.max(local.lastUsed.getTime(), remote.lastUsed.getTime()));
+  merged.createdAt = new Date(Math.min(local.createdAt.getTime(), remote.createdAt.getTime()));
+  merged.author = local.author ?? remote.author;
+
+  const removed = (base?.tags ?? []).filter(
+    tag => !local.tags.includes(tag) || !remote.tags.includes(tag)
+  );
+  merged.tags = [...new Set([...local.tags, ...remote.tags])].filter(t => !removed.includes(t));
+
+  return merged;
+}
+
+function same(a: CommandEntry, b: CommandEntry): boolean {
+  return equal({ ...a, lastUsed: 0, usageCount: 0 }, { ...b, lastUsed: 0, usageCount: 0 });
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function countChanges(before: CommandEntry[], after: CommandEntry[]): number {
+  const previous = new Map(before.map(entry => [entry.id, entry]));
+  // Assigning an author to our own entries is not a change from teammates
+  const changed = after.filter(
+    entry => !equal({ ...previous.get(entry.id), author: undefined }, { ...entry, author: undefined })
+  ).length;
+  const removed = before.filter(entry => !after.some(e => e.id === entry.id)).length;
+  return changed + removed;
+}
+
+// Synced entries may come from teammates, so their choices commands are
+// left out (see withoutChoicesCommands()); our own are kept by the merge
+function reviveEntry(raw: CommandEntry): CommandEntry {
+  return {
+    ...raw,
+    lastUsed: new Date(raw.lastUsed),
+    createdAt: new Date(raw.createdAt),
+    variables: withoutChoicesCommands(raw.variables).variables,
+  };
+}
@@ -4,20 +4,92 @@ export interface OS {
   shell?: string;
 }
 
+export interface CommandStep {
+  explanation?: string;
+}
+
+export interface LearningContent {
+  concepts?: string[];
+  debuggingSteps?: string[];
+  relatedCommands?: string[];
+  bestPractices?: string[];
+  resources?: string[];
+}
+
+export type VariableType = 'string' | 'int' | 'path' | 'file' | 'enum' | 'secret';
+
+/**
+ * How a {variable} is prompted for and checked. Everything is optional:
+ * an empty spec is a free-text string.
+ */
+export interface VariableSpec {
+  description?: string;
+  type?: VariableType; // string when omitted; file must exist, secret is not echoed or logged
+  default?: string;
+  pattern?: string; // Regular expression the whole value must match
+  choices?: string[]; // Allowed values of an enum
+  choicesCommand?: string; // Shell command printing one enum choice per line, e.g. git branch --format='%(refname:short)'
+}
+
+export interface Variables {
+  [name: string]: VariableSpec;
+}
+
 export interface ResolvedCommand {
   commands: string[]; // Support multiple steps
   explanation: string;
   tags: string[];
   confidence: number;
   source: 'rule' | 'ai' | 'vault';
-  variables?: { [key: string]: string }; // For template substitution
+  variables?: Variables; // For template substitution
+  steps?: CommandStep[]; // Per-step details, aligned with commands
+  riskAssessment?: { level: 'low' | 'medium' | 'high'; reason?: string }; // Self-reported by the AI
+  learning?: LearningContent;
+}
+
+export interface SafetyFinding {
+  step: number | null; // Index into ResolvedCommand.commands, null when it applies to all steps
+  severity: 'block' | 'confirm' | 'warn';
+  riskLevel: 'low' | 'medium' | 'high';
+  reason: string;
+  ruleId?: string;
+  target?: string; // What the step acts on, typed to confirm high risk steps
+  source: 'policy' | 'contextual' | 'plugin';
+  origin?: string; // Policy layer or plugin name
+  suppressedBy?: string; // Trusted plugin that vouched for this finding
 }
 
 export interface SafetyResult {
   blocked: boolean;
-  warning?: string;
-  reason?: string;
-  riskLevel: 'low' | 'medium' | 'high';
+  warning?: string; // Most severe non-blocking finding
+  reason?: string; // First blocking finding
+  riskLevel: 'low' | 'medium' | 'high'; // Highest risk across all findings
+  ruleId?: string; // Safety rule or policy rule that produced this result
+  requiresConfirmation?: boolean; // Policy asks for a typed confirmation
+  findings?: SafetyFinding[]; // Every finding across every step
+  suppresses?: string[]; // Plugin results only: rule ids to suppress, honoured for trusted plugins
+}
+
+export interface CommandPartExplanation {
+  text: string;
+  kind: 'program' | 'flag' | 'argument' | 'operator' | 'redirection';
+  explanation: string;
+}
+
+export interface CommandExplanation {
+  command: string;
+  summary: string;
+  parts: CommandPartExplanation[];
+  safety: SafetyResult;
+  source: 'ai' | 'local';
+}
+
+export interface FailedCommand {
+  command: string;
+  exitCode: number | null;
+  stderr: string; // Tail of stderr, empty when it was not captured
+  cwd: string;
+  timestamp: string;
 }
 
 export interface CommandEntry {
@@ -31,16 +103,27 @@ export interface CommandEntry {
   createdAt: Date;
   confidence: number;
   source: 'rule' | 'ai' | 'user';
-  variables?: { [key: string]: string }; // For template substitution
+  variables?: Variables; // For template substitution
+  scope?: 'personal' | 'project'; // Set when read with getCommands()
+  author?: string; // Who first shared the command through vault:sync
 }
 
 export interface AIProvider {
-  name: string;
+  name: string; // gemini | openai | anthropic | ollama | openai-compatible
   apiKey?: string;
-  endpoint?: string;
+  endpoint?: string; // Full request URL, overrides baseUrl + model
+  baseUrl?: string;
+  model?: string;
+  headers?: { [key: string]: string };
   maxTokens?: number;
 }
 
+export interface AIProviderClient {
+  readonly config: AIProvider;
+  readonly model: string;
+  complete(prompt: string): Promise<string | null>;
+}
+
 export interface Plugin {
   name: string;
   version: string;